@@ -29,8 +29,8 @@ async function build() {
       // Task 1: Build with Bun
       (async () => {
         console.log('📦 Bundling with Bun...');
-        const result = await Bun.build({
-          entrypoints: ['./src/index.ts'],
+        const nodeResult = await Bun.build({
+          entrypoints: ['./src/index.ts', './src/server.ts'],
           outdir: './dist',
           target: 'node',
           format: 'esm',
@@ -51,16 +51,31 @@ async function build() {
           },
         });
 
-        if (!result.success) {
-          console.error('✗ Build failed:', result.logs);
+        // The client entry must load in browsers, so it is built without Node.js modules
+        const browserResult = await Bun.build({
+          entrypoints: ['./src/client.ts'],
+          outdir: './dist',
+          target: 'browser',
+          format: 'esm',
+          sourcemap: true,
+          minify: false,
+          external: ['zod'],
+          naming: {
+            entry: '[dir]/[name].[ext]',
+          },
+        });
+
+        if (!nodeResult.success || !browserResult.success) {
+          console.error('✗ Build failed:', [...nodeResult.logs, ...browserResult.logs]);
           return { success: false, outputs: [] };
         }
 
-        const totalSize = result.outputs.reduce((sum, output) => sum + output.size, 0);
+        const outputs = [...nodeResult.outputs, ...browserResult.outputs];
+        const totalSize = outputs.reduce((sum, output) => sum + output.size, 0);
         const sizeMB = (totalSize / 1024 / 1024).toFixed(2);
-        console.log(`✓ Built ${result.outputs.length} file(s) - ${sizeMB}MB`);
+        console.log(`✓ Built ${outputs.length} file(s) - ${sizeMB}MB`);
 
-        return result;
+        return { success: true, outputs };
       })(),
 
       // Task 2: Generate TypeScript declarations
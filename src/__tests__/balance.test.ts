@@ -0,0 +1,170 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach } from 'bun:test';
+import type { IAgentRuntime } from '@elizaos/core';
+import { disposeAimoRouterProvider } from '../providers';
+import {
+  checkAimoBalance,
+  checkAimoBalances,
+  getAimoBalance,
+  startBalanceMonitor,
+  stopBalanceMonitor,
+} from '../utils/balance';
+import { AIMO_LOW_BALANCE_EVENT } from '../utils/events';
+import { selectWallet } from '../utils/wallets';
+import { createMockRuntime } from './test-utils';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const ACCOUNT_ID = 'eip155:1:0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const OTHER_EVM_KEY = '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a';
+const OTHER_ADDRESS = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+// Local stand-in for the AiMo Network session balance route
+let server: ReturnType<typeof Bun.serve>;
+let balanceRequests = 0;
+let balanceUsd: number;
+// Balances of other wallets by address; the SIWx sign-in names the wallet
+let otherBalances: Record<string, number> = {};
+
+function createRuntime(settings: Record<string, string> = {}): IAgentRuntime {
+  const values: Record<string, string> = {
+    AIMO_WALLET_TYPE: 'evm',
+    AIMO_PRIVATE_KEY: TEST_EVM_KEY,
+    AIMO_BASE_URL: `http://localhost:${server.port}`,
+    ...settings,
+  };
+  return createMockRuntime({
+    getSetting: ((key: string) => values[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    fetch(request) {
+      if (new URL(request.url).pathname !== '/api/v1/session/balance') {
+        return new Response('Not Found', { status: 404 });
+      }
+      balanceRequests++;
+      const signIn = Buffer.from(request.headers.get('sign-in-with-x') ?? '', 'base64').toString();
+      const address = /0x[0-9a-fA-F]{40}/.exec(signIn)?.[0] ?? '';
+      const usd = otherBalances[address] ?? balanceUsd;
+      return Response.json({
+        caip_account_id: address in otherBalances ? `eip155:1:${address}` : ACCOUNT_ID,
+        balance_micro_usdc: Math.round(usd * 1_000_000),
+        balance_usd: usd.toFixed(6),
+      });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  balanceRequests = 0;
+  balanceUsd = 12.5;
+  otherBalances = {};
+});
+
+describe('Session balance', () => {
+  it('fetches the balance and exposes the last known value', async () => {
+    const runtime = createRuntime();
+    expect(getAimoBalance(runtime)).toBeUndefined();
+
+    const balance = await checkAimoBalance(runtime);
+
+    expect(balance).toEqual({
+      wallet: 'default',
+      accountId: ACCOUNT_ID,
+      balanceUsd: 12.5,
+      balanceMicroUsdc: 12_500_000,
+      checkedAt: expect.any(Number),
+    });
+    expect(getAimoBalance(runtime)).toEqual(balance);
+    expect(runtime.emitEvent).not.toHaveBeenCalled();
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('shares one request between concurrent checks', async () => {
+    const runtime = createRuntime();
+
+    await Promise.all([checkAimoBalance(runtime), checkAimoBalance(runtime)]);
+
+    expect(balanceRequests).toBe(1);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('emits a low balance event once per drop below AIMO_LOW_BALANCE_USD', async () => {
+    const runtime = createRuntime({ AIMO_LOW_BALANCE_USD: '5' });
+
+    balanceUsd = 4;
+    await checkAimoBalance(runtime);
+    balanceUsd = 3;
+    await checkAimoBalance(runtime);
+
+    expect(runtime.emitEvent).toHaveBeenCalledTimes(1);
+    expect(runtime.emitEvent).toHaveBeenCalledWith(
+      AIMO_LOW_BALANCE_EVENT,
+      expect.objectContaining({ wallet: 'default', accountId: ACCOUNT_ID, balanceUsd: 4, thresholdUsd: 5 })
+    );
+
+    balanceUsd = 20;
+    await checkAimoBalance(runtime);
+    balanceUsd = 1;
+    await checkAimoBalance(runtime);
+
+    expect(runtime.emitEvent).toHaveBeenCalledTimes(2);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('keeps a balance per wallet and spends from funded wallets first', async () => {
+    const runtime = createRuntime({
+      AIMO_WALLETS: JSON.stringify([
+        { name: 'main', walletType: 'evm', privateKey: TEST_EVM_KEY },
+        { name: 'backup', walletType: 'evm', privateKey: OTHER_EVM_KEY },
+      ]),
+      AIMO_LOW_BALANCE_USD: '5',
+    });
+    balanceUsd = 1;
+    otherBalances = { [OTHER_ADDRESS]: 20 };
+
+    const balances = await checkAimoBalances(runtime);
+
+    expect(balances.map((balance) => [balance.wallet, balance.balanceUsd])).toEqual([
+      ['main', 1],
+      ['backup', 20],
+    ]);
+    expect(getAimoBalance(runtime, 'main')?.accountId).toBe(ACCOUNT_ID);
+    expect(getAimoBalance(runtime, 'backup')?.accountId).toBe(`eip155:1:${OTHER_ADDRESS}`);
+    expect(runtime.emitEvent).toHaveBeenCalledTimes(1);
+    expect(runtime.emitEvent).toHaveBeenCalledWith(
+      AIMO_LOW_BALANCE_EVENT,
+      expect.objectContaining({ wallet: 'main', balanceUsd: 1 })
+    );
+    expect(selectWallet(runtime, 'vendor/model')?.name).toBe('backup');
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('re-checks the balance in the background until stopped', async () => {
+    const runtime = createRuntime({ AIMO_BALANCE_CHECK_INTERVAL_MS: '20' });
+
+    expect(startBalanceMonitor(runtime)).toBe(true);
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    expect(stopBalanceMonitor(runtime)).toBe(true);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const requests = balanceRequests;
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    expect(requests).toBeGreaterThanOrEqual(2);
+    expect(balanceRequests).toBe(requests);
+    expect(getAimoBalance(runtime)?.balanceUsd).toBe(12.5);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('does not start a monitor when periodic checks are disabled', () => {
+    const runtime = createRuntime({ AIMO_BALANCE_CHECK_INTERVAL_MS: '0' });
+
+    expect(startBalanceMonitor(runtime)).toBe(false);
+    expect(stopBalanceMonitor(runtime)).toBe(false);
+  });
+});
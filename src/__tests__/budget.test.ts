@@ -0,0 +1,171 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach, mock } from 'bun:test';
+import type { IAgentRuntime } from '@elizaos/core';
+import { handleTextSmall } from '../models/text';
+import { disposeAimoRouterProvider } from '../providers';
+import { getCallCostUsd, getSpendLedger } from '../utils/budget';
+import { BudgetExceededError } from '../utils/errors';
+import { createMockRuntime } from './test-utils';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+// $0.001 per token in and out, so the mock usage of 5 + 3 tokens costs $0.008
+const PRICING = JSON.stringify({
+  'vendor/a': { input: 1000, output: 1000 },
+  'vendor/b': { input: 1000, output: 1000 },
+});
+
+// Local stand-in for the AiMo Network chat completions route
+let server: ReturnType<typeof Bun.serve>;
+let requestedModels: string[] = [];
+
+function createRuntime(
+  settings: Record<string, string> = {},
+  cachedLedger?: unknown
+): IAgentRuntime {
+  const values: Record<string, string> = {
+    AIMO_WALLET_TYPE: 'evm',
+    AIMO_PRIVATE_KEY: TEST_EVM_KEY,
+    AIMO_BASE_URL: `http://localhost:${server.port}`,
+    AIMO_SMALL_MODEL: 'vendor/a',
+    AIMO_MODEL_PRICING: PRICING,
+    ...settings,
+  };
+  return createMockRuntime({
+    getSetting: ((key: string) => values[key] ?? null) as IAgentRuntime['getSetting'],
+    getCache: mock().mockResolvedValue(cachedLedger),
+  });
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      if (request.method === 'GET') {
+        return Response.json({ object: 'list', data: [] });
+      }
+      const body = await request.json();
+      requestedModels.push(body.model);
+      return Response.json({
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 0,
+        model: body.model,
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: `answer from ${body.model}` },
+            finish_reason: 'stop',
+          },
+        ],
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  requestedModels = [];
+});
+
+describe('getCallCostUsd', () => {
+  it('prices tokens per million and images per image', () => {
+    expect(getCallCostUsd({ input: 2, output: 8 }, { inputTokens: 500_000, outputTokens: 250_000 })).toBe(3);
+    expect(getCallCostUsd({ image: 0.04 }, { images: 2 })).toBe(0.08);
+    expect(getCallCostUsd(undefined, { inputTokens: 1000 })).toBe(0);
+  });
+});
+
+describe('Spend budgets', () => {
+  it('refuses a call whose estimate exceeds the per-call cap', async () => {
+    const runtime = createRuntime({ AIMO_MAX_USD_PER_CALL: '0.5' });
+
+    const error = await handleTextSmall(runtime, { prompt: 'Hi' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.scope).toBe('call');
+    expect(error.model).toBe('vendor/a');
+    expect(requestedModels).toEqual([]);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('estimates a tool loop at one call per step', async () => {
+    const runtime = createRuntime({ AIMO_MAX_USD_PER_CALL: '0.2' });
+    const tools = { get_weather: { parameters: { type: 'object', properties: {} } } };
+
+    await handleTextSmall(runtime, { prompt: 'Hi', maxTokens: 100 });
+    const error = await handleTextSmall(runtime, { prompt: 'Hi', maxTokens: 100, tools, maxSteps: 3 }).catch(
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.scope).toBe('call');
+    expect(requestedModels).toEqual(['vendor/a']);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('records the actual cost from reported usage and persists the ledger', async () => {
+    const runtime = createRuntime({ AIMO_MAX_USD_PER_CALL: '0.5' });
+
+    await handleTextSmall(runtime, { prompt: 'Hi', maxTokens: 100 });
+    const ledger = await getSpendLedger(runtime);
+
+    expect(ledger.day).toBe(today());
+    expect(ledger.dayUsd).toBeCloseTo(0.008, 9);
+    expect(ledger.models['vendor/a']).toBeCloseTo(0.008, 9);
+    expect(runtime.setCache).toHaveBeenCalledWith(
+      'aimo/spend-ledger',
+      expect.objectContaining({ day: today() })
+    );
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('enforces the daily cap against the persisted ledger', async () => {
+    const runtime = createRuntime(
+      { AIMO_MAX_USD_PER_DAY: '10' },
+      { day: today(), dayUsd: 9.95, models: {}, totalUsd: 40 }
+    );
+
+    const error = await handleTextSmall(runtime, { prompt: 'Hi', maxTokens: 100 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.scope).toBe('day');
+    expect(requestedModels).toEqual([]);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('starts a new day when the persisted ledger is from an earlier date', async () => {
+    const runtime = createRuntime(
+      { AIMO_MAX_USD_PER_DAY: '10' },
+      { day: '2000-01-01', dayUsd: 9.95, models: { 'vendor/a': 9.95 }, totalUsd: 40 }
+    );
+
+    await handleTextSmall(runtime, { prompt: 'Hi', maxTokens: 100 });
+    const ledger = await getSpendLedger(runtime);
+
+    expect(ledger.dayUsd).toBeCloseTo(0.008, 9);
+    expect(ledger.totalUsd).toBeCloseTo(40.008, 9);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('falls back to the next model when a model is over its cap', async () => {
+    const runtime = createRuntime({
+      AIMO_SMALL_MODEL_FALLBACKS: 'vendor/b',
+      AIMO_MAX_USD_PER_MODEL: 'vendor/a=0.01',
+    });
+
+    const text = await handleTextSmall(runtime, { prompt: 'Hi', maxTokens: 100 });
+
+    expect(text).toBe('answer from vendor/b');
+    expect(requestedModels).toEqual(['vendor/b']);
+    expect((await getSpendLedger(runtime)).models).toEqual({ 'vendor/b': expect.any(Number) });
+    disposeAimoRouterProvider(runtime);
+  });
+});
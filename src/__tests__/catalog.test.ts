@@ -0,0 +1,158 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach } from 'bun:test';
+import type { IAgentRuntime } from '@elizaos/core';
+import { disposeAimoRouterProvider } from '../providers';
+import {
+  checkConfiguredModels,
+  getModelCatalog,
+  getModelInfo,
+  validateConfiguredModels,
+} from '../utils/catalog';
+import { createMockRuntime } from './test-utils';
+
+const TEST_EVM_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+const MODELS = [
+  {
+    id: 'openai/gpt-4o-mini',
+    name: 'GPT-4o mini',
+    context_length: 128000,
+    architecture: { input_modalities: ['text', 'image'], output_modalities: ['text'] },
+    pricing: { prompt: '0.00000015', completion: '0.0000006' },
+    supported_parameters: ['tools', 'response_format'],
+  },
+  {
+    id: 'vendor/text-only',
+    context_length: 8192,
+    architecture: { input_modalities: ['text'], output_modalities: ['text'] },
+  },
+  {
+    id: 'vendor/painter',
+    architecture: { input_modalities: ['text'], output_modalities: ['image'] },
+    pricing: { image: '0.04' },
+  },
+  { id: 'vendor/embedder' },
+];
+
+// Local stand-in for an AiMo node serving the model catalog
+let node: ReturnType<typeof Bun.serve>;
+let catalogRequests = 0;
+
+function createRuntime(settings: Record<string, string> = {}): IAgentRuntime {
+  const values: Record<string, string> = {
+    AIMO_WALLET_TYPE: 'evm',
+    AIMO_PRIVATE_KEY: TEST_EVM_KEY,
+    AIMO_BASE_URL: `http://localhost:${node.port}`,
+    AIMO_SMALL_MODEL: 'openai/gpt-4o-mini',
+    AIMO_LARGE_MODEL: 'openai/gpt-4o-mini',
+    AIMO_VISION_MODEL: 'openai/gpt-4o-mini',
+    AIMO_IMAGE_MODEL: 'vendor/painter',
+    AIMO_EMBEDDING_MODEL: 'vendor/embedder',
+    AIMO_RETRY_MAX_ATTEMPTS: '1',
+    ...settings,
+  };
+  return createMockRuntime({
+    getSetting: ((key: string) => values[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+}
+
+beforeAll(() => {
+  node = Bun.serve({
+    port: 0,
+    fetch(request) {
+      if (request.method === 'GET' && new URL(request.url).pathname === '/api/v1/models') {
+        catalogRequests++;
+        return Response.json({ object: 'list', data: MODELS });
+      }
+      return Response.json({ error: { message: 'Not found' } }, { status: 404 });
+    },
+  });
+});
+
+afterAll(() => {
+  node.stop(true);
+});
+
+beforeEach(() => {
+  catalogRequests = 0;
+});
+
+describe('Model catalog', () => {
+  it('fetches and caches the available models', async () => {
+    const runtime = createRuntime();
+
+    const [catalog] = await Promise.all([getModelCatalog(runtime), getModelCatalog(runtime)]);
+    expect(catalog.map((model) => model.id)).toEqual([
+      'openai/gpt-4o-mini',
+      'vendor/text-only',
+      'vendor/painter',
+      'vendor/embedder',
+    ]);
+    const info = await getModelInfo(runtime, 'openai/gpt-4o-mini');
+    expect(info).toMatchObject({
+      name: 'GPT-4o mini',
+      contextLength: 128000,
+      inputModalities: ['text', 'image'],
+      outputModalities: ['text'],
+      features: ['tools', 'response_format'],
+    });
+    expect(info?.pricing?.input).toBeCloseTo(0.15);
+    expect(info?.pricing?.output).toBeCloseTo(0.6);
+    expect((await getModelInfo(runtime, 'vendor/painter'))?.pricing).toEqual({ image: 0.04 });
+    expect(await getModelInfo(runtime, 'vendor/missing')).toBeUndefined();
+    expect(catalogRequests).toBe(1);
+
+    await getModelCatalog(runtime, { refresh: true });
+    expect(catalogRequests).toBe(2);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('reports unknown and unsuitable models', async () => {
+    const runtime = createRuntime({
+      AIMO_LARGE_MODEL: 'openai/gpt-4o-mnii',
+      AIMO_LARGE_MODEL_FALLBACKS: 'vendor/painter',
+      AIMO_VISION_MODEL: 'vendor/text-only',
+    });
+
+    expect(await checkConfiguredModels(runtime)).toEqual([
+      'AIMO_LARGE_MODEL "openai/gpt-4o-mnii" is not offered on AiMo Network (did you mean "openai/gpt-4o-mini"?)',
+      'AIMO_LARGE_MODEL_FALLBACKS "vendor/painter" does not produce text output',
+      'AIMO_VISION_MODEL "vendor/text-only" does not accept image input',
+    ]);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('warns, fails or skips according to the validation mode', async () => {
+    const valid = createRuntime();
+    expect(await validateConfiguredModels(valid)).toBe(true);
+    disposeAimoRouterProvider(valid);
+
+    const warn = createRuntime({ AIMO_SMALL_MODEL: 'vendor/missing' });
+    expect(await validateConfiguredModels(warn)).toBe(false);
+    disposeAimoRouterProvider(warn);
+
+    const strict = createRuntime({ AIMO_SMALL_MODEL: 'vendor/missing', AIMO_MODEL_VALIDATION: 'strict' });
+    await expect(validateConfiguredModels(strict)).rejects.toThrow(
+      'AiMo model configuration is invalid: AIMO_SMALL_MODEL "vendor/missing" is not offered on AiMo Network'
+    );
+    disposeAimoRouterProvider(strict);
+
+    const off = createRuntime({ AIMO_SMALL_MODEL: 'vendor/missing', AIMO_MODEL_VALIDATION: 'off' });
+    catalogRequests = 0;
+    expect(await validateConfiguredModels(off)).toBe(true);
+    expect(catalogRequests).toBe(0);
+    disposeAimoRouterProvider(off);
+  });
+
+  it('fails only strict validation when the catalog cannot be fetched', async () => {
+    const settings = { AIMO_BASE_URL: 'http://127.0.0.1:9', AIMO_SMALL_MODEL: 'vendor/missing' };
+    const warn = createRuntime({ ...settings, AIMO_MODEL_VALIDATION: 'warn' });
+    const strict = createRuntime({ ...settings, AIMO_MODEL_VALIDATION: 'strict' });
+
+    expect(await validateConfiguredModels(warn)).toBe(true);
+    await expect(validateConfiguredModels(strict)).rejects.toThrow(
+      'AiMo models could not be validated: the model catalog could not be fetched'
+    );
+    disposeAimoRouterProvider(warn);
+    disposeAimoRouterProvider(strict);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'bun:test';
+import { getAssetInfo, getSupportedChains, parseCaip2, resolveChain } from '../utils/chains';
+import { readPaymentDetails } from '../utils/payments';
+import { createEvmSigner, createSignerFromConfig, getChainIdForWallet } from '../utils/signer';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const TEST_EVM_ADDRESS = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const EVM_NETWORKS = [
+  { alias: 'base', chainId: 'eip155:8453', usdc: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' },
+  { alias: 'base-sepolia', chainId: 'eip155:84532', usdc: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' },
+  { alias: 'optimism', chainId: 'eip155:10', usdc: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85' },
+  { alias: 'arbitrum', chainId: 'eip155:42161', usdc: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831' },
+  { alias: 'polygon', chainId: 'eip155:137', usdc: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359' },
+];
+
+describe('parseCaip2', () => {
+  it('splits valid chain IDs and rejects malformed ones', () => {
+    expect(parseCaip2('eip155:1')).toEqual({ namespace: 'eip155', reference: '1' });
+    expect(parseCaip2('solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1')).toEqual({
+      namespace: 'solana',
+      reference: 'EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+    });
+    expect(parseCaip2('mainnet')).toBeUndefined();
+    expect(parseCaip2('EIP155:1')).toBeUndefined();
+    expect(parseCaip2('eip155:')).toBeUndefined();
+    expect(parseCaip2('eip155:1:0xabc')).toBeUndefined();
+  });
+});
+
+describe('resolveChain', () => {
+  it('resolves CAIP-2 IDs, aliases and numeric EVM chain IDs', () => {
+    expect(getChainIdForWallet('svm', 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp')).toBe(
+      'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp'
+    );
+    expect(getChainIdForWallet('svm', 'Devnet')).toBe('solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1');
+    expect(getChainIdForWallet('svm', 'testnet')).toBe('solana:4uhcVJyU9pJkvQyS88uRDiswHXSCkY3z');
+    expect(getChainIdForWallet('evm', 'mainnet')).toBe('eip155:1');
+    expect(getChainIdForWallet('evm', 'sepolia')).toBe('eip155:11155111');
+    expect(getChainIdForWallet('evm', '11155111')).toBe('eip155:11155111');
+  });
+
+  it('rejects unknown chains instead of falling back to mainnet', () => {
+    expect(() => resolveChain('evm', 'sepolai')).toThrow('Unsupported chain "sepolai"');
+    expect(() => resolveChain('evm', 'eip155:999999')).toThrow('Unsupported chain');
+    expect(() => resolveChain('svm', 'solana:unknownGenesisHash')).toThrow('Unsupported chain');
+    expect(() => resolveChain('evm', 'eip155:')).toThrow('Invalid chain ID');
+  });
+
+  it('rejects chains of the other wallet type', () => {
+    expect(() => resolveChain('svm', 'sepolia')).toThrow('is not an SVM network');
+    expect(() => resolveChain('svm', 'eip155:1')).toThrow('is not an SVM network');
+    expect(() => resolveChain('evm', 'devnet')).toThrow('is not an EVM network');
+    expect(() => resolveChain('evm', 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1')).toThrow(
+      'is not an EVM network'
+    );
+  });
+
+  it('lists the default network of each wallet type first', () => {
+    expect(getSupportedChains('svm')[0].chainId).toBe('solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp');
+    expect(getSupportedChains('evm')[0].chainId).toBe('eip155:1');
+  });
+});
+
+describe('createSignerFromConfig', () => {
+  it('creates the signer on the resolved network', async () => {
+    const signer = await createSignerFromConfig({
+      walletType: 'evm',
+      privateKey: TEST_EVM_KEY,
+      chainId: 'sepolia',
+    });
+
+    expect(signer.network).toBe('eip155:11155111');
+  });
+
+  it('fails on an unknown chain', async () => {
+    await expect(
+      createSignerFromConfig({ walletType: 'evm', privateKey: TEST_EVM_KEY, chainId: 'goerli' })
+    ).rejects.toThrow('Unsupported chain "goerli"');
+  });
+});
+
+describe('EVM L2 networks', () => {
+  for (const network of EVM_NETWORKS) {
+    it(`supports ${network.alias}`, async () => {
+      const chainId = getChainIdForWallet('evm', network.alias);
+      expect(chainId).toBe(network.chainId as `${string}:${string}`);
+      expect(getChainIdForWallet('evm', network.chainId.split(':')[1])).toBe(chainId);
+
+      const signer = createEvmSigner(TEST_EVM_KEY, chainId);
+      expect(signer.network).toBe(chainId);
+      expect(signer.address).toBe(TEST_EVM_ADDRESS);
+
+      expect(getAssetInfo(chainId, network.usdc.toLowerCase())).toMatchObject({
+        address: network.usdc,
+        symbol: 'USDC',
+        decimals: 6,
+        eip712: { version: '2' },
+      });
+    });
+  }
+
+  it('prices payments in known USDC by its metadata', () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64');
+    const details = readPaymentDetails(
+      new Headers({
+        'PAYMENT-SIGNATURE': encode({
+          x402Version: 2,
+          accepted: {
+            scheme: 'exact',
+            network: 'eip155:8453',
+            asset: EVM_NETWORKS[0].usdc,
+            amount: '250000',
+            payTo: TEST_EVM_ADDRESS,
+            extra: { decimals: 18, symbol: 'WRONG' },
+          },
+        }),
+      }),
+      new Headers()
+    );
+
+    expect(details).toMatchObject({ price: 0.25, currency: 'USDC', settled: false });
+  });
+
+  it('does not treat USDC of another network as known', () => {
+    expect(getAssetInfo('eip155:10', EVM_NETWORKS[0].usdc)).toBeUndefined();
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { builtinModules } from 'node:module';
+import { dirname, resolve } from 'node:path';
+import { generateText } from 'ai';
+import { createAimoProxyClient } from '../client';
+import { startProxyServer, type ProxyServer } from '../server';
+import { createEvmSigner } from '../utils/signer';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const TEST_EVM_ADDRESS = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64');
+
+// Local stand-in for an AiMo node that requires an x402 payment per call
+let node: ReturnType<typeof Bun.serve>;
+let proxy: ProxyServer;
+
+beforeAll(async () => {
+  node = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const body = await request.json();
+      if (!request.headers.get('PAYMENT-SIGNATURE')) {
+        return Response.json(
+          {},
+          {
+            status: 402,
+            headers: {
+              'PAYMENT-REQUIRED': encode({
+                x402Version: 2,
+                resource: { url: request.url, description: 'chat', mimeType: 'application/json' },
+                accepts: [
+                  {
+                    scheme: 'exact',
+                    network: 'eip155:1',
+                    asset: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+                    amount: '1500',
+                    payTo: '0x1111111111111111111111111111111111111111',
+                    maxTimeoutSeconds: 60,
+                    extra: { name: 'USD Coin', version: '2' },
+                  },
+                ],
+              }),
+            },
+          }
+        );
+      }
+      return Response.json({
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: 'paid' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      });
+    },
+  });
+  proxy = await startProxyServer({
+    signer: createEvmSigner(TEST_EVM_KEY),
+    walletType: 'evm',
+    baseURL: `http://localhost:${node.port}`,
+    clients: [{ name: 'browser', token: 'browser-token' }],
+  });
+});
+
+/**
+ * Bundle an entry for browsers and list the Node.js modules it loads before any import()
+ */
+async function findStaticNodeImports(entrypoint: string): Promise<string[]> {
+  const staticImports = new Map<string, string[]>();
+  const nodeImports: { path: string; importer: string }[] = [];
+  const result = await Bun.build({
+    entrypoints: [entrypoint],
+    target: 'browser',
+    format: 'esm',
+    splitting: true,
+    throw: false,
+    plugins: [
+      {
+        name: 'node-imports',
+        setup(build) {
+          build.onResolve({ filter: /.*/ }, (args) => {
+            if (args.path.startsWith('node:') || builtinModules.includes(args.path)) {
+              if (args.kind !== 'dynamic-import') {
+                nodeImports.push({ path: args.path, importer: args.importer });
+              }
+              return { path: args.path, external: true };
+            }
+            if (args.kind === 'import-statement' && args.path.startsWith('.')) {
+              const imports = staticImports.get(args.importer) ?? [];
+              imports.push(Bun.resolveSync(args.path, dirname(args.importer)));
+              staticImports.set(args.importer, imports);
+            }
+            return undefined;
+          });
+        },
+      },
+    ],
+  });
+  expect(result.logs.map(String)).toEqual([]);
+  expect(result.success).toBe(true);
+
+  const loaded = new Set([resolve(entrypoint)]);
+  for (const module of loaded) {
+    for (const imported of staticImports.get(module) ?? []) {
+      loaded.add(imported);
+    }
+  }
+  // Dependencies are not followed, so any of their static Node.js imports counts
+  return nodeImports
+    .filter(({ importer }) => loaded.has(importer) || importer.includes('/node_modules/'))
+    .map(({ path, importer }) => `${path} from ${importer}`);
+}
+
+afterAll(async () => {
+  node.stop(true);
+  await proxy.close();
+});
+
+describe('Client entry', () => {
+  it('bundles for browsers without Node.js modules', async () => {
+    expect(await findStaticNodeImports(`${import.meta.dir}/../client.ts`)).toEqual([]);
+  });
+
+  it('loads the plugin entry in browsers without Node.js modules', async () => {
+    // Key handling and file access are imported only when used, which a browser going through a proxy never does
+    expect(await findStaticNodeImports(`${import.meta.dir}/../index.ts`)).toEqual([]);
+  });
+
+  it('calls models through the signing proxy', async () => {
+    const client = await createAimoProxyClient({ url: proxy.url, token: 'browser-token', walletType: 'evm' });
+
+    const { text } = await generateText({ model: client.provider.chat('vendor/paid'), prompt: 'Hi' });
+
+    expect(text).toBe('paid');
+    expect(String(client.signer.address)).toBe(TEST_EVM_ADDRESS);
+    expect(proxy.getSpend('browser')).toBeCloseTo(0.0015);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach } from 'bun:test';
+import type { IAgentRuntime } from '@elizaos/core';
+import { handleTextLarge, handleTextSmall } from '../models/text';
+import { disposeAimoRouterProvider } from '../providers';
+import { getModelCatalog } from '../utils/catalog';
+import { ContextLengthExceededError } from '../utils/errors';
+import { createMockRuntime } from './test-utils';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+const MODELS = [
+  { id: 'vendor/small', context_length: 1000, architecture: { output_modalities: ['text'] } },
+  { id: 'vendor/large', context_length: 4000, architecture: { output_modalities: ['text'] } },
+  { id: 'vendor/huge', context_length: 1000000, architecture: { output_modalities: ['text'] } },
+];
+
+// About 1000 tokens at the estimate of 4 characters per token
+const LONG_PROMPT = 'word '.repeat(800);
+
+// Local stand-in for an AiMo node serving the model catalog and chat completions
+let node: ReturnType<typeof Bun.serve>;
+let requests: any[] = [];
+
+async function createRuntime(settings: Record<string, string> = {}, loadCatalog = true): Promise<IAgentRuntime> {
+  const values: Record<string, string> = {
+    AIMO_WALLET_TYPE: 'evm',
+    AIMO_PRIVATE_KEY: TEST_EVM_KEY,
+    AIMO_BASE_URL: `http://localhost:${node.port}`,
+    AIMO_SMALL_MODEL: 'vendor/small',
+    AIMO_LARGE_MODEL: 'vendor/large',
+    AIMO_RETRY_MAX_ATTEMPTS: '1',
+    ...settings,
+  };
+  const runtime = createMockRuntime({
+    getSetting: ((key: string) => values[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+  if (loadCatalog) {
+    // Context windows are read from the catalog loaded at startup
+    await getModelCatalog(runtime);
+  }
+  return runtime;
+}
+
+beforeAll(() => {
+  node = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      if (request.method === 'GET') {
+        return Response.json({ object: 'list', data: MODELS });
+      }
+      const body = await request.json();
+      requests.push(body);
+      return Response.json({
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: 'ok' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      });
+    },
+  });
+});
+
+afterAll(() => {
+  node.stop(true);
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+describe('Prompt-length routing', () => {
+  it('keeps prompts that fit on the small model', async () => {
+    const runtime = await createRuntime();
+
+    await handleTextSmall(runtime, { prompt: 'Hi', maxTokens: 100 });
+
+    expect(requests.map((request) => request.model)).toEqual(['vendor/small']);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('upgrades long prompts to the large model', async () => {
+    const runtime = await createRuntime();
+
+    await handleTextSmall(runtime, { prompt: LONG_PROMPT, maxTokens: 100 });
+
+    expect(requests.map((request) => request.model)).toEqual(['vendor/large']);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('fetches the catalog on the first call when it was not loaded at startup', async () => {
+    const runtime = await createRuntime({ AIMO_MODEL_VALIDATION: 'off' }, false);
+
+    await handleTextSmall(runtime, { prompt: LONG_PROMPT, maxTokens: 100 });
+
+    expect(requests.map((request) => request.model)).toEqual(['vendor/large']);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('upgrades to the long-context model when the large model cannot fit the prompt', async () => {
+    const runtime = await createRuntime({ AIMO_LONG_CONTEXT_MODEL: 'vendor/huge' });
+
+    await handleTextLarge(runtime, { prompt: LONG_PROMPT.repeat(5), maxTokens: 100 });
+
+    expect(requests.map((request) => request.model)).toEqual(['vendor/huge']);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('fails before paying when no model fits', async () => {
+    const runtime = await createRuntime();
+
+    const error = await handleTextSmall(runtime, { prompt: LONG_PROMPT.repeat(5), maxTokens: 100 }).catch(
+      (error: unknown) => error
+    );
+
+    expect(error).toBeInstanceOf(ContextLengthExceededError);
+    expect((error as ContextLengthExceededError).model).toBe('vendor/small');
+    expect(requests).toEqual([]);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('trims the oldest messages with the trim policy', async () => {
+    const runtime = await createRuntime({ AIMO_CONTEXT_POLICY: 'trim' });
+    const history = Array.from({ length: 10 }, (_, index) => ({
+      role: index % 2 === 0 ? ('user' as const) : ('assistant' as const),
+      content: `${index} ${'word '.repeat(60)}`,
+    }));
+
+    await handleTextSmall(runtime, {
+      prompt: 'Summarize',
+      maxTokens: 400,
+      messages: [{ role: 'system', content: 'Be brief.' }, ...history],
+    });
+
+    const sent = requests[0].messages;
+    expect(requests[0].model).toBe('vendor/small');
+    expect(sent[0]).toEqual({ role: 'system', content: 'Be brief.' });
+    expect(sent.at(-1)).toEqual({ role: 'user', content: 'Summarize' });
+    expect(sent.length).toBeLessThan(12);
+    expect(sent[1].content.startsWith('0 ')).toBe(false);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('sends prompts unchanged with the off policy', async () => {
+    const runtime = await createRuntime({ AIMO_CONTEXT_POLICY: 'off' });
+
+    await handleTextSmall(runtime, { prompt: LONG_PROMPT, maxTokens: 100 });
+
+    expect(requests.map((request) => request.model)).toEqual(['vendor/small']);
+    disposeAimoRouterProvider(runtime);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { EventType, ModelType, type IAgentRuntime } from '@elizaos/core';
+import { handleTextEmbedding, handleTextEmbeddingBatch } from '../models/embedding';
+import { disposeAimoRouterProvider } from '../providers';
+import { createMockRuntime } from './test-utils';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+// Local stand-in for the AiMo Network embeddings route
+let server: ReturnType<typeof Bun.serve>;
+let requests: { url: string; headers: Headers; body: any }[] = [];
+let respond: (body: any) => Response;
+
+function createRuntime(settings: Record<string, string> = {}): IAgentRuntime {
+  const values: Record<string, string> = {
+    AIMO_WALLET_TYPE: 'evm',
+    AIMO_PRIVATE_KEY: TEST_EVM_KEY,
+    AIMO_BASE_URL: `http://localhost:${server.port}`,
+    AIMO_EMBEDDING_DIMENSIONS: '384',
+    ...settings,
+  };
+  return createMockRuntime({
+    getSetting: ((key: string) => values[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+}
+
+function vector(size: number, value: number): number[] {
+  return Array(size).fill(value);
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const body = await request.json();
+      requests.push({ url: request.url, headers: request.headers, body });
+      return respond(body);
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  requests = [];
+  respond = (body) =>
+    Response.json({
+      data: body.input.map((_: string, index: number) => ({
+        index,
+        embedding: vector(body.dimensions ?? 1536, index + 1),
+      })),
+      model: body.model,
+      usage: { prompt_tokens: 7, total_tokens: 7 },
+    });
+});
+
+describe('TEXT_EMBEDDING handler', () => {
+  it('returns a zero vector for the initialization probe without a request', async () => {
+    const runtime = createRuntime();
+
+    const embedding = await handleTextEmbedding(runtime, null);
+
+    expect(embedding).toHaveLength(384);
+    expect(embedding.every((value) => value === 0)).toBe(true);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('requests embeddings from the signed /embeddings route', async () => {
+    const runtime = createRuntime({ AIMO_EMBEDDING_MODEL: 'openai/text-embedding-3-large' });
+
+    const embedding = await handleTextEmbedding(runtime, { text: 'hello world' });
+
+    expect(embedding).toEqual(vector(384, 1));
+    expect(requests).toHaveLength(1);
+    expect(new URL(requests[0].url).pathname).toBe('/api/v1/embeddings');
+    expect(requests[0].headers.get('SIGN-IN-WITH-X')).toBeTruthy();
+    expect(requests[0].body).toEqual({
+      model: 'openai/text-embedding-3-large',
+      input: ['hello world'],
+      dimensions: 384,
+    });
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('emits a MODEL_USED event with the reported token usage', async () => {
+    const runtime = createRuntime();
+
+    await handleTextEmbedding(runtime, 'hello world');
+
+    expect(runtime.emitEvent).toHaveBeenCalledWith(
+      EventType.MODEL_USED,
+      expect.objectContaining({
+        type: ModelType.TEXT_EMBEDDING,
+        tokens: { prompt: 7, completion: 0, total: 7 },
+      })
+    );
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('throws when the returned vector size does not match', async () => {
+    const runtime = createRuntime();
+    respond = () => Response.json({ data: [{ index: 0, embedding: vector(1536, 1) }] });
+
+    await expect(handleTextEmbedding(runtime, 'hello world')).rejects.toThrow(
+      'returned 1536 dimensions, expected 384'
+    );
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('throws when the route fails instead of returning a placeholder', async () => {
+    const runtime = createRuntime();
+    respond = () => Response.json({ error: { message: 'model not found' } }, { status: 404 });
+
+    await expect(handleTextEmbedding(runtime, 'hello world')).rejects.toThrow('model not found');
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('rejects empty text and invalid input', async () => {
+    const runtime = createRuntime();
+
+    await expect(handleTextEmbedding(runtime, '   ')).rejects.toThrow('empty text');
+    await expect(handleTextEmbedding(runtime, {} as any)).rejects.toThrow('Invalid input format');
+    expect(requests).toHaveLength(0);
+  });
+
+  it('rejects dimensions that are not supported by the memory store', async () => {
+    const runtime = createRuntime({ AIMO_EMBEDDING_DIMENSIONS: '100' });
+
+    await expect(handleTextEmbedding(runtime, 'hello world')).rejects.toThrow(
+      'Invalid embedding dimension'
+    );
+  });
+});
+
+describe('Embedding batching', () => {
+  it('coalesces concurrent single-text calls into one request', async () => {
+    const runtime = createRuntime();
+
+    const embeddings = await Promise.all([
+      handleTextEmbedding(runtime, 'first'),
+      handleTextEmbedding(runtime, 'second'),
+      handleTextEmbedding(runtime, { text: 'third' }),
+    ]);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].body.input).toEqual(['first', 'second', 'third']);
+    expect(embeddings.map((embedding) => embedding[0])).toEqual([1, 2, 3]);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('splits coalesced calls at the configured batch size', async () => {
+    const runtime = createRuntime({ AIMO_EMBEDDING_BATCH_SIZE: '2' });
+
+    const embeddings = await Promise.all(
+      ['a', 'b', 'c', 'd', 'e'].map((text) => handleTextEmbedding(runtime, text))
+    );
+
+    expect(requests.map((request) => request.body.input)).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+    expect(embeddings.map((embedding) => embedding[0])).toEqual([1, 2, 1, 2, 1]);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('sends each call on its own when the window is 0', async () => {
+    const runtime = createRuntime({ AIMO_EMBEDDING_BATCH_WINDOW_MS: '0' });
+
+    await Promise.all([handleTextEmbedding(runtime, 'a'), handleTextEmbedding(runtime, 'b')]);
+
+    expect(requests).toHaveLength(2);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('rejects every caller in a failed batch', async () => {
+    const runtime = createRuntime({ AIMO_RETRY_MAX_ATTEMPTS: '1' });
+    respond = () => Response.json({ error: 'upstream unavailable' }, { status: 503 });
+
+    const results = await Promise.allSettled([
+      handleTextEmbedding(runtime, 'a'),
+      handleTextEmbedding(runtime, 'b'),
+    ]);
+
+    expect(requests).toHaveLength(1);
+    expect(results.every((result) => result.status === 'rejected')).toBe(true);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('embeds a list of texts in bounded batches and keeps input order', async () => {
+    const runtime = createRuntime({ AIMO_EMBEDDING_BATCH_SIZE: '3' });
+
+    const embeddings = await handleTextEmbeddingBatch(runtime, ['a', 'b', 'a', 'c', 'd']);
+
+    expect(requests.map((request) => request.body.input)).toEqual([['a', 'b'], ['c', 'd']]);
+    expect(embeddings.map((embedding) => embedding[0])).toEqual([1, 2, 1, 1, 2]);
+    disposeAimoRouterProvider(runtime);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { APICallError } from 'ai';
+import { EventType, type IAgentRuntime } from '@elizaos/core';
+import { handleObjectLarge } from '../models/object';
+import { handleTextLarge, handleTextSmall } from '../models/text';
+import { disposeAimoRouterProvider } from '../providers';
+import { classifyAimoError, AimoRequestError } from '../utils/errors';
+import { createMockRuntime } from './test-utils';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+// Local stand-in for the AiMo Network chat completions route. Models listed in
+// `failures` respond with the given status and message.
+let server: ReturnType<typeof Bun.serve>;
+let requestedModels: string[] = [];
+let failures: Record<string, { status: number; message: string }>;
+
+function createRuntime(settings: Record<string, string> = {}): IAgentRuntime {
+  const values: Record<string, string> = {
+    AIMO_WALLET_TYPE: 'evm',
+    AIMO_PRIVATE_KEY: TEST_EVM_KEY,
+    AIMO_BASE_URL: `http://localhost:${server.port}`,
+    ...settings,
+  };
+  return createMockRuntime({
+    getSetting: ((key: string) => values[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      if (request.method === 'GET') {
+        return Response.json({ object: 'list', data: [] });
+      }
+      const body = await request.json();
+      requestedModels.push(body.model);
+      const failure = failures[body.model];
+      if (failure) {
+        return Response.json({ error: { message: failure.message } }, { status: failure.status });
+      }
+      const content = body.model.includes('json') ? '{"ok":true}' : `answer from ${body.model}`;
+      if (body.stream) {
+        const chunk = (delta: any, finish: string | null = null) =>
+          `data: ${JSON.stringify({
+            id: 'chatcmpl-test',
+            object: 'chat.completion.chunk',
+            created: 0,
+            model: body.model,
+            choices: [{ index: 0, delta, finish_reason: finish }],
+          })}\n\n`;
+        return new Response(
+          `${chunk({ role: 'assistant', content })}${chunk({}, 'stop')}data: [DONE]\n\n`,
+          { headers: { 'Content-Type': 'text/event-stream' } }
+        );
+      }
+      return Response.json({
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  requestedModels = [];
+  failures = {
+    'vendor/missing': { status: 404, message: 'model not found' },
+    'vendor/unpaid': { status: 402, message: 'payment required' },
+    'vendor/strict': { status: 400, message: 'invalid temperature' },
+  };
+});
+
+describe('classifyAimoError', () => {
+  it('classifies route-specific errors', () => {
+    const apiError = (statusCode: number, responseBody = '') =>
+      new APICallError({ message: 'failed', url: '', requestBodyValues: {}, statusCode, responseBody });
+
+    expect(classifyAimoError(apiError(503))).toBe('server');
+    expect(classifyAimoError(apiError(429))).toBe('rate-limit');
+    expect(classifyAimoError(apiError(404))).toBe('model-unavailable');
+    expect(classifyAimoError(apiError(400, 'No endpoints found for vendor/x'))).toBe(
+      'model-unavailable'
+    );
+    expect(classifyAimoError(new AimoRequestError('/x', 402, 'Payment Required', {}))).toBe('payment');
+    expect(classifyAimoError(apiError(400, 'invalid temperature'))).toBe('other');
+    expect(classifyAimoError(new Error('boom'))).toBe('other');
+  });
+});
+
+describe('Model fallback chain', () => {
+  it('walks the fallback chain and reports the model actually used', async () => {
+    const runtime = createRuntime({
+      AIMO_LARGE_MODEL: 'vendor/missing',
+      AIMO_LARGE_MODEL_FALLBACKS: 'vendor/unpaid, vendor/backup',
+    });
+
+    const text = await handleTextLarge(runtime, { prompt: 'Hi' });
+
+    expect(text).toBe('answer from vendor/backup');
+    expect(requestedModels).toEqual(['vendor/missing', 'vendor/unpaid', 'vendor/backup']);
+    expect(runtime.emitEvent).toHaveBeenCalledTimes(1);
+    expect(runtime.emitEvent).toHaveBeenCalledWith(
+      EventType.MODEL_USED,
+      expect.objectContaining({ model: 'vendor/backup' })
+    );
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('does not fall back on validation errors', async () => {
+    const runtime = createRuntime({
+      AIMO_SMALL_MODEL: 'vendor/strict',
+      AIMO_SMALL_MODEL_FALLBACKS: 'vendor/backup',
+    });
+
+    await expect(handleTextSmall(runtime, { prompt: 'Hi' })).rejects.toThrow();
+    expect(requestedModels).toEqual(['vendor/strict']);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('throws the last error when every model fails', async () => {
+    const runtime = createRuntime({
+      AIMO_SMALL_MODEL: 'vendor/missing',
+      AIMO_SMALL_MODEL_FALLBACKS: 'vendor/unpaid',
+    });
+
+    await expect(handleTextSmall(runtime, { prompt: 'Hi' })).rejects.toThrow('payment required');
+    expect(requestedModels).toEqual(['vendor/missing', 'vendor/unpaid']);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('falls back while streaming when the stream fails before the first chunk', async () => {
+    const runtime = createRuntime({
+      AIMO_SMALL_MODEL: 'vendor/missing',
+      AIMO_SMALL_MODEL_FALLBACKS: 'vendor/backup',
+    });
+
+    const result: any = await handleTextSmall(runtime, { prompt: 'Hi', stream: true });
+    let streamed = '';
+    for await (const chunk of result.textStream) {
+      streamed += chunk;
+    }
+
+    expect(streamed).toBe('answer from vendor/backup');
+    expect(requestedModels).toEqual(['vendor/missing', 'vendor/backup']);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('applies the chain to object generation', async () => {
+    const runtime = createRuntime({
+      AIMO_LARGE_MODEL: 'vendor/missing',
+      AIMO_LARGE_MODEL_FALLBACKS: 'vendor/json',
+    });
+
+    const result = await handleObjectLarge(runtime, { prompt: 'Return ok' });
+
+    expect(result).toEqual({ ok: true });
+    expect(requestedModels).toEqual(['vendor/missing', 'vendor/json']);
+    disposeAimoRouterProvider(runtime);
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { EventType, ModelType, type IAgentRuntime } from '@elizaos/core';
+import {
+  handleImageDescription,
+  handleImageGeneration,
+  parseImageDescription,
+} from '../models/image';
+import { disposeAimoRouterProvider } from '../providers';
+import { createMockRuntime } from './test-utils';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+// Local stand-in for the AiMo Network API
+let server: ReturnType<typeof Bun.serve>;
+let requests: { path: string; body: any }[] = [];
+let reply: string;
+let images: { url?: string; b64_json?: string }[];
+let tempDir: string;
+
+function createRuntime(settings: Record<string, string> = {}): IAgentRuntime {
+  const values: Record<string, string> = {
+    AIMO_WALLET_TYPE: 'evm',
+    AIMO_PRIVATE_KEY: TEST_EVM_KEY,
+    AIMO_BASE_URL: `http://localhost:${server.port}`,
+    ...settings,
+  };
+  return createMockRuntime({
+    getSetting: ((key: string) => values[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+}
+
+beforeAll(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'aimo-image-'));
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const body = await request.json();
+      const path = new URL(request.url).pathname;
+      requests.push({ path, body });
+      if (path === '/api/v1/images/generations') {
+        return Response.json({ created: 0, data: images.slice(0, body.n) });
+      }
+      return Response.json({
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: reply }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 },
+      });
+    },
+  });
+});
+
+afterAll(async () => {
+  server.stop(true);
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  requests = [];
+  reply = '{"title": "A red square", "description": "A plain red square on white."}';
+  images = [{ url: 'https://cdn.example.com/1.png' }, { url: 'https://cdn.example.com/2.png' }];
+});
+
+describe('parseImageDescription', () => {
+  it('parses a JSON object, also inside a code fence', () => {
+    expect(parseImageDescription('```json\n{"title":"Cat","description":"A cat."}\n```')).toEqual({
+      title: 'Cat',
+      description: 'A cat.',
+    });
+  });
+
+  it('parses labelled title and description lines', () => {
+    expect(parseImageDescription('**Title:** Sunset\n**Description:** Orange sky over the sea.')).toEqual({
+      title: 'Sunset',
+      description: 'Orange sky over the sea.',
+    });
+  });
+
+  it('falls back to the first line or sentence for plain text', () => {
+    expect(parseImageDescription('Mountain lake\nA calm lake below snowy peaks.')).toEqual({
+      title: 'Mountain lake',
+      description: 'A calm lake below snowy peaks.',
+    });
+    expect(parseImageDescription('A dog runs on the beach. The tide is out.').title).toBe(
+      'A dog runs on the beach.'
+    );
+  });
+});
+
+describe('IMAGE_DESCRIPTION handler', () => {
+  it('sends an http(s) image URL as multimodal content to the vision model', async () => {
+    const runtime = createRuntime({ AIMO_VISION_MODEL: 'openai/gpt-4o' });
+
+    const result = await handleImageDescription(runtime, 'https://example.com/square.png');
+
+    expect(result).toEqual({ title: 'A red square', description: 'A plain red square on white.' });
+    expect(requests[0].path).toBe('/api/v1/chat/completions');
+    expect(requests[0].body.model).toBe('openai/gpt-4o');
+    const content = requests[0].body.messages[0].content;
+    expect(content[1]).toEqual({
+      type: 'image_url',
+      image_url: { url: 'https://example.com/square.png' },
+    });
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('honors a custom prompt and emits a usage event', async () => {
+    const runtime = createRuntime();
+
+    await handleImageDescription(runtime, {
+      imageUrl: 'data:image/png;base64,iVBORw0KGgo=',
+      prompt: 'What color is this?',
+    });
+
+    const content = requests[0].body.messages[0].content;
+    expect(content[0]).toEqual({ type: 'text', text: 'What color is this?' });
+    expect(content[1].image_url.url).toBe('data:image/png;base64,iVBORw0KGgo=');
+    expect(runtime.emitEvent).toHaveBeenCalledWith(
+      EventType.MODEL_USED,
+      expect.objectContaining({
+        type: ModelType.IMAGE_DESCRIPTION,
+        tokens: { prompt: 120, completion: 30, total: 150 },
+      })
+    );
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('reads local image files and sends them inline', async () => {
+    const runtime = createRuntime();
+    const path = join(tempDir, 'pixel.jpg');
+    await writeFile(path, Buffer.from([0xff, 0xd8, 0xff]));
+
+    await handleImageDescription(runtime, { imageUrl: path });
+
+    const content = requests[0].body.messages[0].content;
+    expect(content[1].image_url.url).toBe('data:image/jpeg;base64,/9j/');
+    disposeAimoRouterProvider(runtime);
+  });
+});
+
+// 1x1 transparent PNG
+const PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+describe('IMAGE handler', () => {
+  it('requests images with the configured model, count and size', async () => {
+    const runtime = createRuntime({ AIMO_IMAGE_MODEL: 'openai/gpt-image-1' });
+
+    const result = await handleImageGeneration(runtime, {
+      prompt: 'A lighthouse',
+      count: 2,
+      size: '512x512',
+    });
+
+    expect(result).toEqual([
+      { url: 'https://cdn.example.com/1.png' },
+      { url: 'https://cdn.example.com/2.png' },
+    ]);
+    expect(requests[0].path).toBe('/api/v1/images/generations');
+    expect(requests[0].body).toEqual({
+      model: 'openai/gpt-image-1',
+      prompt: 'A lighthouse',
+      n: 2,
+      size: '512x512',
+    });
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('returns base64 images as data URIs without an output directory', async () => {
+    const runtime = createRuntime();
+    images = [{ b64_json: PNG_BASE64 }];
+
+    const [image] = await handleImageGeneration(runtime, { prompt: 'A dot' });
+
+    expect(image.url).toBe(`data:image/png;base64,${PNG_BASE64}`);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('writes base64 images to the output directory and returns file URLs', async () => {
+    const outputDir = join(tempDir, 'generated');
+    const runtime = createRuntime({ AIMO_IMAGE_OUTPUT_DIR: outputDir });
+    images = [{ b64_json: PNG_BASE64 }];
+
+    const [image] = await handleImageGeneration(runtime, { prompt: 'A dot' });
+
+    expect(image.url.startsWith('file://')).toBe(true);
+    const path = fileURLToPath(image.url);
+    expect(path.startsWith(outputDir)).toBe(true);
+    expect(path.endsWith('.png')).toBe(true);
+    expect((await readFile(path)).toString('base64')).toBe(PNG_BASE64);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('rejects invalid sizes and counts before sending a request', async () => {
+    const runtime = createRuntime();
+
+    await expect(handleImageGeneration(runtime, { prompt: 'A dot', size: 'large' })).rejects.toThrow(
+      'Invalid image size'
+    );
+    await expect(handleImageGeneration(runtime, { prompt: 'A dot', count: 0 })).rejects.toThrow(
+      'Invalid image count'
+    );
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { createCipheriv, pbkdf2Sync, randomBytes, scryptSync } from 'node:crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { IAgentRuntime } from '@elizaos/core';
+import { keccak256 } from 'viem';
+import bs58 from 'bs58';
+import { parseEvmPrivateKey, parseSvmPrivateKey, resolvePrivateKey } from '../utils/keys';
+import { createSignerFromConfig } from '../utils/signer';
+import { validateWalletConfiguration } from '../utils/config';
+import { createMockRuntime } from './test-utils';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const TEST_EVM_ADDRESS = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+// RFC 8032 test 1: Ed25519 seed and the public key it derives
+const TEST_SVM_SEED = '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60';
+const TEST_SVM_PUBLIC_KEY = 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a';
+
+const SVM_KEYPAIR = Buffer.from(TEST_SVM_SEED + TEST_SVM_PUBLIC_KEY, 'hex');
+const SVM_ADDRESS = bs58.encode(Buffer.from(TEST_SVM_PUBLIC_KEY, 'hex'));
+
+/**
+ * Encrypt a key the way geth and MetaMask write keystore v3 files, with a
+ * cheap KDF cost to keep the tests fast
+ */
+function createKeystore(privateKey: string, password: string, kdf: 'scrypt' | 'pbkdf2' = 'scrypt') {
+  const salt = randomBytes(32);
+  const iv = randomBytes(16);
+  const kdfparams =
+    kdf === 'scrypt'
+      ? { dklen: 32, n: 1024, r: 8, p: 1, salt: salt.toString('hex') }
+      : { dklen: 32, c: 1000, prf: 'hmac-sha256', salt: salt.toString('hex') };
+  const derivedKey =
+    kdf === 'scrypt'
+      ? scryptSync(password, salt, 32, { N: 1024, r: 8, p: 1 })
+      : pbkdf2Sync(password, salt, 1000, 32, 'sha256');
+  const cipher = createCipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(Buffer.from(privateKey.slice(2), 'hex')), cipher.final()]);
+  const mac = keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])).slice(2);
+  return JSON.stringify({
+    version: 3,
+    id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+    address: TEST_EVM_ADDRESS.slice(2).toLowerCase(),
+    crypto: {
+      cipher: 'aes-128-ctr',
+      cipherparams: { iv: iv.toString('hex') },
+      ciphertext: ciphertext.toString('hex'),
+      kdf,
+      kdfparams,
+      mac,
+    },
+  });
+}
+
+let dir: string;
+
+function writeKeyFile(name: string, content: string): string {
+  const path = join(dir, name);
+  writeFileSync(path, content);
+  return path;
+}
+
+function createRuntime(settings: Record<string, string>): IAgentRuntime {
+  return createMockRuntime({
+    getSetting: ((key: string) => settings[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+}
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), 'aimo-keys-'));
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('SVM key formats', () => {
+  it('accepts base58 keypairs, JSON keypair arrays and 32-byte seeds', async () => {
+    const expected = bs58.encode(SVM_KEYPAIR);
+    const seed = Buffer.from(TEST_SVM_SEED, 'hex');
+
+    expect(bs58.encode(parseSvmPrivateKey(expected))).toBe(expected);
+    expect(bs58.encode(parseSvmPrivateKey(JSON.stringify([...SVM_KEYPAIR])))).toBe(expected);
+    expect(bs58.encode(parseSvmPrivateKey(bs58.encode(seed)))).toBe(expected);
+    expect(bs58.encode(parseSvmPrivateKey(JSON.stringify([...seed])))).toBe(expected);
+
+    const signer = await createSignerFromConfig({
+      walletType: 'svm',
+      privateKeyFile: writeKeyFile('id.json', `${JSON.stringify([...SVM_KEYPAIR])}\n`),
+    });
+    expect(signer.address).toBe(SVM_ADDRESS);
+  });
+
+  it('explains why a key is rejected', () => {
+    expect(() => parseSvmPrivateKey('[1, 2, 3]')).toThrow('got 3');
+    expect(() => parseSvmPrivateKey('[1, 2, 300]')).toThrow('between 0 and 255');
+    expect(() => parseSvmPrivateKey('[1, 2,')).toThrow('not valid JSON');
+    expect(() => parseSvmPrivateKey('0OIl')).toThrow('not valid base58');
+    expect(() => parseSvmPrivateKey(bs58.encode(Buffer.alloc(40, 1)))).toThrow('got 40');
+  });
+});
+
+describe('EVM key formats', () => {
+  it('accepts hex with or without the 0x prefix', async () => {
+    expect(await parseEvmPrivateKey(TEST_EVM_KEY)).toBe(TEST_EVM_KEY);
+    expect(await parseEvmPrivateKey(TEST_EVM_KEY.slice(2))).toBe(TEST_EVM_KEY);
+    await expect(parseEvmPrivateKey('0x1234')).rejects.toThrow('64 hex characters');
+  });
+
+  it('decrypts scrypt and pbkdf2 keystores', async () => {
+    for (const kdf of ['scrypt', 'pbkdf2'] as const) {
+      const privateKeyFile = writeKeyFile(`keystore-${kdf}.json`, createKeystore(TEST_EVM_KEY, 'hunter2', kdf));
+
+      const signer = await createSignerFromConfig({
+        walletType: 'evm',
+        privateKeyFile,
+        keystorePassword: 'hunter2',
+      });
+
+      expect(signer.address).toBe(TEST_EVM_ADDRESS);
+    }
+  });
+
+  it('rejects keystores without the right password', async () => {
+    const privateKey = createKeystore(TEST_EVM_KEY, 'hunter2');
+
+    await expect(resolvePrivateKey({ walletType: 'evm', privateKey })).rejects.toThrow(
+      'requires AIMO_KEYSTORE_PASSWORD'
+    );
+    await expect(
+      createSignerFromConfig({ walletType: 'evm', privateKey, keystorePassword: 'wrong' })
+    ).rejects.toThrow('Invalid private key for evm wallet: Could not decrypt EVM keystore');
+    await expect(
+      parseEvmPrivateKey(JSON.stringify({ version: 3, crypto: { cipher: 'aes-128-cbc' } }), 'hunter2')
+    ).rejects.toThrow('Unsupported EVM keystore cipher');
+  });
+});
+
+describe('Key configuration', () => {
+  it('validates keys read from AIMO_PRIVATE_KEY_FILE', async () => {
+    const keystore = writeKeyFile('keystore.json', createKeystore(TEST_EVM_KEY, 'hunter2'));
+
+    expect(
+      await validateWalletConfiguration(
+        createRuntime({ AIMO_WALLET_TYPE: 'evm', AIMO_PRIVATE_KEY_FILE: keystore, AIMO_KEYSTORE_PASSWORD: 'hunter2' })
+      )
+    ).toBe(true);
+    expect(
+      await validateWalletConfiguration(createRuntime({ AIMO_WALLET_TYPE: 'evm', AIMO_PRIVATE_KEY_FILE: keystore }))
+    ).toBe(false);
+    expect(
+      await validateWalletConfiguration(
+        createRuntime({ AIMO_WALLET_TYPE: 'svm', AIMO_PRIVATE_KEY_FILE: join(dir, 'missing.json') })
+      )
+    ).toBe(false);
+  });
+
+  it('rejects setting both a key and a key file', async () => {
+    await expect(
+      createSignerFromConfig({
+        walletType: 'evm',
+        privateKey: TEST_EVM_KEY,
+        privateKeyFile: writeKeyFile('key.txt', TEST_EVM_KEY),
+      })
+    ).rejects.toThrow('Set only one of AIMO_PRIVATE_KEY, AIMO_PRIVATE_KEY_FILE, AIMO_MNEMONIC, AIMO_REMOTE_SIGNER_URL or AIMO_PROXY_URL');
+  });
+});
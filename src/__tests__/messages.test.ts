@@ -0,0 +1,160 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach } from 'bun:test';
+import type { IAgentRuntime } from '@elizaos/core';
+import { handleObjectSmall } from '../models/object';
+import { handleTextLarge } from '../models/text';
+import { disposeAimoRouterProvider } from '../providers';
+import { buildPromptInput, hasImageInput, promptInputToText } from '../utils/messages';
+import { createMockRuntime } from './test-utils';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+// Local stand-in for the AiMo Network chat completions route
+let server: ReturnType<typeof Bun.serve>;
+let requests: any[] = [];
+let reply: string;
+
+function createRuntime(settings: Record<string, string> = {}): IAgentRuntime {
+  const values: Record<string, string> = {
+    AIMO_WALLET_TYPE: 'evm',
+    AIMO_PRIVATE_KEY: TEST_EVM_KEY,
+    AIMO_BASE_URL: `http://localhost:${server.port}`,
+    ...settings,
+  };
+  const runtime = createMockRuntime({
+    getSetting: ((key: string) => values[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+  runtime.character.system = 'You are a test agent.';
+  return runtime;
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      if (request.method === 'GET') {
+        return Response.json({ object: 'list', data: [] });
+      }
+      const body = await request.json();
+      requests.push(body);
+      return Response.json({
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: reply }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 },
+      });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  requests = [];
+  reply = 'ok';
+});
+
+describe('buildPromptInput', () => {
+  it('uses the flat prompt when no messages are given', () => {
+    expect(buildPromptInput('Hello')).toEqual({ prompt: 'Hello' });
+  });
+
+  it('appends a non-empty prompt as the final user turn', () => {
+    const input = buildPromptInput('And now?', [{ role: 'user', content: 'Hi' }]);
+
+    expect(input.messages).toEqual([
+      { role: 'user', content: 'Hi' },
+      { role: 'user', content: 'And now?' },
+    ]);
+    expect(promptInputToText(input)).toBe('Hi\nAnd now?');
+  });
+
+  it('rejects malformed messages', () => {
+    expect(() => buildPromptInput('', [{ role: 'narrator', content: 'x' }])).toThrow(
+      'Invalid message at index 0'
+    );
+    expect(() => buildPromptInput('', [{ role: 'user' }])).toThrow('content must be');
+    expect(() => buildPromptInput('', [])).toThrow('at least one message');
+    expect(() => buildPromptInput('', 'hi')).toThrow('expected an array');
+  });
+
+  it('detects image parts, tolerating file parts without a media type', () => {
+    const image = buildPromptInput('', [
+      { role: 'user', content: [{ type: 'file', data: 'aGk=', mediaType: 'image/png' }] },
+    ]);
+    const untyped = buildPromptInput('', [{ role: 'user', content: [{ type: 'file', data: 'aGk=' }] }]);
+
+    expect(hasImageInput(image)).toBe(true);
+    expect(hasImageInput(untyped)).toBe(false);
+  });
+});
+
+describe('Multi-turn message input', () => {
+  it('sends conversation history with role boundaries to the text model', async () => {
+    const runtime = createRuntime();
+
+    await handleTextLarge(runtime, {
+      prompt: '',
+      messages: [
+        { role: 'user', content: 'My name is Ada.' },
+        { role: 'assistant', content: 'Nice to meet you, Ada.' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is in this picture?' },
+            { type: 'image', image: new URL('https://example.com/cat.png') },
+          ],
+        },
+      ],
+    });
+
+    expect(requests[0].messages).toEqual([
+      { role: 'system', content: 'You are a test agent.' },
+      { role: 'user', content: 'My name is Ada.' },
+      { role: 'assistant', content: 'Nice to meet you, Ada.' },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is in this picture?' },
+          { type: 'image_url', image_url: { url: 'https://example.com/cat.png' } },
+        ],
+      },
+    ]);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('lets a system message replace the character system prompt', async () => {
+    const runtime = createRuntime();
+
+    await handleTextLarge(runtime, {
+      prompt: 'Hi',
+      messages: [{ role: 'system', content: 'Answer in French.' }],
+    });
+
+    expect(requests[0].messages).toEqual([
+      { role: 'system', content: 'Answer in French.' },
+      { role: 'user', content: 'Hi' },
+    ]);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('passes messages through to object generation', async () => {
+    const runtime = createRuntime();
+    reply = '{"name":"Ada"}';
+
+    const result = await handleObjectSmall(runtime, {
+      prompt: 'Return my name as JSON',
+      messages: [{ role: 'user', content: 'My name is Ada.' }],
+    });
+
+    expect(result).toEqual({ name: 'Ada' });
+    expect(requests[0].messages.map((message: any) => message.content)).toEqual([
+      'My name is Ada.',
+      'Return my name as JSON',
+    ]);
+    disposeAimoRouterProvider(runtime);
+  });
+});
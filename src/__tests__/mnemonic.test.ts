@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'bun:test';
+import type { IAgentRuntime } from '@elizaos/core';
+import { checkMnemonic, deriveSlip10Ed25519, getDerivationPath } from '../utils/mnemonic';
+import { createSignerFromConfig } from '../utils/signer';
+import { validateWalletConfiguration } from '../utils/config';
+import { createMockRuntime } from './test-utils';
+
+// Default mnemonic of Hardhat and Anvil, with well-known derived accounts
+const TEST_MNEMONIC = 'test test test test test test test test test test test junk';
+const EVM_ACCOUNTS = ['0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266', '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'];
+
+function createRuntime(settings: Record<string, string>): IAgentRuntime {
+  return createMockRuntime({
+    getSetting: ((key: string) => settings[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+}
+
+describe('checkMnemonic', () => {
+  it('accepts valid mnemonics regardless of case and spacing', () => {
+    expect(() => checkMnemonic(TEST_MNEMONIC)).not.toThrow();
+    expect(() => checkMnemonic(`  ${'abandon '.repeat(11)}  ABOUT \n`)).not.toThrow();
+  });
+
+  it('rejects bad checksums, unknown words and wrong lengths', () => {
+    expect(() => checkMnemonic('abandon '.repeat(12))).toThrow('checksum is invalid');
+    expect(() => checkMnemonic(TEST_MNEMONIC.replace('junk', 'test'))).toThrow('checksum is invalid');
+    expect(() => checkMnemonic(TEST_MNEMONIC.replace('junk', 'junky'))).toThrow('word 12 is not in');
+    expect(() => checkMnemonic('test test test')).toThrow('got 3');
+  });
+});
+
+describe('getDerivationPath', () => {
+  it('uses the standard path of each wallet type', () => {
+    expect(getDerivationPath('svm', undefined, 3)).toBe("m/44'/501'/3'/0'");
+    expect(getDerivationPath('evm', undefined, 3)).toBe("m/44'/60'/0'/0/3");
+    expect(getDerivationPath('evm', "m/44'/60'/{index}'/0/0", 2)).toBe("m/44'/60'/2'/0/0");
+  });
+
+  it('rejects paths that cannot be derived', () => {
+    expect(() => getDerivationPath('svm', "m/44'/501'/0'/0")).toThrow('fully hardened');
+    expect(() => getDerivationPath('evm', 'm/44/x')).toThrow('Invalid derivation path');
+    expect(() => getDerivationPath('evm', "m/44'/60'/0'/0/0", 1)).toThrow('no {index} placeholder');
+    expect(() => getDerivationPath('evm', undefined, -1)).toThrow('Invalid account index');
+    expect(() => getDerivationPath('evm', undefined, Number.NaN)).toThrow('Invalid account index');
+  });
+});
+
+describe('SLIP-10 ed25519', () => {
+  it('matches the SLIP-10 test vectors', () => {
+    const seed = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+
+    expect(deriveSlip10Ed25519(seed, 'm').toString('hex')).toBe(
+      '2b4be7f19ee27bbf30c667b642d5f4aa69fd169872f8fc3059c08ebae2eb19e7'
+    );
+    expect(deriveSlip10Ed25519(seed, "m/0'").toString('hex')).toBe(
+      '68e0fe46dfb67e368c75379acec591dad19df3cde26e63b93a8e704f1dade7a3'
+    );
+    expect(deriveSlip10Ed25519(seed, "m/0'/1'/2'/2'/1000000000'").toString('hex')).toBe(
+      '8f94d394a8e8fd6b1bc2f3f49f5c47e385281d5c17e65324b0f62483e37e8793'
+    );
+  });
+});
+
+describe('Mnemonic wallets', () => {
+  it('derives one EVM wallet per account index', async () => {
+    for (const [accountIndex, address] of EVM_ACCOUNTS.entries()) {
+      const signer = await createSignerFromConfig({ walletType: 'evm', mnemonic: TEST_MNEMONIC, accountIndex });
+      expect(signer.address).toBe(address);
+    }
+  });
+
+  it('derives distinct SVM wallets per account index', async () => {
+    const first = await createSignerFromConfig({ walletType: 'svm', mnemonic: TEST_MNEMONIC });
+    const again = await createSignerFromConfig({ walletType: 'svm', mnemonic: TEST_MNEMONIC, accountIndex: 0 });
+    const second = await createSignerFromConfig({ walletType: 'svm', mnemonic: TEST_MNEMONIC, accountIndex: 1 });
+
+    expect(first.address).toBe(again.address);
+    expect(first.address).not.toBe(second.address);
+  });
+
+  it('validates the mnemonic settings', async () => {
+    expect(
+      await validateWalletConfiguration(
+        createRuntime({ AIMO_WALLET_TYPE: 'evm', AIMO_MNEMONIC: TEST_MNEMONIC, AIMO_ACCOUNT_INDEX: '4' })
+      )
+    ).toBe(true);
+    expect(
+      await validateWalletConfiguration(
+        createRuntime({ AIMO_WALLET_TYPE: 'evm', AIMO_MNEMONIC: TEST_MNEMONIC, AIMO_ACCOUNT_INDEX: 'one' })
+      )
+    ).toBe(false);
+    expect(
+      await validateWalletConfiguration(createRuntime({ AIMO_WALLET_TYPE: 'svm', AIMO_MNEMONIC: 'abandon '.repeat(12) }))
+    ).toBe(false);
+    await expect(
+      createSignerFromConfig({ walletType: 'evm', mnemonic: TEST_MNEMONIC.replace('junk', 'test') })
+    ).rejects.toThrow('Invalid mnemonic for evm wallet: Mnemonic checksum is invalid');
+  });
+});
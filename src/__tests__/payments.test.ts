@@ -0,0 +1,210 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { EventType, type IAgentRuntime } from '@elizaos/core';
+import { handleImageGeneration } from '../models/image';
+import { handleTextSmall } from '../models/text';
+import { disposeAimoRouterProvider } from '../providers';
+import { getSpendLedger } from '../utils/budget';
+import { AimoRequestError } from '../utils/errors';
+import { readPaymentDetails } from '../utils/payments';
+import { createMockRuntime } from './test-utils';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const TEST_EVM_ADDRESS = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const NODE_ADDRESS = '0x1111111111111111111111111111111111111111';
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64');
+
+const requirements = {
+  scheme: 'exact',
+  network: 'eip155:1',
+  asset: USDC,
+  amount: '1500',
+  payTo: NODE_ADDRESS,
+  maxTimeoutSeconds: 60,
+  extra: { name: 'USD Coin', version: '2' },
+};
+
+// Local stand-in for an AiMo node that requires an x402 payment per call
+let server: ReturnType<typeof Bun.serve>;
+let paidRequests = 0;
+let failAfterPayment = false;
+
+function createRuntime(settings: Record<string, string> = {}): IAgentRuntime {
+  const values: Record<string, string> = {
+    AIMO_WALLET_TYPE: 'evm',
+    AIMO_PRIVATE_KEY: TEST_EVM_KEY,
+    AIMO_BASE_URL: `http://localhost:${server.port}`,
+    ...settings,
+  };
+  return createMockRuntime({
+    getSetting: ((key: string) => values[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      if (request.method === 'GET') {
+        return Response.json({ object: 'list', data: [] });
+      }
+      const body = await request.json();
+      if (!request.headers.get('PAYMENT-SIGNATURE')) {
+        return Response.json(
+          {},
+          {
+            status: 402,
+            headers: {
+              'PAYMENT-REQUIRED': encode({
+                x402Version: 2,
+                resource: { url: request.url, description: 'chat', mimeType: 'application/json' },
+                accepts: [requirements],
+              }),
+            },
+          }
+        );
+      }
+      paidRequests++;
+      const settlement = {
+        'PAYMENT-RESPONSE': encode({
+          success: true,
+          payer: TEST_EVM_ADDRESS,
+          transaction: TX_HASH,
+          network: 'eip155:1',
+        }),
+      };
+      if (failAfterPayment) {
+        return Response.json({ error: { message: 'upstream unavailable' } }, { status: 503, headers: settlement });
+      }
+      const completion = new URL(request.url).pathname.endsWith('/images/generations')
+        ? // Image responses carry no token usage
+          { created: 0, data: [{ url: 'https://cdn.example.com/1.png' }] }
+        : {
+            id: 'chatcmpl-test',
+            object: 'chat.completion',
+            created: 0,
+            model: body.model,
+            choices: [{ index: 0, message: { role: 'assistant', content: 'paid' }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+          };
+      return Response.json(completion, { headers: settlement });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  paidRequests = 0;
+  failAfterPayment = false;
+});
+
+describe('readPaymentDetails', () => {
+  it('reads the accepted price and the settlement', () => {
+    const details = readPaymentDetails(
+      new Headers({
+        'PAYMENT-SIGNATURE': encode({
+          x402Version: 2,
+          accepted: requirements,
+          payload: { authorization: { from: TEST_EVM_ADDRESS } },
+        }),
+      }),
+      new Headers({
+        'PAYMENT-RESPONSE': encode({ success: true, transaction: TX_HASH, network: 'eip155:1' }),
+      })
+    );
+
+    expect(details).toEqual({
+      price: 0.0015,
+      currency: 'USDC',
+      amount: '1500',
+      asset: USDC,
+      network: 'eip155:1',
+      scheme: 'exact',
+      payer: TEST_EVM_ADDRESS,
+      payTo: NODE_ADDRESS,
+      reference: TX_HASH,
+      settled: true,
+    });
+  });
+
+  it('ignores requests without a payment', () => {
+    expect(readPaymentDetails(new Headers(), new Headers())).toBeUndefined();
+    expect(
+      readPaymentDetails(new Headers({ 'PAYMENT-SIGNATURE': 'not base64 json' }), new Headers())
+    ).toBeUndefined();
+  });
+});
+
+describe('Cost accounting', () => {
+  it('reports the settled payment in the MODEL_USED event and the spend ledger', async () => {
+    const runtime = createRuntime({ AIMO_SMALL_MODEL: 'vendor/paid' });
+
+    const text = await handleTextSmall(runtime, { prompt: 'Hi' });
+
+    expect(text).toBe('paid');
+    expect(paidRequests).toBe(1);
+    expect(runtime.emitEvent).toHaveBeenCalledWith(
+      EventType.MODEL_USED,
+      expect.objectContaining({
+        model: 'vendor/paid',
+        latencyMs: expect.any(Number),
+        cost: { amount: 0.0015, currency: 'USDC' },
+        payments: [
+          expect.objectContaining({
+            price: 0.0015,
+            network: 'eip155:1',
+            payer: TEST_EVM_ADDRESS,
+            payTo: NODE_ADDRESS,
+            reference: TX_HASH,
+            settled: true,
+          }),
+        ],
+      })
+    );
+    expect((await getSpendLedger(runtime)).models['vendor/paid']).toBeCloseTo(0.0015, 9);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('reports paid calls whose response carries no usage', async () => {
+    const runtime = createRuntime({ AIMO_IMAGE_MODEL: 'vendor/painter' });
+
+    await handleImageGeneration(runtime, { prompt: 'A lighthouse' });
+
+    expect(paidRequests).toBe(1);
+    expect(runtime.emitEvent).toHaveBeenCalledWith(
+      EventType.MODEL_USED,
+      expect.objectContaining({
+        model: 'vendor/painter',
+        cost: { amount: 0.0015, currency: 'USDC' },
+        payments: [expect.objectContaining({ price: 0.0015, reference: TX_HASH })],
+        tokens: { prompt: 0, completion: 0, total: 0 },
+      })
+    );
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('charges the budget for calls that fail after paying', async () => {
+    const runtime = createRuntime({
+      AIMO_SMALL_MODEL: 'vendor/paid',
+      AIMO_RETRY_MAX_ATTEMPTS: '2',
+      AIMO_RETRY_BASE_DELAY_MS: '0',
+    });
+    failAfterPayment = true;
+
+    await expect(handleTextSmall(runtime, { prompt: 'Hi' })).rejects.toThrow();
+    await expect(handleImageGeneration(runtime, { prompt: 'A lighthouse' })).rejects.toBeInstanceOf(
+      AimoRequestError
+    );
+
+    expect(paidRequests).toBe(4);
+    const ledger = await getSpendLedger(runtime);
+    expect(ledger.models['vendor/paid']).toBeCloseTo(0.003, 9);
+    expect(ledger.dayUsd).toBeCloseTo(0.006, 9);
+    disposeAimoRouterProvider(runtime);
+  });
+});
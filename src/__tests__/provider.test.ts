@@ -0,0 +1,105 @@
+import { describe, expect, it, afterAll, beforeAll } from 'bun:test';
+import { mkdtemp, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { IAgentRuntime } from '@elizaos/core';
+import {
+  disposeAimoRouterProvider,
+  getAimoRouterProvider,
+  getWalletInfo,
+  refreshAimoRouterProvider,
+} from '../providers';
+import { createMockRuntime } from './test-utils';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const TEST_EVM_ADDRESS = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const OTHER_EVM_KEY = '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a';
+const OTHER_EVM_ADDRESS = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+let tempDir: string;
+
+/**
+ * Runtime whose settings can be changed between calls
+ */
+function createRuntime(settings: Record<string, string> = {}) {
+  const values: Record<string, string> = {
+    AIMO_WALLET_TYPE: 'evm',
+    AIMO_PRIVATE_KEY: TEST_EVM_KEY,
+    ...settings,
+  };
+  const runtime = createMockRuntime({
+    getSetting: ((key: string) => values[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+  return { runtime, values };
+}
+
+beforeAll(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'aimo-provider-'));
+});
+
+afterAll(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+describe('Provider cache', () => {
+  it('reuses the provider across calls and concurrent builds', async () => {
+    const { runtime } = createRuntime();
+
+    const [first, concurrent] = await Promise.all([
+      getAimoRouterProvider(runtime),
+      getAimoRouterProvider(runtime),
+    ]);
+
+    expect(concurrent).toBe(first);
+    expect(await getAimoRouterProvider(runtime)).toBe(first);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('rebuilds the provider when a wallet setting changes', async () => {
+    const { runtime, values } = createRuntime();
+    const first = await getAimoRouterProvider(runtime);
+
+    values.AIMO_PRIVATE_KEY = OTHER_EVM_KEY;
+
+    expect(await getAimoRouterProvider(runtime)).not.toBe(first);
+    expect((await getWalletInfo(runtime)).address).toBe(OTHER_EVM_ADDRESS);
+
+    const rebuilt = await getAimoRouterProvider(runtime);
+    values.AIMO_BASE_URL = 'https://node.example.com';
+    expect(await getAimoRouterProvider(runtime)).not.toBe(rebuilt);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('picks up a rotated key file by its modification time', async () => {
+    const keyFile = join(tempDir, 'key');
+    await writeFile(keyFile, TEST_EVM_KEY);
+    const { runtime, values } = createRuntime({ AIMO_PRIVATE_KEY_FILE: keyFile });
+    delete values.AIMO_PRIVATE_KEY;
+
+    expect((await getWalletInfo(runtime)).address).toBe(TEST_EVM_ADDRESS);
+    const first = await getAimoRouterProvider(runtime);
+    expect(await getAimoRouterProvider(runtime)).toBe(first);
+
+    await writeFile(keyFile, OTHER_EVM_KEY);
+    const later = new Date(Date.now() + 60_000);
+    await utimes(keyFile, later, later);
+
+    expect(await getAimoRouterProvider(runtime)).not.toBe(first);
+    expect((await getWalletInfo(runtime)).address).toBe(OTHER_EVM_ADDRESS);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('builds a fresh provider after a refresh or dispose', async () => {
+    const { runtime } = createRuntime();
+    const first = await getAimoRouterProvider(runtime);
+
+    const refreshed = await refreshAimoRouterProvider(runtime);
+    expect(refreshed).not.toBe(first);
+    expect(await getAimoRouterProvider(runtime)).toBe(refreshed);
+
+    expect(disposeAimoRouterProvider(runtime)).toBe(true);
+    expect(disposeAimoRouterProvider(runtime)).toBe(false);
+    expect(await getAimoRouterProvider(runtime)).not.toBe(refreshed);
+    disposeAimoRouterProvider(runtime);
+  });
+});
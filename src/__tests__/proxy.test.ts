@@ -0,0 +1,275 @@
+import { describe, expect, it, beforeAll, afterAll, afterEach } from 'bun:test';
+import type { IAgentRuntime } from '@elizaos/core';
+import { handleTextSmall } from '../models/text';
+import { disposeAimoRouterProvider, getWalletInfo } from '../providers';
+import { validateWalletConfiguration } from '../utils/config';
+import { readPaymentDetails } from '../utils/payments';
+import { startProxyServer, type ProxyServer } from '../utils/proxy-server';
+import { createEvmSigner } from '../utils/signer';
+import { createMockRuntime } from './test-utils';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const TEST_EVM_ADDRESS = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const NODE_ADDRESS = '0x1111111111111111111111111111111111111111';
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64');
+
+const requirements = {
+  scheme: 'exact',
+  network: 'eip155:1',
+  asset: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+  amount: '1500',
+  payTo: NODE_ADDRESS,
+  maxTimeoutSeconds: 60,
+  extra: { name: 'USD Coin', version: '2' },
+};
+
+// Local stand-in for an AiMo node that requires an x402 payment per call
+let node: ReturnType<typeof Bun.serve>;
+let proxy: ProxyServer;
+let payers: string[] = [];
+// Chunks of the large download that the node has produced so far
+let largeChunksSent = 0;
+const LARGE_CHUNKS = 512;
+
+function chunk(delta: Record<string, unknown>, finishReason: string | null = null): string {
+  return `data: ${JSON.stringify({
+    id: 'chatcmpl-test',
+    object: 'chat.completion.chunk',
+    created: 0,
+    model: 'vendor/paid',
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  })}\n\n`;
+}
+
+function createRuntime(settings: Record<string, string> = {}): IAgentRuntime {
+  const values: Record<string, string> = {
+    AIMO_WALLET_TYPE: 'evm',
+    AIMO_PROXY_URL: proxy.url,
+    AIMO_PROXY_TOKEN: 'browser-token',
+    AIMO_SMALL_MODEL: 'vendor/paid',
+    AIMO_RETRY_MAX_ATTEMPTS: '1',
+    ...settings,
+  };
+  return createMockRuntime({
+    getSetting: ((key: string) => values[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+}
+
+beforeAll(async () => {
+  node = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      if (new URL(request.url).pathname === '/api/v1/large') {
+        const chunk = new Uint8Array(64 * 1024);
+        return new Response(
+          new ReadableStream({
+            pull(controller) {
+              if (largeChunksSent++ >= LARGE_CHUNKS) {
+                controller.close();
+              } else {
+                controller.enqueue(chunk);
+              }
+            },
+          })
+        );
+      }
+      if (request.method === 'GET') {
+        return Response.json({ object: 'list', data: [] });
+      }
+      const body = await request.json();
+      if (!request.headers.get('PAYMENT-SIGNATURE')) {
+        return Response.json(
+          {},
+          {
+            status: 402,
+            headers: {
+              'PAYMENT-REQUIRED': encode({
+                x402Version: 2,
+                resource: { url: request.url, description: 'chat', mimeType: 'application/json' },
+                accepts: [requirements],
+              }),
+            },
+          }
+        );
+      }
+      payers.push(readPaymentDetails(request.headers, new Headers())?.payer ?? '');
+      if (body.stream) {
+        return new Response(
+          `${chunk({ role: 'assistant', content: 'streamed ' })}${chunk({ content: 'through proxy' })}${chunk({}, 'stop')}data: [DONE]\n\n`,
+          { headers: { 'Content-Type': 'text/event-stream' } }
+        );
+      }
+      return Response.json({
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: 'paid' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      });
+    },
+  });
+});
+
+afterAll(() => {
+  node.stop(true);
+});
+
+afterEach(async () => {
+  payers = [];
+  await proxy?.close();
+  delete (globalThis as any).document;
+});
+
+async function startProxy(maxUsdPerDay?: number, signDelayMs = 0, allowedOrigins?: string[]): Promise<void> {
+  const signer = createEvmSigner(TEST_EVM_KEY);
+  proxy = await startProxyServer({
+    signer: {
+      scheme: signer.scheme,
+      address: signer.address,
+      network: signer.network,
+      signPayload: (payload) => signer.signPayload(payload),
+      createPaymentPayload: async (x402Version, requirements) => {
+        await Bun.sleep(signDelayMs);
+        return signer.createPaymentPayload(x402Version, requirements);
+      },
+    },
+    walletType: 'evm',
+    baseURL: `http://localhost:${node.port}`,
+    clients: [{ name: 'browser', token: 'browser-token', maxUsdPerDay }],
+    allowedOrigins,
+  });
+}
+
+describe('Signing proxy', () => {
+  it('pays from the proxy wallet for a client running in a browser', async () => {
+    await startProxy();
+    (globalThis as any).document = {};
+    const runtime = createRuntime();
+
+    expect(await handleTextSmall(runtime, { prompt: 'Hi' })).toBe('paid');
+    expect(payers).toEqual([TEST_EVM_ADDRESS]);
+    expect(await getWalletInfo(runtime)).toMatchObject({ address: TEST_EVM_ADDRESS, chainId: 'eip155:1', baseURL: proxy.url });
+    expect(proxy.getSpend('browser')).toBeCloseTo(0.0015);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it("pays with the proxy's wallet type when AIMO_WALLET_TYPE is unset", async () => {
+    await startProxy();
+    const runtime = createRuntime({ AIMO_WALLET_TYPE: '', AIMO_CHAIN_ID: 'eip155:1' });
+
+    expect(await validateWalletConfiguration(runtime)).toBe(true);
+    expect(await handleTextSmall(runtime, { prompt: 'Hi' })).toBe('paid');
+    expect(await getWalletInfo(runtime)).toMatchObject({ walletType: 'evm', address: TEST_EVM_ADDRESS });
+    disposeAimoRouterProvider(runtime);
+
+    const mismatched = createRuntime({ AIMO_WALLET_TYPE: 'svm' });
+    await expect(handleTextSmall(mismatched, { prompt: 'Hi' })).rejects.toThrow('AIMO_WALLET_TYPE is svm');
+    disposeAimoRouterProvider(mismatched);
+  });
+
+  it('still refuses a key in a browser', async () => {
+    await startProxy();
+    (globalThis as any).document = {};
+    const runtime = createRuntime({ AIMO_PROXY_URL: '', AIMO_PRIVATE_KEY: TEST_EVM_KEY });
+
+    await expect(handleTextSmall(runtime, { prompt: 'Hi' })).rejects.toThrow('AIMO_PROXY_URL');
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('passes streams through', async () => {
+    await startProxy();
+    const runtime = createRuntime();
+
+    const result: any = await handleTextSmall(runtime, { prompt: 'Hi', stream: true });
+    let streamed = '';
+    for await (const text of result.textStream) {
+      streamed += text;
+    }
+
+    expect(streamed).toBe('streamed through proxy');
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('rejects clients with an unknown token', async () => {
+    await startProxy();
+    const runtime = createRuntime({ AIMO_PROXY_TOKEN: 'stolen-token' });
+
+    await expect(handleTextSmall(runtime, { prompt: 'Hi' })).rejects.toThrow('Unknown proxy token');
+    expect(payers).toEqual([]);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('stops paying once the client spend cap is reached', async () => {
+    await startProxy(0.002);
+    const runtime = createRuntime();
+
+    expect(await handleTextSmall(runtime, { prompt: 'Hi' })).toBe('paid');
+    await expect(handleTextSmall(runtime, { prompt: 'Hi' })).rejects.toThrow('Spend cap of 0.002 USD per day reached');
+    expect(payers).toEqual([TEST_EVM_ADDRESS]);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('counts concurrent payments of a client against its cap', async () => {
+    // Slow signing keeps all three payments in flight at once
+    await startProxy(0.002, 50);
+    const runtime = createRuntime();
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 3 }, () => handleTextSmall(runtime, { prompt: 'Hi' }))
+    );
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    expect(payers).toEqual([TEST_EVM_ADDRESS]);
+    expect(proxy.getSpend('browser')).toBeCloseTo(0.0015);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('answers CORS preflights of allowed origins before authenticating', async () => {
+    await startProxy(undefined, 0, ['https://app.example.com']);
+    const preflight = (origin: string) =>
+      fetch(`${proxy.url}/api/v1/chat/completions`, {
+        method: 'OPTIONS',
+        headers: {
+          Origin: origin,
+          'Access-Control-Request-Method': 'POST',
+          'Access-Control-Request-Headers': 'authorization, content-type',
+        },
+      });
+
+    const allowed = await preflight('https://app.example.com');
+    expect(allowed.status).toBe(204);
+    expect(allowed.headers.get('access-control-allow-origin')).toBe('https://app.example.com');
+    expect(allowed.headers.get('access-control-allow-methods')).toContain('POST');
+    expect(allowed.headers.get('access-control-allow-headers')).toBe('authorization, content-type');
+
+    const refused = await preflight('https://evil.example.com');
+    expect(refused.status).toBe(403);
+    expect(refused.headers.get('access-control-allow-origin')).toBeNull();
+
+    const response = await fetch(`${proxy.url}/api/v1/chat/completions`, {
+      method: 'POST',
+      headers: { Origin: 'https://app.example.com', Authorization: 'Bearer browser-token', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: 'vendor/paid', messages: [{ role: 'user', content: 'Hi' }] }),
+    });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('access-control-allow-origin')).toBe('https://app.example.com');
+    expect(response.headers.get('access-control-expose-headers')).toContain('payment-response');
+  });
+
+  it('reads from upstream only as fast as the client takes the data', async () => {
+    await startProxy();
+    largeChunksSent = 0;
+
+    const response = await fetch(`${proxy.url}/api/v1/large`, {
+      headers: { Authorization: 'Bearer browser-token' },
+    });
+    // The client does not read the body for a while
+    await Bun.sleep(300);
+
+    expect(response.status).toBe(200);
+    expect(largeChunksSent).toBeLessThan(LARGE_CHUNKS);
+    await response.body?.cancel();
+  });
+});
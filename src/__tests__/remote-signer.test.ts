@@ -0,0 +1,179 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach } from 'bun:test';
+import type { IAgentRuntime } from '@elizaos/core';
+import { handleTextSmall } from '../models/text';
+import { disposeAimoRouterProvider } from '../providers';
+import { RemoteSignerError } from '../utils/errors';
+import {
+  createRemoteSigner,
+  setRemoteSignerApprovalHook,
+  signRemoteSignerRequest,
+  verifyRemoteSignerRequest,
+  type RemoteSignRequest,
+} from '../utils/remote-signer';
+import { createEvmSigner } from '../utils/signer';
+import { startSignerServer, type SignerServer } from '../utils/signer-server';
+import { readPaymentDetails } from '../utils/payments';
+import { createMockRuntime } from './test-utils';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const TEST_EVM_ADDRESS = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const NODE_ADDRESS = '0x1111111111111111111111111111111111111111';
+const SECRET = 'test-signer-secret';
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64');
+
+const requirements = {
+  scheme: 'exact',
+  network: 'eip155:1',
+  asset: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+  amount: '1500',
+  payTo: NODE_ADDRESS,
+  maxTimeoutSeconds: 60,
+  extra: { name: 'USD Coin', version: '2' },
+};
+
+// Local stand-in for an AiMo node that requires an x402 payment per call
+let node: ReturnType<typeof Bun.serve>;
+let signer: SignerServer;
+let signRequests: RemoteSignRequest[] = [];
+let approveOnServer = true;
+let lastPayment: ReturnType<typeof readPaymentDetails>;
+
+function createRuntime(settings: Record<string, string> = {}): IAgentRuntime {
+  const values: Record<string, string> = {
+    AIMO_WALLET_TYPE: 'evm',
+    AIMO_REMOTE_SIGNER_URL: signer.url,
+    AIMO_REMOTE_SIGNER_SECRET: SECRET,
+    AIMO_BASE_URL: `http://localhost:${node.port}`,
+    AIMO_SMALL_MODEL: 'vendor/paid',
+    AIMO_RETRY_MAX_ATTEMPTS: '1',
+    // Only the model call is signed, not a catalog request for prompt-length routing
+    AIMO_CONTEXT_POLICY: 'off',
+    ...settings,
+  };
+  return createMockRuntime({
+    getSetting: ((key: string) => values[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+}
+
+beforeAll(async () => {
+  node = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      if (request.method === 'GET') {
+        return Response.json({ object: 'list', data: [] });
+      }
+      const body = await request.json();
+      if (!request.headers.get('PAYMENT-SIGNATURE')) {
+        return Response.json(
+          {},
+          {
+            status: 402,
+            headers: {
+              'PAYMENT-REQUIRED': encode({
+                x402Version: 2,
+                resource: { url: request.url, description: 'chat', mimeType: 'application/json' },
+                accepts: [requirements],
+              }),
+            },
+          }
+        );
+      }
+      lastPayment = readPaymentDetails(request.headers, new Headers());
+      return Response.json({
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: 'paid' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      });
+    },
+  });
+  signer = await startSignerServer({
+    signer: createEvmSigner(TEST_EVM_KEY),
+    walletType: 'evm',
+    secret: SECRET,
+    approve: (request) => {
+      signRequests.push(request);
+      return approveOnServer;
+    },
+  });
+});
+
+afterAll(async () => {
+  node.stop(true);
+  await signer.close();
+});
+
+beforeEach(() => {
+  signRequests = [];
+  approveOnServer = true;
+  lastPayment = undefined;
+});
+
+describe('Remote signer', () => {
+  it('pays through the signer service without a key in process', async () => {
+    const runtime = createRuntime();
+
+    const text = await handleTextSmall(runtime, { prompt: 'Hi' });
+
+    expect(text).toBe('paid');
+    // The SIWx sign-in of the request, then its x402 payment
+    expect(signRequests.map((request) => request.kind)).toEqual(['siwx', 'payment']);
+    expect(signRequests[1]).toMatchObject({ network: 'eip155:1', requirements: { amount: '1500', payTo: NODE_ADDRESS } });
+    expect(lastPayment).toMatchObject({ payer: TEST_EVM_ADDRESS, price: 0.0015 });
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('lets the signer service reject a request', async () => {
+    approveOnServer = false;
+    const runtime = createRuntime();
+
+    await expect(handleTextSmall(runtime, { prompt: 'Hi' })).rejects.toThrow('rejected by the approval hook');
+    expect(lastPayment).toBeUndefined();
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('checks the runtime approval hook before contacting the service', async () => {
+    const runtime = createRuntime();
+    const seen: RemoteSignRequest[] = [];
+    setRemoteSignerApprovalHook(runtime, (request) => {
+      seen.push(request);
+      return false;
+    });
+
+    await expect(handleTextSmall(runtime, { prompt: 'Hi' })).rejects.toThrow('rejected by the approval hook');
+    expect(seen).toHaveLength(1);
+    expect(signRequests).toHaveLength(0);
+
+    setRemoteSignerApprovalHook(runtime, undefined);
+    expect(await handleTextSmall(runtime, { prompt: 'Hi' })).toBe('paid');
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('rejects unauthenticated clients and mismatched wallet types', async () => {
+    const options = { url: signer.url, secret: SECRET, walletType: 'evm' as const, chainId: 'eip155:1' as const };
+
+    expect((await createRemoteSigner(options)).address).toBe(TEST_EVM_ADDRESS);
+    const error = await createRemoteSigner({ ...options, secret: 'wrong' }).catch((caught) => caught);
+    expect(error).toBeInstanceOf(RemoteSignerError);
+    expect(error.status).toBe(401);
+    await expect(createRemoteSigner({ ...options, walletType: 'svm' })).rejects.toThrow(
+      'signer holds a evm wallet but AIMO_WALLET_TYPE is svm'
+    );
+  });
+});
+
+describe('verifyRemoteSignerRequest', () => {
+  it('rejects tampered bodies and stale timestamps', async () => {
+    const now = Date.now();
+    const timestamp = String(now);
+    const signature = await signRemoteSignerRequest(SECRET, timestamp, '{}');
+
+    expect(await verifyRemoteSignerRequest(SECRET, timestamp, signature, '{}', now)).toBe(true);
+    expect(await verifyRemoteSignerRequest(SECRET, timestamp, signature, '{"a":1}', now)).toBe(false);
+    expect(await verifyRemoteSignerRequest(SECRET, timestamp, signature, '{}', now + 10 * 60 * 1000)).toBe(false);
+    expect(await verifyRemoteSignerRequest(SECRET, undefined, signature, '{}', now)).toBe(false);
+  });
+});
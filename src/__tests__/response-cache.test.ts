@@ -0,0 +1,194 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { chmodSync, mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { EventType, type IAgentRuntime, type UUID } from '@elizaos/core';
+import { handleObjectSmall } from '../models/object';
+import { handleTextSmall } from '../models/text';
+import { disposeAimoRouterProvider } from '../providers';
+import { getResponseCacheStats } from '../utils/response-cache';
+import { createMockRuntime } from './test-utils';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+// Local stand-in for the AiMo Network chat completions route
+let server: ReturnType<typeof Bun.serve>;
+let requests: any[] = [];
+let cacheDir: string;
+
+function createRuntime(settings: Record<string, string> = {}, agentId?: UUID): IAgentRuntime {
+  const values: Record<string, string> = {
+    AIMO_WALLET_TYPE: 'evm',
+    AIMO_PRIVATE_KEY: TEST_EVM_KEY,
+    AIMO_BASE_URL: `http://localhost:${server.port}`,
+    AIMO_SMALL_MODEL: 'vendor/classifier',
+    AIMO_RESPONSE_CACHE: 'memory',
+    ...settings,
+  };
+  return createMockRuntime({
+    ...(agentId && { agentId }),
+    getSetting: ((key: string) => values[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      if (request.method === 'GET') {
+        return Response.json({ object: 'list', data: [] });
+      }
+      const body = await request.json();
+      requests.push(body);
+      const prompt = body.messages.at(-1).content;
+      return Response.json({
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 0,
+        model: body.model,
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: body.response_format ? '{"label":"spam"}' : `answer ${requests.length} to ${prompt}` },
+            finish_reason: 'stop',
+          },
+        ],
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  requests = [];
+  cacheDir = mkdtempSync(join(tmpdir(), 'aimo-cache-test-'));
+});
+
+describe('Response cache', () => {
+  it('serves repeated deterministic text calls from memory', async () => {
+    const runtime = createRuntime();
+
+    const first = await handleTextSmall(runtime, { prompt: 'Classify: buy now', temperature: 0 });
+    const second = await handleTextSmall(runtime, { prompt: 'Classify: buy now', temperature: 0 });
+    await handleTextSmall(runtime, { prompt: 'Classify: hello', temperature: 0 });
+
+    expect(second).toBe(first);
+    expect(requests).toHaveLength(2);
+    expect(getResponseCacheStats(runtime)).toEqual({ hits: 1, misses: 2, writes: 2, evictions: 0 });
+    expect(runtime.emitEvent).toHaveBeenCalledWith(
+      EventType.MODEL_USED,
+      expect.objectContaining({
+        model: 'vendor/classifier',
+        cached: true,
+        cost: { amount: 0, currency: 'USD' },
+        tokens: { prompt: 0, completion: 0, total: 0 },
+      })
+    );
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('does not cache sampled or tool calls', async () => {
+    const runtime = createRuntime();
+
+    await handleTextSmall(runtime, { prompt: 'Write a poem' });
+    await handleTextSmall(runtime, { prompt: 'Write a poem' });
+    await handleTextSmall(runtime, {
+      prompt: 'Weather?',
+      temperature: 0,
+      tools: { get_weather: { parameters: { type: 'object', properties: {} } } },
+    });
+    await handleTextSmall(runtime, {
+      prompt: 'Weather?',
+      temperature: 0,
+      tools: { get_weather: { parameters: { type: 'object', properties: {} } } },
+    });
+
+    expect(requests).toHaveLength(4);
+    expect(getResponseCacheStats(runtime).hits).toBe(0);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('keys on the sampling parameters and the system prompt', async () => {
+    const runtime = createRuntime();
+
+    await handleTextSmall(runtime, { prompt: 'Classify: buy now', temperature: 0 });
+    await handleTextSmall(runtime, { prompt: 'Classify: buy now', temperature: 0, maxTokens: 10 });
+    await handleTextSmall(runtime, {
+      prompt: 'Classify: buy now',
+      temperature: 0,
+      messages: [{ role: 'system', content: 'Answer in one word.' }],
+    });
+
+    expect(requests).toHaveLength(3);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('caches object extraction on disk across restarts of the same agent', async () => {
+    const settings = { AIMO_RESPONSE_CACHE: 'disk', AIMO_RESPONSE_CACHE_DIR: cacheDir };
+    const agentId = crypto.randomUUID() as UUID;
+
+    const first = createRuntime(settings, agentId);
+    expect(await handleObjectSmall(first, { prompt: 'Label: buy now', temperature: 0 })).toEqual({ label: 'spam' });
+    disposeAimoRouterProvider(first);
+
+    const restarted = createRuntime(settings, agentId);
+    expect(await handleObjectSmall(restarted, { prompt: 'Label: buy now', temperature: 0 })).toEqual({ label: 'spam' });
+    expect(requests).toHaveLength(1);
+    expect(getResponseCacheStats(restarted).hits).toBe(1);
+    disposeAimoRouterProvider(restarted);
+
+    const otherAgent = createRuntime(settings);
+    await handleObjectSmall(otherAgent, { prompt: 'Label: buy now', temperature: 0 });
+    expect(requests).toHaveLength(2);
+    disposeAimoRouterProvider(otherAgent);
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('refuses a disk cache directory other users can write to', async () => {
+    chmodSync(cacheDir, 0o777);
+    const runtime = createRuntime({ AIMO_RESPONSE_CACHE: 'disk', AIMO_RESPONSE_CACHE_DIR: cacheDir });
+
+    await handleTextSmall(runtime, { prompt: 'Classify: buy now', temperature: 0 });
+    await handleTextSmall(runtime, { prompt: 'Classify: buy now', temperature: 0 });
+
+    expect(requests).toHaveLength(2);
+    expect(readdirSync(cacheDir)).toHaveLength(0);
+    disposeAimoRouterProvider(runtime);
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('evicts the least recently used responses and expires old ones', async () => {
+    const runtime = createRuntime({
+      AIMO_RESPONSE_CACHE: 'disk',
+      AIMO_RESPONSE_CACHE_DIR: cacheDir,
+      AIMO_RESPONSE_CACHE_MAX_ENTRIES: '2',
+    });
+
+    for (const prompt of ['a', 'b', 'c']) {
+      await handleTextSmall(runtime, { prompt, temperature: 0 });
+    }
+    expect(readdirSync(cacheDir)).toHaveLength(2);
+    expect(getResponseCacheStats(runtime).evictions).toBe(1);
+
+    // Reading b makes c the least recently used, even within the same millisecond
+    await handleTextSmall(runtime, { prompt: 'b', temperature: 0 });
+    await handleTextSmall(runtime, { prompt: 'a', temperature: 0 });
+    await handleTextSmall(runtime, { prompt: 'b', temperature: 0 });
+    expect(requests).toHaveLength(4);
+    await handleTextSmall(runtime, { prompt: 'c', temperature: 0 });
+    expect(requests).toHaveLength(5);
+    disposeAimoRouterProvider(runtime);
+
+    const expiring = createRuntime({ AIMO_RESPONSE_CACHE_TTL_MS: '1' });
+    await handleTextSmall(expiring, { prompt: 'x', temperature: 0 });
+    await Bun.sleep(5);
+    await handleTextSmall(expiring, { prompt: 'x', temperature: 0 });
+    expect(requests).toHaveLength(7);
+    disposeAimoRouterProvider(expiring);
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+});
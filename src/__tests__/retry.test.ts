@@ -0,0 +1,251 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { APICallError } from 'ai';
+import type { IAgentRuntime } from '@elizaos/core';
+import { handleTextEmbedding } from '../models/embedding';
+import { handleTextSmall } from '../models/text';
+import { disposeAimoRouterProvider } from '../providers';
+import { AimoRequestError, isRetryableError } from '../utils/errors';
+import { getRetryDelay, withRetry } from '../utils/retry';
+import { createMockRuntime } from './test-utils';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+const FAST_RETRY = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1, jitter: 0 };
+
+// Local stand-in for the AiMo Network API. The first `failCount` requests
+// respond with `failStatus`; `midStreamFailure` cuts streams after one chunk.
+let server: ReturnType<typeof Bun.serve>;
+let requestCount = 0;
+let failCount = 0;
+let failStatus = 502;
+let midStreamFailure = false;
+
+function sse(model: string): Response {
+  const encoder = new TextEncoder();
+  const chunk = (delta: any, finish: string | null = null) =>
+    encoder.encode(
+      `data: ${JSON.stringify({
+        id: 'chatcmpl-test',
+        object: 'chat.completion.chunk',
+        created: 0,
+        model,
+        choices: [{ index: 0, delta, finish_reason: finish }],
+      })}\n\n`
+    );
+  const body = new ReadableStream({
+    start(controller) {
+      controller.enqueue(chunk({ role: 'assistant', content: 'Hello' }));
+      if (midStreamFailure) {
+        // Fail once the first chunk has been flushed to the client
+        setTimeout(() => controller.error(new Error('upstream reset')), 50);
+        return;
+      }
+      controller.enqueue(chunk({ content: ' world' }, 'stop'));
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function createRuntime(settings: Record<string, string> = {}): IAgentRuntime {
+  const values: Record<string, string> = {
+    AIMO_WALLET_TYPE: 'evm',
+    AIMO_PRIVATE_KEY: TEST_EVM_KEY,
+    AIMO_BASE_URL: `http://localhost:${server.port}`,
+    AIMO_EMBEDDING_DIMENSIONS: '384',
+    AIMO_RETRY_BASE_DELAY_MS: '1',
+    AIMO_RETRY_MAX_DELAY_MS: '5',
+    ...settings,
+  };
+  return createMockRuntime({
+    getSetting: ((key: string) => values[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      if (request.method === 'GET') {
+        return Response.json({ object: 'list', data: [] });
+      }
+      const body = await request.json();
+      requestCount++;
+      if (requestCount <= failCount) {
+        return Response.json({ error: { message: 'bad gateway' } }, { status: failStatus });
+      }
+      if (new URL(request.url).pathname.endsWith('/embeddings')) {
+        return Response.json({ data: [{ index: 0, embedding: Array(384).fill(1) }] });
+      }
+      if (body.stream) {
+        return sse(body.model);
+      }
+      return Response.json({
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hello world' }, finish_reason: 'stop' }],
+      });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  requestCount = 0;
+  failCount = 0;
+  failStatus = 502;
+  midStreamFailure = false;
+});
+
+describe('Retry classification', () => {
+  it('retries timeouts, network errors, 5xx and rate limits but not 4xx', () => {
+    const apiError = (statusCode?: number) =>
+      new APICallError({
+        message: 'failed',
+        url: '',
+        requestBodyValues: {},
+        statusCode,
+        isRetryable: statusCode === undefined,
+      });
+
+    expect(isRetryableError(apiError(502))).toBe(true);
+    expect(isRetryableError(apiError(429))).toBe(true);
+    expect(isRetryableError(apiError(undefined))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('timeout'), { name: 'TimeoutError' }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(isRetryableError(apiError(400))).toBe(false);
+    expect(isRetryableError(new AimoRequestError('/x', 422, 'Unprocessable', {}))).toBe(false);
+    expect(isRetryableError(new Error('invalid input'))).toBe(false);
+  });
+
+  it('grows delays exponentially up to the max delay', () => {
+    const config = { maxAttempts: 5, baseDelayMs: 100, maxDelayMs: 300, jitter: 0 };
+
+    expect([1, 2, 3].map((retry) => getRetryDelay(config, retry))).toEqual([100, 200, 300]);
+    const jittered = getRetryDelay({ ...config, jitter: 1 }, 1);
+    expect(jittered).toBeGreaterThanOrEqual(0);
+    expect(jittered).toBeLessThanOrEqual(100);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries until the call succeeds', async () => {
+    let calls = 0;
+
+    const result = await withRetry(FAST_RETRY, 'test', async () => {
+      if (++calls < 3) {
+        throw new AimoRequestError('/x', 503, 'Service Unavailable', {});
+      }
+      return 'ok';
+    });
+
+    expect(result).toBe('ok');
+    expect(calls).toBe(3);
+  });
+
+  it('stops after the configured attempts and on non-retryable errors', async () => {
+    let calls = 0;
+    const failing = (status: number) => async () => {
+      calls++;
+      throw new AimoRequestError('/x', status, 'Failed', {});
+    };
+
+    await expect(withRetry(FAST_RETRY, 'test', failing(503))).rejects.toThrow('503');
+    expect(calls).toBe(3);
+
+    calls = 0;
+    await expect(withRetry(FAST_RETRY, 'test', failing(400))).rejects.toThrow('400');
+    expect(calls).toBe(1);
+  });
+
+  it('stops waiting for a retry when the signal aborts', async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const startedAt = Date.now();
+    setTimeout(() => controller.abort(new Error('caller gave up')), 20);
+
+    await expect(
+      withRetry(
+        { ...FAST_RETRY, baseDelayMs: 5000, maxDelayMs: 5000 },
+        'test',
+        async () => {
+          calls++;
+          throw new AimoRequestError('/x', 503, 'Service Unavailable', {});
+        },
+        controller.signal
+      )
+    ).rejects.toThrow('caller gave up');
+    expect(calls).toBe(1);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+});
+
+describe('Retries around AiMo calls', () => {
+  it('retries a transient 502 from text generation', async () => {
+    const runtime = createRuntime();
+    failCount = 2;
+
+    const text = await handleTextSmall(runtime, { prompt: 'Hi' });
+
+    expect(text).toBe('Hello world');
+    expect(requestCount).toBe(3);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('does not retry 4xx validation errors', async () => {
+    const runtime = createRuntime();
+    failCount = 1;
+    failStatus = 400;
+
+    await expect(handleTextSmall(runtime, { prompt: 'Hi' })).rejects.toThrow();
+    expect(requestCount).toBe(1);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('retries signed route requests', async () => {
+    const runtime = createRuntime({ AIMO_EMBEDDING_BATCH_WINDOW_MS: '0' });
+    failCount = 1;
+
+    const embedding = await handleTextEmbedding(runtime, 'hello');
+
+    expect(embedding).toHaveLength(384);
+    expect(requestCount).toBe(2);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('retries a stream that fails before its first chunk', async () => {
+    const runtime = createRuntime();
+    failCount = 1;
+
+    const result: any = await handleTextSmall(runtime, { prompt: 'Hi', stream: true });
+
+    expect(await result.text).toBe('Hello world');
+    expect(requestCount).toBe(2);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('does not retry a stream after a chunk was delivered', async () => {
+    const runtime = createRuntime();
+    midStreamFailure = true;
+
+    const result: any = await handleTextSmall(runtime, { prompt: 'Hi', stream: true });
+    const chunks: string[] = [];
+    await expect(
+      (async () => {
+        for await (const chunk of result.textStream) {
+          chunks.push(chunk);
+        }
+      })()
+    ).rejects.toThrow();
+
+    expect(chunks).toEqual(['Hello']);
+    expect(requestCount).toBe(1);
+    disposeAimoRouterProvider(runtime);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach } from 'bun:test';
+import type { IAgentRuntime } from '@elizaos/core';
+import { handleObjectSmall } from '../models/object';
+import { handleTextLarge, handleTextSmall } from '../models/text';
+import { disposeAimoRouterProvider } from '../providers';
+import { checkConfiguredModels } from '../utils/catalog';
+import { getModelPricing, getModelRequirements } from '../utils/config';
+import { createMockRuntime } from './test-utils';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+const perToken = (usdPerMillion: number) => String(usdPerMillion / 1_000_000);
+
+const MODELS = [
+  {
+    id: 'vendor/premium',
+    context_length: 200000,
+    architecture: { input_modalities: ['text', 'image'], output_modalities: ['text'] },
+    pricing: { prompt: perToken(3), completion: perToken(15) },
+    supported_parameters: ['tools', 'response_format'],
+  },
+  {
+    id: 'vendor/budget',
+    context_length: 16000,
+    architecture: { input_modalities: ['text'], output_modalities: ['text'] },
+    pricing: { prompt: perToken(0.05), completion: perToken(0.1) },
+    supported_parameters: [],
+  },
+  {
+    id: 'vendor/tools',
+    context_length: 128000,
+    architecture: { input_modalities: ['text'], output_modalities: ['text'] },
+    pricing: { prompt: perToken(0.2), completion: perToken(0.8) },
+    supported_parameters: ['tools', 'structured_outputs'],
+  },
+  {
+    id: 'vendor/painter',
+    architecture: { input_modalities: ['text'], output_modalities: ['image'] },
+    pricing: { image: '0.01' },
+  },
+];
+
+// Local stand-in for an AiMo node serving the model catalog and chat completions
+let node: ReturnType<typeof Bun.serve>;
+let requests: any[] = [];
+
+function createRuntime(settings: Record<string, string> = {}): IAgentRuntime {
+  const values: Record<string, string> = {
+    AIMO_WALLET_TYPE: 'evm',
+    AIMO_PRIVATE_KEY: TEST_EVM_KEY,
+    AIMO_BASE_URL: `http://localhost:${node.port}`,
+    AIMO_SMALL_MODEL: 'auto',
+    AIMO_RETRY_MAX_ATTEMPTS: '1',
+    ...settings,
+  };
+  return createMockRuntime({
+    getSetting: ((key: string) => values[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+}
+
+beforeAll(() => {
+  node = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      if (request.method === 'GET') {
+        return Response.json({ object: 'list', data: MODELS });
+      }
+      const body = await request.json();
+      requests.push(body);
+      return Response.json({
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: '{"ok":true}' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      });
+    },
+  });
+});
+
+afterAll(() => {
+  node.stop(true);
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+describe('Automatic model selection', () => {
+  it('uses the cheapest chat model', async () => {
+    const runtime = createRuntime();
+
+    await handleTextSmall(runtime, { prompt: 'Hi' });
+
+    expect(requests.map((request) => request.model)).toEqual(['vendor/budget']);
+    // Catalog prices feed the budget estimates of auto-selected models
+    expect(getModelPricing(runtime, 'vendor/budget')).toEqual({ input: 0.05, output: 0.1 });
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('meets the declared requirements', async () => {
+    const runtime = createRuntime({
+      AIMO_LARGE_MODEL: 'auto',
+      AIMO_LARGE_MODEL_REQUIREMENTS: JSON.stringify({ minContextLength: 150000 }),
+      AIMO_SMALL_MODEL_REQUIREMENTS: JSON.stringify({ vision: true, maxUsdPerMillionTokens: 20 }),
+    });
+
+    await handleTextLarge(runtime, { prompt: 'Hi' });
+    await handleTextSmall(runtime, { prompt: 'Hi' });
+
+    expect(requests.map((request) => request.model)).toEqual(['vendor/premium', 'vendor/premium']);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('adds the requirements of the call', async () => {
+    const runtime = createRuntime();
+
+    await handleTextSmall(runtime, {
+      prompt: 'Weather?',
+      tools: { get_weather: { parameters: { type: 'object', properties: {} } } },
+    });
+    await handleObjectSmall(runtime, { prompt: 'Return JSON' });
+    await handleTextSmall(runtime, {
+      prompt: 'Describe it',
+      messages: [
+        { role: 'user', content: [{ type: 'image', image: new URL('https://example.com/cat.png') }] },
+      ],
+    });
+
+    expect(requests.map((request) => request.model)).toEqual(['vendor/tools', 'vendor/tools', 'vendor/premium']);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('fails when no model meets the requirements', async () => {
+    const runtime = createRuntime({
+      AIMO_SMALL_MODEL_REQUIREMENTS: JSON.stringify({ vision: true, maxUsdPerMillionTokens: 1 }),
+    });
+
+    await expect(handleTextSmall(runtime, { prompt: 'Hi' })).rejects.toThrow(
+      'No AiMo model meets the TEXT_SMALL requirements (vision, <= 1 USD/M tokens)'
+    );
+    expect(await checkConfiguredModels(runtime)).toContain(
+      'AIMO_SMALL_MODEL "auto": no model meets AIMO_SMALL_MODEL_REQUIREMENTS'
+    );
+    expect(requests).toEqual([]);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('rejects malformed requirements', () => {
+    expect(() =>
+      getModelRequirements(createRuntime({ AIMO_SMALL_MODEL_REQUIREMENTS: '{"tools":"yes"}' }), 'small')
+    ).toThrow('Invalid AIMO_SMALL_MODEL_REQUIREMENTS: tools must be a boolean');
+    expect(() =>
+      getModelRequirements(createRuntime({ AIMO_SMALL_MODEL_REQUIREMENTS: '{"cheap":true}' }), 'small')
+    ).toThrow('unknown requirement "cheap"');
+    expect(() => getModelRequirements(createRuntime({ AIMO_SMALL_MODEL_REQUIREMENTS: '[' }), 'small')).toThrow(
+      'not valid JSON'
+    );
+  });
+});
@@ -0,0 +1,284 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { EventType, ModelType, type IAgentRuntime } from '@elizaos/core';
+import { handleTextSmall } from '../models/text';
+import { disposeAimoRouterProvider } from '../providers';
+import type { AimoTextGenerationResult, AimoTextStreamResult } from '../types';
+import { createMockRuntime } from './test-utils';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+const weatherTool = {
+  description: 'Get the weather for a city',
+  parameters: {
+    type: 'object' as const,
+    properties: { city: { type: 'string' as const } },
+    required: ['city'],
+  },
+};
+
+// Local stand-in for the AiMo Network chat completions route. The first request
+// asks for the weather tool, later requests answer with text.
+let server: ReturnType<typeof Bun.serve>;
+let requests: any[] = [];
+let failedAnswers = 0;
+
+function toolCallMessage() {
+  return {
+    role: 'assistant',
+    content: null,
+    tool_calls: [
+      {
+        id: 'call_1',
+        type: 'function',
+        function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+      },
+    ],
+  };
+}
+
+function streamResponse(body: any, toolTurn: boolean): Response {
+  const chunk = (delta: any, finishReason: string | null = null, usage?: any) =>
+    `data: ${JSON.stringify({
+      id: 'chatcmpl-test',
+      object: 'chat.completion.chunk',
+      created: 0,
+      model: body.model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+      ...(usage && { usage }),
+    })}\n\n`;
+  const events = toolTurn
+    ? [
+        chunk({
+          role: 'assistant',
+          tool_calls: [
+            {
+              index: 0,
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+            },
+          ],
+        }),
+        chunk({}, 'tool_calls', { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }),
+      ]
+    : [
+        chunk({ role: 'assistant', content: 'Sunny in ' }),
+        chunk({ content: 'Paris' }),
+        chunk({}, 'stop', { prompt_tokens: 20, completion_tokens: 4, total_tokens: 24 }),
+      ];
+  return new Response(`${events.join('')}data: [DONE]\n\n`, {
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+}
+
+function createRuntime(settings: Record<string, string> = {}): IAgentRuntime {
+  const values: Record<string, string> = {
+    AIMO_WALLET_TYPE: 'evm',
+    AIMO_PRIVATE_KEY: TEST_EVM_KEY,
+    AIMO_BASE_URL: `http://localhost:${server.port}`,
+    ...settings,
+  };
+  return createMockRuntime({
+    getSetting: ((key: string) => values[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      if (request.method === 'GET') {
+        return Response.json({ object: 'list', data: [] });
+      }
+      const body = await request.json();
+      requests.push(body);
+      const toolTurn = !!body.tools && !body.messages.some((m: any) => m.role === 'tool');
+      if (!toolTurn && failedAnswers > 0) {
+        failedAnswers--;
+        return Response.json({ error: { message: 'upstream unavailable' } }, { status: 503 });
+      }
+      if (body.stream) {
+        return streamResponse(body, toolTurn);
+      }
+      return Response.json({
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 0,
+        model: body.model,
+        choices: [
+          toolTurn
+            ? { index: 0, message: toolCallMessage(), finish_reason: 'tool_calls' }
+            : {
+                index: 0,
+                message: { role: 'assistant', content: 'Sunny in Paris' },
+                finish_reason: 'stop',
+              },
+        ],
+        usage: toolTurn
+          ? { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+          : { prompt_tokens: 20, completion_tokens: 4, total_tokens: 24 },
+      });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  requests = [];
+  failedAnswers = 0;
+});
+
+describe('Text generation with tools', () => {
+  it('returns plain text when no tools are given', async () => {
+    const runtime = createRuntime();
+
+    const result = await handleTextSmall(runtime, { prompt: 'Weather?' });
+
+    expect(result).toBe('Sunny in Paris');
+    expect(requests[0].tools).toBeUndefined();
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('runs the tool loop and returns tool calls and results', async () => {
+    const runtime = createRuntime();
+    const seen: unknown[] = [];
+
+    const result = (await handleTextSmall(runtime, {
+      prompt: 'Weather in Paris?',
+      tools: {
+        get_weather: {
+          ...weatherTool,
+          execute: async (input: unknown) => {
+            seen.push(input);
+            return { forecast: 'sunny' };
+          },
+        },
+      },
+    })) as AimoTextGenerationResult;
+
+    expect(requests).toHaveLength(2);
+    expect(requests[0].tools[0]).toEqual(
+      expect.objectContaining({
+        type: 'function',
+        function: expect.objectContaining({ name: 'get_weather', parameters: weatherTool.parameters }),
+      })
+    );
+    expect(seen).toEqual([{ city: 'Paris' }]);
+    expect(result.text).toBe('Sunny in Paris');
+    expect(result.toolCalls).toEqual([
+      { toolCallId: 'call_1', toolName: 'get_weather', input: { city: 'Paris' } },
+    ]);
+    expect(result.toolResults).toEqual([
+      {
+        toolCallId: 'call_1',
+        toolName: 'get_weather',
+        input: { city: 'Paris' },
+        output: { forecast: 'sunny' },
+      },
+    ]);
+    expect(result.steps).toHaveLength(2);
+    expect(result.usage).toEqual({ promptTokens: 30, completionTokens: 9, totalTokens: 39 });
+    expect(runtime.emitEvent).toHaveBeenCalledWith(
+      EventType.MODEL_USED,
+      expect.objectContaining({
+        type: ModelType.TEXT_SMALL,
+        tokens: { prompt: 30, completion: 9, total: 39 },
+      })
+    );
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('retries a failed step without running earlier tool calls again', async () => {
+    const runtime = createRuntime({ AIMO_RETRY_BASE_DELAY_MS: '0' });
+    let executions = 0;
+    failedAnswers = 1;
+
+    const result = (await handleTextSmall(runtime, {
+      prompt: 'Weather in Paris?',
+      tools: {
+        get_weather: {
+          ...weatherTool,
+          execute: async () => {
+            executions++;
+            return { forecast: 'sunny' };
+          },
+        },
+      },
+    })) as AimoTextGenerationResult;
+
+    expect(result.text).toBe('Sunny in Paris');
+    expect(executions).toBe(1);
+    // The tool turn once, then the failed answer step and its retry
+    expect(requests).toHaveLength(3);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('stops at the max-steps cap, which callers cannot raise', async () => {
+    const runtime = createRuntime({ AIMO_MAX_TOOL_STEPS: '1' });
+
+    const result = (await handleTextSmall(runtime, {
+      prompt: 'Weather in Paris?',
+      maxSteps: 5,
+      tools: { get_weather: { ...weatherTool, execute: async () => ({ forecast: 'sunny' }) } },
+    })) as AimoTextGenerationResult;
+
+    expect(requests).toHaveLength(1);
+    expect(result.steps).toHaveLength(1);
+    expect(result.finishReason).toBe('tool-calls');
+    expect(result.toolResults).toHaveLength(1);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('returns calls for tools without execute to the caller', async () => {
+    const runtime = createRuntime();
+
+    const result = (await handleTextSmall(runtime, {
+      prompt: 'Weather in Paris?',
+      tools: { get_weather: weatherTool },
+      toolChoice: 'required',
+    })) as AimoTextGenerationResult;
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].tool_choice).toBe('required');
+    expect(result.toolCalls[0].input).toEqual({ city: 'Paris' });
+    expect(result.toolResults).toEqual([]);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('supports tools while streaming', async () => {
+    const runtime = createRuntime();
+
+    const result = (await handleTextSmall(runtime, {
+      prompt: 'Weather in Paris?',
+      stream: true,
+      tools: { get_weather: { ...weatherTool, execute: async () => ({ forecast: 'sunny' }) } },
+    })) as AimoTextStreamResult;
+
+    let streamed = '';
+    for await (const chunk of result.textStream) {
+      streamed += chunk;
+    }
+
+    expect(streamed).toBe('Sunny in Paris');
+    expect(await result.toolCalls).toEqual([
+      { toolCallId: 'call_1', toolName: 'get_weather', input: { city: 'Paris' } },
+    ]);
+    expect((await result.toolResults)[0].output).toEqual({ forecast: 'sunny' });
+    expect(await result.steps).toHaveLength(2);
+    expect(await result.usage).toEqual({ promptTokens: 30, completionTokens: 9, totalTokens: 39 });
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('rejects tools without a parameters schema', async () => {
+    const runtime = createRuntime();
+
+    await expect(
+      handleTextSmall(runtime, { prompt: 'Hi', tools: { broken: {} as any } })
+    ).rejects.toThrow('must define a JSON schema');
+    expect(requests).toHaveLength(0);
+    disposeAimoRouterProvider(runtime);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach } from 'bun:test';
+import type { IAgentRuntime } from '@elizaos/core';
+import { handleTextEmbedding } from '../models/embedding';
+import { handleTextSmall } from '../models/text';
+import { disposeAimoRouterProvider } from '../providers';
+import { AimoTimeoutError } from '../utils/errors';
+import { createMockRuntime } from './test-utils';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+// Local stand-in for the AiMo Network API with configurable stalls:
+// `responseDelays` holds the delay before responding for each request in turn,
+// `firstChunkDelay` and `chunkGap` slow down streams.
+let server: ReturnType<typeof Bun.serve>;
+let requestCount = 0;
+let responseDelays: number[] = [];
+let firstChunkDelay = 0;
+let chunkGap = 0;
+
+function sse(model: string): Response {
+  const encoder = new TextEncoder();
+  const chunk = (delta: any, finish: string | null = null) =>
+    encoder.encode(
+      `data: ${JSON.stringify({
+        id: 'chatcmpl-test',
+        object: 'chat.completion.chunk',
+        created: 0,
+        model,
+        choices: [{ index: 0, delta, finish_reason: finish }],
+      })}\n\n`
+    );
+  const body = new ReadableStream({
+    async start(controller) {
+      // Flush headers right away with an SSE comment
+      controller.enqueue(encoder.encode(': connected\n\n'));
+      await Bun.sleep(firstChunkDelay);
+      controller.enqueue(chunk({ role: 'assistant', content: 'Hello' }));
+      await Bun.sleep(chunkGap);
+      try {
+        controller.enqueue(chunk({ content: ' world' }, 'stop'));
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      } catch {
+        // The client went away
+      }
+    },
+  });
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function createRuntime(settings: Record<string, string> = {}): IAgentRuntime {
+  const values: Record<string, string> = {
+    AIMO_WALLET_TYPE: 'evm',
+    AIMO_PRIVATE_KEY: TEST_EVM_KEY,
+    AIMO_BASE_URL: `http://localhost:${server.port}`,
+    AIMO_EMBEDDING_DIMENSIONS: '384',
+    AIMO_EMBEDDING_BATCH_WINDOW_MS: '0',
+    AIMO_REQUEST_TIMEOUT_MS: '100',
+    AIMO_STREAM_IDLE_TIMEOUT_MS: '100',
+    AIMO_RETRY_MAX_ATTEMPTS: '1',
+    AIMO_RETRY_BASE_DELAY_MS: '1',
+    ...settings,
+  };
+  return createMockRuntime({
+    getSetting: ((key: string) => values[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      if (request.method === 'GET') {
+        return Response.json({ object: 'list', data: [] });
+      }
+      const body = await request.json();
+      await Bun.sleep(responseDelays[requestCount++] ?? 0);
+      if (new URL(request.url).pathname.endsWith('/embeddings')) {
+        return Response.json({ data: [{ index: 0, embedding: Array(384).fill(1) }] });
+      }
+      if (body.stream) {
+        return sse(body.model);
+      }
+      return Response.json({
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hello world' }, finish_reason: 'stop' }],
+      });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  requestCount = 0;
+  responseDelays = [];
+  firstChunkDelay = 0;
+  chunkGap = 0;
+});
+
+async function readStream(result: any): Promise<string> {
+  let text = '';
+  for await (const chunk of result.textStream) {
+    text += chunk;
+  }
+  return text;
+}
+
+describe('Request timeouts', () => {
+  it('fails with a connect timeout when the node does not respond', async () => {
+    const runtime = createRuntime();
+    responseDelays = [400];
+
+    const error = await handleTextSmall(runtime, { prompt: 'Hi' }).catch((error) => error);
+
+    expect(error).toBeInstanceOf(AimoTimeoutError);
+    expect(error.phase).toBe('connect');
+    expect(error.timeoutMs).toBe(100);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('fails with a first-token timeout when a stream produces no output', async () => {
+    const runtime = createRuntime();
+    firstChunkDelay = 400;
+
+    const error = await handleTextSmall(runtime, { prompt: 'Hi', stream: true }).catch(
+      (error) => error
+    );
+
+    expect(error).toBeInstanceOf(AimoTimeoutError);
+    expect(error.phase).toBe('first-token');
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('fails the stream with an idle timeout when chunks stop arriving', async () => {
+    const runtime = createRuntime();
+    chunkGap = 400;
+
+    const result: any = await handleTextSmall(runtime, { prompt: 'Hi', stream: true });
+    const error = await readStream(result).catch((error) => error);
+
+    expect(error).toBeInstanceOf(AimoTimeoutError);
+    expect(error.phase).toBe('idle');
+    await expect(result.text).rejects.toBeInstanceOf(AimoTimeoutError);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('lets slow but steady streams finish', async () => {
+    const runtime = createRuntime({ AIMO_REQUEST_TIMEOUT_MS: '300' });
+    firstChunkDelay = 50;
+    chunkGap = 50;
+
+    const result: any = await handleTextSmall(runtime, { prompt: 'Hi', stream: true });
+
+    expect(await readStream(result)).toBe('Hello world');
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('retries timed out attempts', async () => {
+    const runtime = createRuntime({ AIMO_RETRY_MAX_ATTEMPTS: '2' });
+    responseDelays = [400, 0];
+
+    const text = await handleTextSmall(runtime, { prompt: 'Hi' });
+
+    expect(text).toBe('Hello world');
+    expect(requestCount).toBe(2);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('bounds signed route requests', async () => {
+    const runtime = createRuntime();
+    responseDelays = [400];
+
+    const error = await handleTextEmbedding(runtime, 'hello').catch((error) => error);
+
+    expect(error).toBeInstanceOf(AimoTimeoutError);
+    expect(error.phase).toBe('connect');
+    disposeAimoRouterProvider(runtime);
+  });
+});
+
+describe('Abort signal', () => {
+  it('cancels an in-flight request without retrying', async () => {
+    const runtime = createRuntime({
+      AIMO_REQUEST_TIMEOUT_MS: '0',
+      AIMO_RETRY_MAX_ATTEMPTS: '3',
+    });
+    responseDelays = [400];
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    const error = await handleTextSmall(runtime, { prompt: 'Hi', signal: controller.signal } as any).catch(
+      (error) => error
+    );
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).not.toBeInstanceOf(AimoTimeoutError);
+    expect(requestCount).toBe(1);
+    disposeAimoRouterProvider(runtime);
+  });
+});
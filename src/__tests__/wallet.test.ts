@@ -0,0 +1,93 @@
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import type { IAgentRuntime, Memory, State } from '@elizaos/core';
+import { aimoWalletProvider, disposeAimoRouterProvider } from '../providers';
+import { checkAimoBalance } from '../utils/balance';
+import { createMockRuntime, createTestMemory } from './test-utils';
+
+const TEST_EVM_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const TEST_EVM_ADDRESS = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+// Local stand-in for the AiMo Network session balance route
+let server: ReturnType<typeof Bun.serve>;
+let balanceRequests = 0;
+
+function createRuntime(settings: Record<string, string> = {}): IAgentRuntime {
+  const values: Record<string, string> = {
+    AIMO_WALLET_TYPE: 'evm',
+    AIMO_PRIVATE_KEY: TEST_EVM_KEY,
+    AIMO_BASE_URL: `http://localhost:${server.port}`,
+    ...settings,
+  };
+  return createMockRuntime({
+    getSetting: ((key: string) => values[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+}
+
+function getWalletState(runtime: IAgentRuntime) {
+  return aimoWalletProvider.get(runtime, createTestMemory() as Memory, {} as State);
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    fetch() {
+      balanceRequests++;
+      return Response.json({
+        caip_account_id: `eip155:1:${TEST_EVM_ADDRESS}`,
+        balance_micro_usdc: 7_250_000,
+        balance_usd: '7.250000',
+      });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+describe('AIMO_WALLET provider', () => {
+  it('injects the derived address, chain, base URL and balance', async () => {
+    const runtime = createRuntime({ AIMO_CHAIN_ID: 'sepolia' });
+    await checkAimoBalance(runtime);
+
+    const result = await getWalletState(runtime);
+
+    expect(result.values).toEqual({
+      aimoWalletType: 'evm',
+      aimoWalletAddress: TEST_EVM_ADDRESS,
+      aimoChainId: 'eip155:11155111',
+      aimoBaseUrl: `http://localhost:${server.port}`,
+      aimoBalanceUsd: 7.25,
+    });
+    expect(result.text).toContain(`Address: ${TEST_EVM_ADDRESS}`);
+    expect(result.text).toContain('Session balance: 7.25 USD');
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('reports an unknown balance instead of fetching it', async () => {
+    const runtime = createRuntime();
+    balanceRequests = 0;
+
+    const result = await getWalletState(runtime);
+
+    expect(result.text).toContain('Session balance: unknown');
+    expect(result.values?.aimoBalanceUsd).toBeUndefined();
+    expect(balanceRequests).toBe(0);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('never exposes the private key', async () => {
+    const runtime = createRuntime();
+
+    const result = await getWalletState(runtime);
+
+    expect(JSON.stringify(result)).not.toContain(TEST_EVM_KEY.slice(2));
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('returns empty state when the wallet is not configured', async () => {
+    const runtime = createRuntime({ AIMO_PRIVATE_KEY: '' });
+
+    expect(await getWalletState(runtime)).toEqual({ text: '', values: {}, data: {} });
+  });
+});
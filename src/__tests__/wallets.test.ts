@@ -0,0 +1,195 @@
+import { describe, expect, it, beforeAll, afterAll, beforeEach } from 'bun:test';
+import type { IAgentRuntime } from '@elizaos/core';
+import { handleTextSmall } from '../models/text';
+import { disposeAimoRouterProvider, getWalletInfo } from '../providers';
+import { getWalletConfigs, validateWalletConfiguration } from '../utils/config';
+import { readPaymentDetails } from '../utils/payments';
+import { createMockRuntime } from './test-utils';
+
+const MAIN_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const MAIN_ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const BACKUP_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const BACKUP_ADDRESS = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const NODE_ADDRESS = '0x1111111111111111111111111111111111111111';
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64');
+
+const requirements = {
+  scheme: 'exact',
+  network: 'eip155:1',
+  asset: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+  amount: '1500',
+  payTo: NODE_ADDRESS,
+  maxTimeoutSeconds: 60,
+  extra: { name: 'USD Coin', version: '2' },
+};
+
+const WALLETS = JSON.stringify([
+  { name: 'main', walletType: 'evm', privateKey: MAIN_KEY },
+  { name: 'backup', walletType: 'evm', privateKey: BACKUP_KEY },
+]);
+
+// Local stand-in for an AiMo node that requires an x402 payment per call
+let node: ReturnType<typeof Bun.serve>;
+let payers: string[] = [];
+let drained = new Set<string>();
+
+function paymentRequired(url: string): Response {
+  return Response.json(
+    {},
+    {
+      status: 402,
+      headers: {
+        'PAYMENT-REQUIRED': encode({
+          x402Version: 2,
+          resource: { url, description: 'chat', mimeType: 'application/json' },
+          accepts: [requirements],
+        }),
+      },
+    }
+  );
+}
+
+function createRuntime(settings: Record<string, string> = {}): IAgentRuntime {
+  const values: Record<string, string> = {
+    AIMO_WALLETS: WALLETS,
+    AIMO_BASE_URL: `http://localhost:${node.port}`,
+    AIMO_SMALL_MODEL: 'vendor/paid',
+    AIMO_RETRY_MAX_ATTEMPTS: '1',
+    ...settings,
+  };
+  return createMockRuntime({
+    getSetting: ((key: string) => values[key] ?? null) as IAgentRuntime['getSetting'],
+  });
+}
+
+beforeAll(() => {
+  node = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      if (request.method === 'GET') {
+        return Response.json({ object: 'list', data: [] });
+      }
+      const body = await request.json();
+      if (!request.headers.get('PAYMENT-SIGNATURE')) {
+        return paymentRequired(request.url);
+      }
+      const payer = readPaymentDetails(request.headers, new Headers())?.payer ?? '';
+      if (drained.has(payer)) {
+        return paymentRequired(request.url);
+      }
+      payers.push(payer);
+      return Response.json({
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: 'paid' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      });
+    },
+  });
+});
+
+afterAll(() => {
+  node.stop(true);
+});
+
+beforeEach(() => {
+  payers = [];
+  drained = new Set();
+});
+
+describe('Multiple wallets', () => {
+  it('fails over to the next wallet when a payment is refused', async () => {
+    drained.add(MAIN_ADDRESS);
+    const runtime = createRuntime();
+
+    expect(await handleTextSmall(runtime, { prompt: 'Hi' })).toBe('paid');
+    expect(await handleTextSmall(runtime, { prompt: 'Hi' })).toBe('paid');
+
+    // The drained wallet cools down instead of being tried on every call
+    expect(payers).toEqual([BACKUP_ADDRESS, BACKUP_ADDRESS]);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('fails once every wallet is refused', async () => {
+    drained.add(MAIN_ADDRESS);
+    drained.add(BACKUP_ADDRESS);
+    const runtime = createRuntime();
+
+    await expect(handleTextSmall(runtime, { prompt: 'Hi' })).rejects.toThrow();
+    expect(payers).toEqual([]);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('spreads calls with the round-robin strategy', async () => {
+    const runtime = createRuntime({ AIMO_WALLET_STRATEGY: 'round-robin' });
+
+    for (let i = 0; i < 3; i++) {
+      await handleTextSmall(runtime, { prompt: 'Hi' });
+    }
+
+    expect(payers).toEqual([MAIN_ADDRESS, BACKUP_ADDRESS, MAIN_ADDRESS]);
+    disposeAimoRouterProvider(runtime);
+  });
+
+  it('pays for pinned models from their wallets only', async () => {
+    const runtime = createRuntime({
+      AIMO_WALLETS: JSON.stringify([
+        { name: 'main', walletType: 'evm', privateKey: MAIN_KEY },
+        { name: 'premium', walletType: 'evm', privateKey: BACKUP_KEY, models: ['vendor/premium'] },
+      ]),
+      AIMO_WALLET_STRATEGY: 'round-robin',
+    });
+
+    await handleTextSmall(runtime, { prompt: 'Hi' });
+    await handleTextSmall(runtime, { prompt: 'Hi' });
+    expect(payers).toEqual([MAIN_ADDRESS, MAIN_ADDRESS]);
+    disposeAimoRouterProvider(runtime);
+
+    const premium = createRuntime({
+      AIMO_WALLETS: JSON.stringify([
+        { name: 'main', walletType: 'evm', privateKey: MAIN_KEY },
+        { name: 'premium', walletType: 'evm', privateKey: BACKUP_KEY, models: ['vendor/premium'] },
+      ]),
+      AIMO_SMALL_MODEL: 'vendor/premium',
+    });
+    await handleTextSmall(premium, { prompt: 'Hi' });
+    expect(payers).toEqual([MAIN_ADDRESS, MAIN_ADDRESS, BACKUP_ADDRESS]);
+    expect(await getWalletInfo(premium, 'premium')).toMatchObject({ name: 'premium', address: BACKUP_ADDRESS });
+    disposeAimoRouterProvider(premium);
+  });
+
+  it('treats the single wallet settings as the default wallet', () => {
+    const runtime = createRuntime({
+      AIMO_WALLETS: '',
+      AIMO_WALLET_TYPE: 'evm',
+      AIMO_PRIVATE_KEY: MAIN_KEY,
+    });
+
+    expect(getWalletConfigs(runtime)).toMatchObject([{ name: 'default', walletType: 'evm', privateKey: MAIN_KEY }]);
+  });
+
+  it('validates every configured wallet', async () => {
+    expect(await validateWalletConfiguration(createRuntime())).toBe(true);
+    expect(
+      await validateWalletConfiguration(
+        createRuntime({ AIMO_WALLETS: JSON.stringify([{ name: 'bad', walletType: 'evm', privateKey: '0x1234' }]) })
+      )
+    ).toBe(false);
+    expect(await validateWalletConfiguration(createRuntime({ AIMO_WALLETS: '{"name":"main"}' }))).toBe(false);
+    expect(await validateWalletConfiguration(createRuntime({ AIMO_WALLET_STRATEGY: 'random' }))).toBe(false);
+    expect(() =>
+      getWalletConfigs(
+        createRuntime({
+          AIMO_WALLETS: JSON.stringify([
+            { name: 'main', walletType: 'evm', privateKey: MAIN_KEY },
+            { name: 'main', walletType: 'svm', privateKey: BACKUP_KEY },
+          ]),
+        })
+      )
+    ).toThrow('Invalid AIMO_WALLETS: wallet name "main" is used more than once');
+    expect(() => getWalletConfigs(createRuntime({ AIMO_WALLETS: '[{' }))).toThrow('Invalid AIMO_WALLETS: not valid JSON');
+  });
+});
@@ -0,0 +1,17 @@
+/**
+ * Browser-safe entry for agents that pay through a signing proxy
+ *
+ * Unlike the plugin entry, it holds no key and imports no Node.js modules, so it
+ * loads in browsers and edge runtimes.
+ */
+export {
+  ProxySigner,
+  createAimoProxyClient,
+  createProxySigner,
+  withProxyToken,
+  type AimoProxyClient,
+  type ProxyInfo,
+  type ProxyOptions,
+} from './utils/proxy.ts';
+export { AimoProxyError, AimoRequestError } from './utils/errors.ts';
+export type { ChainId } from './utils/chains.ts';
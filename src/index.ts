@@ -1,4 +1,102 @@
 import { aimoRouterPlugin } from './plugin.ts';
 
 export { aimoRouterPlugin } from './plugin.ts';
+export {
+  getAimoRouterProvider,
+  refreshAimoRouterProvider,
+  disposeAimoRouterProvider,
+  getWalletInfo,
+  aimoWalletProvider,
+  type AimoRouterProvider,
+  type AimoWalletInfo,
+} from './providers/index.ts';
+export { handleTextEmbeddingBatch } from './models/index.ts';
+export {
+  AimoProxyError,
+  AimoRequestError,
+  AimoTimeoutError,
+  BudgetExceededError,
+  ContextLengthExceededError,
+  RemoteSignerError,
+  type AimoTimeoutPhase,
+  type BudgetScope,
+} from './utils/errors.ts';
+export {
+  checkAimoBalance,
+  checkAimoBalances,
+  getAimoBalance,
+  startBalanceMonitor,
+  stopBalanceMonitor,
+  type AimoBalance,
+} from './utils/balance.ts';
+export {
+  getModelCatalog,
+  getModelInfo,
+  checkConfiguredModels,
+  validateConfiguredModels,
+  type AimoModelInfo,
+  type ModelValidationMode,
+} from './utils/catalog.ts';
+export { getMaxOutputTokens, routeByContextLength, type ContextPolicy } from './utils/context.ts';
+export {
+  AUTO_MODEL,
+  findCheapestModels,
+  meetsModelRequirements,
+  type ModelRequirements,
+} from './utils/routing.ts';
+export {
+  AIMO_LOW_BALANCE_EVENT,
+  type LowBalancePayload,
+  type ModelUsageDetails,
+} from './utils/events.ts';
+export type { PaymentDetails } from './utils/payments.ts';
+export {
+  getSupportedChains,
+  resolveChain,
+  type AssetInfo,
+  type ChainId,
+  type ChainInfo,
+} from './utils/chains.ts';
+export {
+  RemoteSigner,
+  createRemoteSigner,
+  setRemoteSignerApprovalHook,
+  type RemoteSignRequest,
+  type RemoteSignerOptions,
+  type SignApprovalHook,
+} from './utils/remote-signer.ts';
+export {
+  ProxySigner,
+  createAimoProxyClient,
+  createProxySigner,
+  type AimoProxyClient,
+  type ProxyInfo,
+  type ProxyOptions,
+} from './utils/proxy.ts';
+export {
+  selectWallet,
+  markWalletUnavailable,
+  type WalletConfig,
+  type WalletStrategy,
+} from './utils/wallets.ts';
+export {
+  clearResponseCache,
+  getResponseCacheKey,
+  getResponseCacheStats,
+  type ResponseCacheBackend,
+  type ResponseCacheConfig,
+  type ResponseCacheStats,
+} from './utils/response-cache.ts';
+export { getSpendLedger, type ModelPricing, type SpendLedger } from './utils/budget.ts';
+export type {
+  AimoGenerateTextParams,
+  AimoGenerationStep,
+  AimoObjectGenerationParams,
+  AimoTextGenerationResult,
+  AimoTextStreamResult,
+  AimoToolCall,
+  AimoToolChoice,
+  AimoToolDefinition,
+  AimoToolResult,
+} from './types/index.ts';
 export default aimoRouterPlugin;
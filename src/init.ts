@@ -1,10 +1,14 @@
 import { logger, type IAgentRuntime } from "@elizaos/core";
-import { validateWalletConfiguration } from "./utils/config";
+import { checkAimoBalances, startBalanceMonitor } from "./utils/balance";
+import { validateConfiguredModels } from "./utils/catalog";
+import { getModelValidationMode, validateWalletConfiguration } from "./utils/config";
 
 /**
  * Initialize and validate AiMo plugin configuration
  * 
- * This function validates wallet configuration (SVM or EVM) and logs the results.
+ * This function validates wallet configuration (SVM or EVM) and logs the results,
+ * then logs the session balance of each wallet, starts the background balance monitor and checks
+ * the configured models against the AiMo model catalog (strict checks run in plugin init).
  * It runs asynchronously in the background to avoid blocking plugin initialization.
  * 
  * @param config - Plugin configuration object
@@ -18,7 +22,7 @@ export function initializeAimoRouter(_config: any, runtime: IAgentRuntime) {
       logger.info("Initializing AiMo Router plugin...");
       
       // Validate wallet configuration
-      if (!validateWalletConfiguration(runtime)) {
+      if (!(await validateWalletConfiguration(runtime))) {
         logger.warn(
           "AiMo wallet configuration is incomplete or invalid. " +
           "Please set AIMO_WALLET_TYPE ('svm' or 'evm') and AIMO_PRIVATE_KEY environment variables. " +
@@ -30,9 +34,15 @@ export function initializeAimoRouter(_config: any, runtime: IAgentRuntime) {
       // Configuration is valid
       logger.log("AiMo Router plugin initialized successfully");
       
-      // Future enhancement: Check session balance
-      // const balance = await client.sessionBalance();
-      // logger.log(`AiMo session balance: ${balance.balance_usd} USD`);
+      // Check the session balance of every wallet now and keep watching them while the agent runs
+      for (const balance of await checkAimoBalances(runtime)) {
+        logger.log(`AiMo session balance of wallet "${balance.wallet}": ${balance.balanceUsd} USD (${balance.accountId})`);
+      }
+      startBalanceMonitor(runtime);
+      
+      if (getModelValidationMode(runtime) === "warn") {
+        await validateConfiguredModels(runtime);
+      }
       
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : String(error);
@@ -1,71 +1,235 @@
 import type { IAgentRuntime, TextEmbeddingParams } from '@elizaos/core';
-import { logger, ModelType, VECTOR_DIMS } from '@elizaos/core';
-import { getSetting } from '../utils/config';
+import { logger, ModelType } from '@elizaos/core';
+import { aimoPaidRequest } from '../providers';
+import { createBatcher, type Batcher } from '../utils/batcher';
+import { estimateTokens, getUsageCostUsd, withBudget } from '../utils/budget';
+import {
+  getEmbeddingBatchSize,
+  getEmbeddingBatchWindowMs,
+  getEmbeddingDimensions,
+  getEmbeddingModel,
+} from '../utils/config';
+import { emitModelUsageEvent } from '../utils/events';
+import { getTotalPaid } from '../utils/payments';
+import { withWalletFailover } from '../utils/wallets';
+
+/**
+ * Response body of the OpenAI-compatible embeddings route
+ */
+interface EmbeddingResponse {
+  data: { embedding: number[]; index: number }[];
+  model?: string;
+  usage?: { prompt_tokens?: number; total_tokens?: number };
+}
+
+/**
+ * Request embeddings for a list of texts from the AiMo Network embeddings route
+ *
+ * @param runtime The runtime context
+ * @param texts Texts to embed
+ * @returns One embedding per input text, in input order
+ * @throws Error if the response is malformed or has the wrong vector size
+ */
+export async function requestEmbeddings(
+  runtime: IAgentRuntime,
+  texts: string[]
+): Promise<number[][]> {
+  const modelName = getEmbeddingModel(runtime);
+  const { dimensions, explicit } = getEmbeddingDimensions(runtime);
+
+  logger.debug(`[AiMo] Requesting ${texts.length} embedding(s) with model: ${modelName}`);
+
+  const callSize = { inputTokens: estimateTokens(texts.join('\n')) };
+  const { data: response, payments, latencyMs } = await withBudget(
+    runtime,
+    modelName,
+    callSize,
+    async () => {
+      const result = await withWalletFailover(runtime, modelName, (wallet) =>
+        aimoPaidRequest<EmbeddingResponse>(
+          runtime,
+          '/embeddings',
+          {
+            model: modelName,
+            input: texts,
+            // Only send dimensions when configured, not every embedding model supports it
+            ...(explicit && { dimensions }),
+          },
+          undefined,
+          wallet
+        )
+      );
+      return {
+        result,
+        costUsd:
+          getTotalPaid(result.payments)?.amount ??
+          getUsageCostUsd(
+            runtime,
+            modelName,
+            result.data?.usage && { inputTokens: result.data.usage.prompt_tokens }
+          ),
+      };
+    }
+  );
+
+  // Report the call even without usage so its payments are reconciled
+  const inputTokens = response?.usage?.prompt_tokens ?? 0;
+  emitModelUsageEvent(runtime, ModelType.TEXT_EMBEDDING, texts.join('\n'), {
+    inputTokens,
+    outputTokens: 0,
+    totalTokens: response?.usage?.total_tokens ?? inputTokens,
+  }, { model: modelName, latencyMs, payments });
+
+  if (!Array.isArray(response?.data) || response.data.length !== texts.length) {
+    throw new Error(
+      `AiMo embeddings response is malformed: expected ${texts.length} embedding(s), got ${
+        Array.isArray(response?.data) ? response.data.length : 'none'
+      }`
+    );
+  }
+
+  const embeddings = [...response.data]
+    .sort((a, b) => a.index - b.index)
+    .map((item) => item.embedding);
+
+  for (const embedding of embeddings) {
+    if (!Array.isArray(embedding) || embedding.length !== dimensions) {
+      throw new Error(
+        `AiMo embedding model ${modelName} returned ${
+          Array.isArray(embedding) ? embedding.length : 'no'
+        } dimensions, expected ${dimensions}. Set AIMO_EMBEDDING_DIMENSIONS to match the model.`
+      );
+    }
+  }
+
+  return embeddings;
+}
+
+/**
+ * Per-runtime coalescer for single-text embedding calls, keyed by its settings so
+ * a changed batch size or window takes effect on the next call
+ */
+const embeddingBatchers = new WeakMap<
+  IAgentRuntime,
+  { key: string; batcher: Batcher<string, number[]> }
+>();
+
+function getEmbeddingBatcher(runtime: IAgentRuntime): Batcher<string, number[]> {
+  const maxBatchSize = getEmbeddingBatchSize(runtime);
+  const windowMs = getEmbeddingBatchWindowMs(runtime);
+  const key = `${maxBatchSize}:${windowMs}`;
+
+  const cached = embeddingBatchers.get(runtime);
+  if (cached && cached.key === key) {
+    return cached.batcher;
+  }
+  // Send anything still queued under the old settings
+  cached?.batcher.flush();
+
+  const batcher = createBatcher<string, number[]>({
+    maxBatchSize,
+    windowMs,
+    execute: (texts) => requestEmbeddingsDeduplicated(runtime, texts),
+  });
+  embeddingBatchers.set(runtime, { key, batcher });
+  return batcher;
+}
+
+/**
+ * Request embeddings, sending each distinct text only once
+ */
+async function requestEmbeddingsDeduplicated(
+  runtime: IAgentRuntime,
+  texts: string[]
+): Promise<number[][]> {
+  const unique = [...new Set(texts)];
+  const embeddings = await requestEmbeddings(runtime, unique);
+  const byText = new Map(unique.map((text, index) => [text, embeddings[index]]));
+  return texts.map((text) => byText.get(text) as number[]);
+}
+
+/**
+ * Embed many texts with as few signed requests as possible
+ *
+ * Texts are sent in chunks of at most AIMO_EMBEDDING_BATCH_SIZE, so ingesting a
+ * document pays one x402 payment per chunk of texts instead of one per text.
+ *
+ * @param runtime The runtime context
+ * @param texts Texts to embed
+ * @returns One embedding per input text, in input order
+ * @throws Error if any text is empty or a request fails
+ */
+export async function handleTextEmbeddingBatch(
+  runtime: IAgentRuntime,
+  texts: string[]
+): Promise<number[][]> {
+  if (texts.length === 0) {
+    return [];
+  }
+  if (texts.some((text) => typeof text !== 'string' || !text.trim())) {
+    throw new Error('Cannot create an embedding for empty text');
+  }
+
+  const batchSize = getEmbeddingBatchSize(runtime);
+  const chunks: string[][] = [];
+  for (let i = 0; i < texts.length; i += batchSize) {
+    chunks.push(texts.slice(i, i + batchSize));
+  }
+
+  try {
+    const results = await Promise.all(
+      chunks.map((chunk) => requestEmbeddingsDeduplicated(runtime, chunk))
+    );
+    return results.flat();
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`[AiMo] Batch embedding generation failed: ${message}`);
+    throw error;
+  }
+}
 
 /**
  * TEXT_EMBEDDING model handler for AiMo Network
- * 
- * TODO: Implement when AiMo Network supports embeddings API
- * 
- * Implementation notes:
- * - Check if AiMo Network provides embeddings endpoint similar to OpenAI
- * - Consider using AI SDK's embed() function if available
- * - May need to implement custom fetch logic if SDK doesn't support embeddings
- * - Should follow same pattern as OpenRouter's embedding handler
- * 
- * For reference, see: src/models/embedding.ts in @elizaos/plugin-openrouter
+ *
+ * Calls the OpenAI-compatible `/embeddings` route through the wallet-signed x402
+ * transport. Invalid input or a failed request raises an error instead of returning
+ * a placeholder vector, so memory retrieval never runs on fake embeddings.
+ *
+ * A `null` input is the runtime's dimension probe at startup and returns a zero
+ * vector of the configured size without a paid request.
+ *
+ * Concurrent calls are coalesced for AIMO_EMBEDDING_BATCH_WINDOW_MS into one
+ * request and the results are split back to each caller.
  */
 export async function handleTextEmbedding(
   runtime: IAgentRuntime,
   params: TextEmbeddingParams | string | null
 ): Promise<number[]> {
-  const embeddingDimension = Number.parseInt(
-    getSetting(runtime, 'AIMO_EMBEDDING_DIMENSIONS') ??
-      getSetting(runtime, 'EMBEDDING_DIMENSIONS') ??
-      '1536',
-    10
-  ) as (typeof VECTOR_DIMS)[keyof typeof VECTOR_DIMS];
-
-  if (!Object.values(VECTOR_DIMS).includes(embeddingDimension)) {
-    const errorMsg = `Invalid embedding dimension: ${embeddingDimension}. Must be one of: ${Object.values(VECTOR_DIMS).join(', ')}`;
-    logger.error(errorMsg);
-    throw new Error(errorMsg);
-  }
+  const { dimensions } = getEmbeddingDimensions(runtime);
 
   if (params === null) {
     logger.debug('Creating test embedding for initialization');
-    const testVector = Array(embeddingDimension).fill(0);
-    testVector[0] = 0.1;
-    return testVector;
+    return Array(dimensions).fill(0);
   }
 
-  logger.warn('TEXT_EMBEDDING is not yet supported by AiMo Network. Returning placeholder embedding.');
-
   let text: string;
   if (typeof params === 'string') {
     text = params;
-  } else if (typeof params === 'object' && params.text) {
+  } else if (typeof params === 'object' && typeof params.text === 'string') {
     text = params.text;
   } else {
-    const errorMsg = 'Invalid input format for embedding';
-    logger.warn(errorMsg);
-    const fallbackVector = Array(embeddingDimension).fill(0);
-    fallbackVector[0] = 0.2;
-    return fallbackVector;
+    throw new Error('Invalid input format for embedding: expected a string or { text }');
   }
 
   if (!text.trim()) {
-    const errorMsg = 'Empty text for embedding';
-    logger.warn(errorMsg);
-    const fallbackVector = Array(embeddingDimension).fill(0);
-    fallbackVector[0] = 0.3;
-    return fallbackVector;
+    throw new Error('Cannot create an embedding for empty text');
   }
 
-  // Return placeholder embedding until AiMo Network supports embeddings
-  const placeholderVector = Array(embeddingDimension).fill(0);
-  placeholderVector[0] = 0.4;
-
-  logger.log(`Generated placeholder embedding for text (length: ${text.length})`);
-  return placeholderVector;
+  try {
+    return await getEmbeddingBatcher(runtime).add(text);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`[AiMo] Embedding generation failed: ${message}`);
+    throw error;
+  }
 }
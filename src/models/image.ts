@@ -1,62 +1,379 @@
 import {
   logger,
+  ModelType,
   type IAgentRuntime,
   type ImageDescriptionParams,
   type ImageGenerationParams,
 } from "@elizaos/core";
+import { generateText, type ImagePart } from "ai";
+import { aimoPaidRequest, getAimoRouterProvider } from "../providers";
+import {
+  getImageModel,
+  getImageOutputDir,
+  getRetryConfig,
+  getTimeoutConfig,
+  getVisionModel,
+} from "../utils/config";
+import { estimateTokens, getUsageCostUsd, withBudget } from "../utils/budget";
+import { emitModelUsageEvent } from "../utils/events";
+import { getTotalPaid } from "../utils/payments";
+import { withRetry } from "../utils/retry";
+import { withRequestTimeout } from "../utils/timeout";
+import { withWalletFailover } from "../utils/wallets";
+
+const DEFAULT_IMAGE_DESCRIPTION_PROMPT =
+  "Describe this image. Respond with a JSON object with two fields: " +
+  '"title", a short title for the image, and "description", a detailed description of its contents.';
+
+/**
+ * Token counts assumed when estimating the cost of an image description call:
+ * the tokens an input image typically occupies and a generous reply length
+ */
+const DESCRIPTION_IMAGE_TOKEN_ESTIMATE = 1000;
+const DESCRIPTION_OUTPUT_TOKEN_ESTIMATE = 1024;
+
+const IMAGE_MEDIA_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".bmp": "image/bmp",
+  ".svg": "image/svg+xml",
+};
+
+/**
+ * Convert an image reference into AI SDK image content
+ *
+ * Accepts http(s) URLs (passed through to the model), data URIs and local file
+ * paths or file:// URLs (read from disk and sent inline).
+ *
+ * @param imageUrl URL, data URI or file path of the image
+ * @returns Image content part for a multimodal message
+ * @throws Error if the data URI is malformed or the file cannot be read
+ */
+export async function loadImageContent(imageUrl: string): Promise<ImagePart> {
+  const trimmed = imageUrl.trim();
+
+  if (/^https?:\/\//i.test(trimmed)) {
+    return { type: "image", image: new URL(trimmed) };
+  }
+
+  if (/^data:/i.test(trimmed)) {
+    const match = /^data:([^;,]+)?((?:;[^;,]+)*?)(;base64)?,(.*)$/is.exec(trimmed);
+    if (!match) {
+      throw new Error("Invalid image data URI");
+    }
+    const [, mediaType = "application/octet-stream", , isBase64, data] = match;
+    const image = isBase64
+      ? data
+      : new TextEncoder().encode(decodeURIComponent(data));
+    return { type: "image", image, mediaType };
+  }
+
+  // Only file paths need Node.js, so its modules are loaded here
+  const [{ readFile }, { extname }, { fileURLToPath }] = await Promise.all([
+    import("node:fs/promises"),
+    import("node:path"),
+    import("node:url"),
+  ]);
+  const path = /^file:\/\//i.test(trimmed) ? fileURLToPath(trimmed) : trimmed;
+  const mediaType = IMAGE_MEDIA_TYPES[extname(path).toLowerCase()];
+  if (!mediaType) {
+    throw new Error(`Unsupported image file type: ${path}`);
+  }
+  const image = await readFile(path);
+  return { type: "image", image: new Uint8Array(image), mediaType };
+}
+
+/**
+ * Parse a vision model response into a title and description
+ *
+ * Tries, in order: a JSON object (optionally inside a code fence), labelled
+ * "Title:" / "Description:" lines, and finally plain text where the first line
+ * becomes the title.
+ *
+ * @param text Raw model output
+ * @returns Parsed title and description
+ */
+export function parseImageDescription(text: string): { title: string; description: string } {
+  const cleaned = text.replace(/```(?:json)?/gi, "").trim();
+
+  const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
+  if (jsonMatch) {
+    try {
+      const parsed = JSON.parse(jsonMatch[0]) as Record<string, unknown>;
+      if (typeof parsed.title === "string" || typeof parsed.description === "string") {
+        const description = String(parsed.description ?? "").trim();
+        return {
+          title: String(parsed.title ?? "").trim() || deriveTitle(description),
+          description,
+        };
+      }
+    } catch {
+      // Fall through to the text formats
+    }
+  }
+
+  const titleMatch = cleaned.match(/^\W*title\W*:[\s*_]*(.+)$/im);
+  const descriptionMatch = cleaned.match(/^\W*description\W*:[\s*_]*([\s\S]+)$/im);
+  if (titleMatch || descriptionMatch) {
+    const description = descriptionMatch?.[1].trim() ?? cleaned;
+    return {
+      title: titleMatch?.[1].replace(/\W+$/, "").trim() || deriveTitle(description),
+      description,
+    };
+  }
+
+  const [firstLine, ...rest] = cleaned.split(/\r?\n/);
+  const remainder = rest.join("\n").trim();
+  if (remainder && firstLine.length <= 100) {
+    return { title: firstLine.replace(/^#+\s*/, "").trim(), description: remainder };
+  }
+  return { title: deriveTitle(cleaned), description: cleaned };
+}
+
+/**
+ * Build a short title from the start of a description
+ */
+function deriveTitle(description: string): string {
+  const sentence = description.split(/(?<=[.!?])\s/)[0] ?? "";
+  if (!sentence) {
+    return "Image";
+  }
+  return sentence.length > 60 ? `${sentence.slice(0, 57).trimEnd()}...` : sentence;
+}
 
 /**
  * IMAGE_DESCRIPTION model handler for AiMo Network
- * 
- * TODO: Implement when AiMo Network supports vision/image analysis capabilities
- * 
- * Implementation notes:
- * - Check if AiMo Network provides vision models (e.g., gpt-4o-mini, claude-3-haiku)
- * - Use AI SDK's generateText() with image content
- * - Follow the pattern from @elizaos/plugin-openrouter's image.ts
- * - May need to verify which vision models are available through AiMo
- * 
- * For reference, see: src/models/image.ts in @elizaos/plugin-openrouter
+ *
+ * Sends the image to AIMO_VISION_MODEL as multimodal chat content and parses the
+ * reply into `{ title, description }`.
  */
 export async function handleImageDescription(
   runtime: IAgentRuntime,
   params: ImageDescriptionParams | string,
 ): Promise<{ title: string; description: string }> {
-  logger.warn('IMAGE_DESCRIPTION is not yet supported by AiMo Network. Returning placeholder response.');
-
   let imageUrl: string;
+  let promptText: string | undefined;
   if (typeof params === "string") {
     imageUrl = params;
   } else {
     imageUrl = params.imageUrl;
+    promptText = params.prompt;
+  }
+
+  if (!imageUrl) {
+    throw new Error("IMAGE_DESCRIPTION requires an image URL, data URI or file path");
+  }
+
+  const prompt = promptText?.trim() || DEFAULT_IMAGE_DESCRIPTION_PROMPT;
+  const modelName = getVisionModel(runtime);
+
+  logger.log(`[AiMo] Using IMAGE_DESCRIPTION model: ${modelName}`);
+
+  try {
+    const image = await loadImageContent(imageUrl);
+    const callSize = {
+      inputTokens: estimateTokens(prompt) + DESCRIPTION_IMAGE_TOKEN_ESTIMATE,
+      outputTokens: DESCRIPTION_OUTPUT_TOKEN_ESTIMATE,
+    };
+    const { response, payments, latencyMs } = await withWalletFailover(runtime, modelName, async (wallet) => {
+      const aimoProvider = await getAimoRouterProvider(runtime, wallet);
+      return withRetry(
+        getRetryConfig(runtime),
+        "IMAGE_DESCRIPTION",
+        () =>
+          withBudget(runtime, modelName, callSize, async () => {
+            const startedAt = Date.now();
+            const result = await withRequestTimeout(
+              getTimeoutConfig(runtime),
+              undefined,
+              async (timer) => ({
+                response: await generateText({
+                  model: aimoProvider.chat(modelName) as any,
+                  messages: [
+                    {
+                      role: "user",
+                      content: [{ type: "text", text: prompt }, image],
+                    },
+                  ],
+                  maxRetries: 0,
+                  abortSignal: timer.signal,
+                  headers: timer.headers,
+                }),
+                payments: timer.payments,
+                latencyMs: Date.now() - startedAt,
+              }),
+            );
+            return {
+              result,
+              costUsd:
+                getTotalPaid(result.payments)?.amount ??
+                getUsageCostUsd(runtime, modelName, result.response.usage),
+            };
+          }),
+      );
+    });
+
+    if (response.usage) {
+      emitModelUsageEvent(runtime, ModelType.IMAGE_DESCRIPTION, prompt, response.usage, {
+        model: modelName,
+        latencyMs,
+        payments,
+      });
+    }
+
+    return parseImageDescription(response.text);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`[AiMo] Image description failed: ${message}`);
+    throw error;
   }
+}
+
+/**
+ * Response body of the OpenAI-compatible image generation route
+ */
+interface ImageGenerationResponse {
+  data: { url?: string; b64_json?: string; revised_prompt?: string }[];
+  usage?: { input_tokens?: number; output_tokens?: number; total_tokens?: number };
+}
 
-  // Return placeholder response until AiMo Network supports image analysis
-  return {
-    title: "Image Analysis Not Supported",
-    description: `AiMo Network does not currently support image description/vision capabilities. Image URL: ${imageUrl}`,
-  };
+/**
+ * Detect the image format of base64 data from its leading bytes
+ */
+function detectImageFormat(base64: string): { mediaType: string; extension: string } {
+  const header = atob(base64.slice(0, 16));
+  if (header.charCodeAt(0) === 0xff && header.charCodeAt(1) === 0xd8) {
+    return { mediaType: "image/jpeg", extension: "jpg" };
+  }
+  if (header.startsWith("RIFF")) {
+    return { mediaType: "image/webp", extension: "webp" };
+  }
+  if (header.startsWith("GIF")) {
+    return { mediaType: "image/gif", extension: "gif" };
+  }
+  return { mediaType: "image/png", extension: "png" };
+}
+
+/**
+ * Turn one generated image into a URL the caller can use
+ *
+ * Remote URLs are returned as-is. Base64 images are written to `outputDir` and
+ * returned as file URLs when an output directory is configured, otherwise they
+ * are returned as data URIs.
+ */
+async function toImageUrl(
+  image: ImageGenerationResponse["data"][number],
+  outputDir: string | undefined,
+): Promise<string> {
+  if (image.url) {
+    return image.url;
+  }
+  if (!image.b64_json) {
+    throw new Error("AiMo image response contains neither a URL nor base64 data");
+  }
+
+  const { mediaType, extension } = detectImageFormat(image.b64_json);
+  if (!outputDir) {
+    return `data:${mediaType};base64,${image.b64_json}`;
+  }
+
+  const [{ writeFile }, { join, resolve }, { pathToFileURL }] = await Promise.all([
+    import("node:fs/promises"),
+    import("node:path"),
+    import("node:url"),
+  ]);
+  const filePath = join(resolve(outputDir), `aimo-${Date.now()}-${crypto.randomUUID()}.${extension}`);
+  await writeFile(filePath, Buffer.from(image.b64_json, "base64"));
+  logger.debug(`[AiMo] Saved generated image to ${filePath}`);
+  return pathToFileURL(filePath).toString();
 }
 
 /**
  * IMAGE model handler for image generation
- * 
- * TODO: Implement when AiMo Network supports image generation models
- * 
- * Implementation notes:
- * - Check if AiMo Network provides image generation models
- * - May need to use custom fetch logic if SDK doesn't support image generation
- * - Consider if models like dall-e-3 or similar are available through AiMo
- * - Should handle base64 image data and optionally save to disk
- * 
- * For reference, see: src/models/image.ts in @elizaos/plugin-openrouter
+ *
+ * Calls the OpenAI-compatible `/images/generations` route through the wallet-signed
+ * x402 transport with AIMO_IMAGE_MODEL. Supports `count` and `size`, and both URL
+ * and base64 responses. When AIMO_IMAGE_OUTPUT_DIR is set, base64 images are
+ * written to that directory and returned as file URLs.
  */
 export async function handleImageGeneration(
   runtime: IAgentRuntime,
   params: ImageGenerationParams,
 ): Promise<{ url: string }[]> {
-  logger.warn('IMAGE_GENERATION is not yet supported by AiMo Network. Returning empty result.');
+  if (!params?.prompt?.trim()) {
+    throw new Error("IMAGE generation requires a prompt");
+  }
+  if (params.size !== undefined && !/^\d+x\d+$/.test(params.size)) {
+    throw new Error(`Invalid image size: ${params.size}. Expected WIDTHxHEIGHT, e.g. 1024x1024`);
+  }
 
-  // Return empty array until AiMo Network supports image generation
-  return [];
+  const count = params.count ?? 1;
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`Invalid image count: ${params.count}. Expected a positive integer`);
+  }
+
+  const modelName = getImageModel(runtime);
+  const outputDir = getImageOutputDir(runtime);
+
+  logger.log(`[AiMo] Using IMAGE model: ${modelName}`);
+
+  try {
+    const {
+      data: response,
+      payments,
+      latencyMs,
+    } = await withBudget(runtime, modelName, { images: count }, async () => {
+      const result = await withWalletFailover(runtime, modelName, (wallet) =>
+        aimoPaidRequest<ImageGenerationResponse>(
+          runtime,
+          "/images/generations",
+          {
+            model: modelName,
+            prompt: params.prompt,
+            n: count,
+            ...(params.size && { size: params.size }),
+          },
+          undefined,
+          wallet,
+        ),
+      );
+      return {
+        result,
+        costUsd:
+          getTotalPaid(result.payments)?.amount ??
+          (Array.isArray(result.data?.data)
+            ? getUsageCostUsd(runtime, modelName, undefined, result.data.data.length)
+            : undefined),
+      };
+    });
+
+    // Image responses rarely report usage; the event still carries the payments
+    const inputTokens = response?.usage?.input_tokens ?? 0;
+    const outputTokens = response?.usage?.output_tokens ?? 0;
+    emitModelUsageEvent(runtime, ModelType.IMAGE, params.prompt, {
+      inputTokens,
+      outputTokens,
+      totalTokens: response?.usage?.total_tokens ?? inputTokens + outputTokens,
+    }, { model: modelName, latencyMs, payments });
+
+    if (!Array.isArray(response?.data) || response.data.length === 0) {
+      throw new Error("AiMo image response did not contain any images");
+    }
+
+    if (outputDir) {
+      const [{ mkdir }, { resolve }] = await Promise.all([import("node:fs/promises"), import("node:path")]);
+      await mkdir(resolve(outputDir), { recursive: true });
+    }
+
+    return Promise.all(
+      response.data.map(async (image) => ({ url: await toImageUrl(image, outputDir) })),
+    );
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`[AiMo] Image generation failed: ${message}`);
+    throw error;
+  }
 }
@@ -1,4 +1,4 @@
 export { handleTextSmall, handleTextLarge } from "./text";
 export { handleObjectSmall, handleObjectLarge } from "./object";
-export { handleTextEmbedding } from "./embedding";
+export { handleTextEmbedding, handleTextEmbeddingBatch } from "./embedding";
 export { handleImageDescription, handleImageGeneration } from "./image";
@@ -6,46 +6,125 @@ import {
 } from "@elizaos/core";
 import { generateObject, jsonSchema } from "ai";
 import type { JSONSchema7 } from "json-schema";
-import { createAimoRouterProvider } from "../providers";
-import { getSmallModel, getLargeModel } from "../utils/config";
+import { getAimoRouterProvider } from "../providers";
+import type { AimoObjectGenerationParams } from "../types";
+import {
+  getSmallModelChain,
+  getLargeModelChain,
+  getRetryConfig,
+  getTimeoutConfig,
+} from "../utils/config";
+import { estimateTokens, getUsageCostUsd, withBudget } from "../utils/budget";
 import { emitModelUsageEvent } from "../utils/events";
+import { getTotalPaid } from "../utils/payments";
+import { withModelFallback } from "../utils/fallback";
+import { withWalletFailover } from "../utils/wallets";
+import { buildPromptInput, hasImageInput, promptInputToText } from "../utils/messages";
+import { withRetry } from "../utils/retry";
+import { resolveModelChain } from "../utils/routing";
+import { isResponseCacheable, withResponseCache } from "../utils/response-cache";
+import { withRequestTimeout } from "../utils/timeout";
 import {
   getJsonRepairFunction,
   handleObjectGenerationError,
 } from "../utils/helpers";
 
+/**
+ * Output tokens assumed when estimating the cost of an object generation call,
+ * which has no output limit of its own
+ */
+const OBJECT_OUTPUT_TOKEN_ESTIMATE = 4096;
+
 /**
  * Common object generation logic for both small and large models
+ *
+ * Calls at or below AIMO_RESPONSE_CACHE_MAX_TEMPERATURE are served from the
+ * response cache when it is on.
  */
 async function generateObjectWithModel(
   runtime: IAgentRuntime,
   modelType: typeof ModelType.OBJECT_SMALL | typeof ModelType.OBJECT_LARGE,
-  params: ObjectGenerationParams,
+  params: AimoObjectGenerationParams,
 ): Promise<Record<string, unknown>> {
-  const aimoProvider = await createAimoRouterProvider(runtime);
-  const modelName =
-    modelType === ModelType.OBJECT_SMALL
-      ? getSmallModel(runtime)
-      : getLargeModel(runtime);
+  const input = buildPromptInput(params.prompt, params.messages);
   const modelLabel =
     modelType === ModelType.OBJECT_SMALL ? "OBJECT_SMALL" : "OBJECT_LARGE";
-
-  logger.log(`[AiMo] Using ${modelLabel} model: ${modelName}`);
+  const models = await resolveModelChain(
+    runtime,
+    modelType === ModelType.OBJECT_SMALL
+      ? getSmallModelChain(runtime)
+      : getLargeModelChain(runtime),
+    modelType === ModelType.OBJECT_SMALL ? "small" : "large",
+    { jsonMode: true, vision: hasImageInput(input) },
+    modelLabel,
+  );
   const temperature = params.temperature ?? 0.7;
+  const retryConfig = getRetryConfig(runtime);
+  const timeoutConfig = getTimeoutConfig(runtime);
+  const callSize = {
+    inputTokens: estimateTokens(promptInputToText(input)),
+    outputTokens: OBJECT_OUTPUT_TOKEN_ESTIMATE,
+  };
 
-  try {
-    const { object, usage } = await generateObject({
-      model: aimoProvider.chat(modelName) as any,
-      ...(params.schema && { schema: jsonSchema(params.schema as JSONSchema7) }),
-      output: "no-schema" as any,
-      prompt: params.prompt,
-      temperature: temperature,
+  const cacheable = isResponseCacheable(runtime, temperature);
+
+  const generateWithModelName = async (modelName: string): Promise<Record<string, unknown>> => {
+    logger.log(`[AiMo] Using ${modelLabel} model: ${modelName}`);
+    const { response, payments, latencyMs } = await withWalletFailover(runtime, modelName, async (wallet) => {
+      const aimoProvider = await getAimoRouterProvider(runtime, wallet);
+      return withRetry(
+        retryConfig,
+        `${modelLabel} ${modelName}`,
+        () =>
+          withBudget(runtime, modelName, callSize, async () => {
+            const startedAt = Date.now();
+            const result = await withRequestTimeout(timeoutConfig, params.signal, async (timer) => ({
+              response: await generateObject({
+                model: aimoProvider.chat(modelName) as any,
+                ...(params.schema && { schema: jsonSchema(params.schema as JSONSchema7) }),
+                output: "no-schema" as any,
+                ...input,
+                temperature: temperature,
+                maxRetries: 0,
+                abortSignal: timer.signal,
+                headers: timer.headers,
+              }),
+              payments: timer.payments,
+              latencyMs: Date.now() - startedAt,
+            }));
+            return {
+              result,
+              costUsd:
+                getTotalPaid(result.payments)?.amount ??
+                getUsageCostUsd(runtime, modelName, result.response.usage),
+            };
+          }),
+        params.signal,
+      );
     });
 
-    if (usage) {
-      emitModelUsageEvent(runtime, modelType, params.prompt, usage);
+    if (response.usage) {
+      emitModelUsageEvent(runtime, modelType, promptInputToText(input), response.usage, {
+        model: modelName,
+        latencyMs,
+        payments,
+      });
     }
-    return object as Record<string, unknown>;
+    return response.object as Record<string, unknown>;
+  };
+
+  try {
+    return await withModelFallback(models, modelLabel, (modelName) =>
+      cacheable
+        ? withResponseCache(
+            runtime,
+            modelType,
+            { kind: "object", model: modelName, ...input, schema: params.schema ?? null, temperature },
+            promptInputToText(input),
+            () => generateWithModelName(modelName),
+          )
+        : generateWithModelName(modelName),
+    );
   } catch (error: unknown) {
     return handleObjectGenerationError(error);
   }
@@ -56,7 +135,7 @@ async function generateObjectWithModel(
  */
 export async function handleObjectSmall(
   runtime: IAgentRuntime,
-  params: ObjectGenerationParams,
+  params: ObjectGenerationParams | AimoObjectGenerationParams,
 ): Promise<Record<string, unknown>> {
   return generateObjectWithModel(runtime, ModelType.OBJECT_SMALL, params);
 }
@@ -66,7 +145,7 @@ export async function handleObjectSmall(
  */
 export async function handleObjectLarge(
   runtime: IAgentRuntime,
-  params: ObjectGenerationParams,
+  params: ObjectGenerationParams | AimoObjectGenerationParams,
 ): Promise<Record<string, unknown>> {
   return generateObjectWithModel(runtime, ModelType.OBJECT_LARGE, params);
 }
@@ -4,48 +4,170 @@ import type {
   TextStreamResult,
 } from "@elizaos/core";
 import { logger, ModelType } from "@elizaos/core";
-import { generateText, streamText } from "ai";
+import { generateText, stepCountIs, streamText, wrapLanguageModel } from "ai";
 
-import { createAimoRouterProvider } from "../providers";
-import { getSmallModel, getLargeModel } from "../utils/config";
-import { emitModelUsageEvent } from "../utils/events";
+import { getAimoRouterProvider } from "../providers";
+import type {
+  AimoGenerateTextParams,
+  AimoTextGenerationResult,
+  AimoTextStreamResult,
+} from "../types";
+import {
+  getSmallModelChain,
+  getLargeModelChain,
+  getMaxToolSteps,
+  getRetryConfig,
+  getTimeoutConfig,
+} from "../utils/config";
+import { getErrorDetails } from "../utils/errors";
+import {
+  estimateTokens,
+  getUsageCostUsd,
+  reserveBudget,
+  withBudget,
+  type BudgetReservation,
+} from "../utils/budget";
+import { emitModelUsageEvent, type ModelUsage } from "../utils/events";
+import { getTotalPaid } from "../utils/payments";
+import { withModelFallback } from "../utils/fallback";
+import { withWalletFailover } from "../utils/wallets";
+import { buildPromptInput, hasImageInput, hasSystemMessage, promptInputToText } from "../utils/messages";
+import { withRetry } from "../utils/retry";
+import { getMaxOutputTokens, routeByContextLength } from "../utils/context";
+import { isResponseCacheable, withResponseCache } from "../utils/response-cache";
+import { createRequestTimer, withRequestTimeout, type RequestTimer } from "../utils/timeout";
+import { buildToolSet, collectToolActivity, toToolChoice } from "../utils/tools";
+
+/**
+ * Convert AI SDK usage into the ElizaOS token usage shape
+ */
+function toTokenUsage(usage: ModelUsage) {
+  const inputTokens = usage.inputTokens ?? 0;
+  const outputTokens = usage.outputTokens ?? 0;
+  return {
+    promptTokens: inputTokens,
+    completionTokens: outputTokens,
+    totalTokens: inputTokens + outputTokens,
+  };
+}
 
 /**
  * Build common generation parameters for both streaming and non-streaming modes
  */
 async function buildGenerateParams(
   runtime: IAgentRuntime,
-  modelType: typeof ModelType.TEXT_SMALL | typeof ModelType.TEXT_LARGE,
-  params: GenerateTextParams,
+  modelName: string,
+  wallet: string,
+  params: AimoGenerateTextParams,
 ) {
-  const { prompt, stopSequences = [] } = params;
+  const { stopSequences = [] } = params;
+  const input = buildPromptInput(params.prompt, params.messages);
+  const prompt = promptInputToText(input);
   const temperature = params.temperature ?? 0.7;
   const frequencyPenalty = params.frequencyPenalty ?? 0.7;
   const presencePenalty = params.presencePenalty ?? 0.7;
-  const resolvedMaxOutput =
-    (params as any).maxOutputTokens ?? (params as any).maxTokens ?? 8192;
+  const resolvedMaxOutput = getMaxOutputTokens(params);
 
-  const aimoProvider = await createAimoRouterProvider(runtime);
-  const modelName =
-    modelType === ModelType.TEXT_SMALL
-      ? getSmallModel(runtime)
-      : getLargeModel(runtime);
-  const modelLabel =
-    modelType === ModelType.TEXT_SMALL ? "TEXT_SMALL" : "TEXT_LARGE";
+  const aimoProvider = await getAimoRouterProvider(runtime, wallet);
+  const model = aimoProvider.chat(modelName);
 
   const generateParams: Parameters<typeof generateText>[0] = {
-    model: aimoProvider.chat(modelName) as any,
-    prompt: prompt,
-    system: runtime.character.system ?? undefined,
+    model,
+    ...input,
+    // A system message in the conversation replaces the character system prompt
+    system: hasSystemMessage(input)
+      ? undefined
+      : (runtime.character.system ?? undefined),
     temperature: temperature,
     frequencyPenalty: frequencyPenalty,
     presencePenalty: presencePenalty,
     stopSequences: stopSequences,
+    maxOutputTokens: resolvedMaxOutput,
+    // Retries are handled by withRetry so they also cover stream start-up
+    maxRetries: 0,
+  };
+
+  const hasTools = !!params.tools && Object.keys(params.tools).length > 0;
+  // A caller may lower the operator's step limit, never raise it
+  const maxSteps = !hasTools
+    ? 1
+    : params.maxSteps && params.maxSteps > 0
+      ? Math.min(params.maxSteps, getMaxToolSteps(runtime))
+      : getMaxToolSteps(runtime);
+  if (hasTools) {
+    generateParams.tools = buildToolSet(params.tools!);
+    generateParams.toolChoice = toToolChoice(params.toolChoice);
+    // Let the model see tool results and answer, up to the step limit
+    generateParams.stopWhen = stepCountIs(maxSteps);
+  }
+
+  // Worst-case size of the call for budget checks; a tool loop pays for up to
+  // maxSteps model calls, each resending the prompt
+  const callSize = {
+    inputTokens:
+      estimateTokens([generateParams.system, prompt].filter(Boolean).join("\n")) * maxSteps,
+    outputTokens: resolvedMaxOutput * maxSteps,
   };
 
-  (generateParams as any).maxOutputTokens = resolvedMaxOutput;
+  return { generateParams, model, prompt, hasTools, callSize };
+}
+
+/**
+ * Wait for the first output of a stream so provider errors surface before the
+ * stream is handed to the caller
+ *
+ * Reads a separate branch of the stream; the caller's textStream still starts
+ * from the first chunk.
+ *
+ * @throws The stream error if the stream fails before producing any output
+ */
+async function primeStream(
+  streamResult: ReturnType<typeof streamText>,
+): Promise<void> {
+  const reader = streamResult.fullStream.getReader();
+  try {
+    while (true) {
+      const { done, value: part } = await reader.read();
+      if (done) {
+        return;
+      }
+      if (part.type === "error") {
+        throw part.error;
+      }
+      if (
+        part.type === "text-delta" ||
+        part.type === "reasoning-delta" ||
+        part.type === "tool-call" ||
+        part.type === "finish" ||
+        part.type === "abort"
+      ) {
+        return;
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
 
-  return { generateParams, modelName, modelLabel, prompt };
+/**
+ * Pass a text stream through, failing it with the timeout error if it was cut off
+ *
+ * Depending on where the abort lands, the AI SDK either ends the stream quietly
+ * (which would look like a complete but short answer) or fails it with a
+ * wrapped error; both surface as the AimoTimeoutError.
+ */
+async function* throwOnTimeout(
+  stream: AsyncIterable<string>,
+  timer: RequestTimer,
+): AsyncIterable<string> {
+  try {
+    yield* stream;
+  } catch (error: unknown) {
+    throw timer.error ?? error;
+  }
+  if (timer.error) {
+    throw timer.error;
+  }
 }
 
 /**
@@ -56,42 +178,105 @@ async function handleStreamingGeneration(
   modelType: typeof ModelType.TEXT_SMALL | typeof ModelType.TEXT_LARGE,
   generateParams: Parameters<typeof streamText>[0],
   prompt: string,
+  modelName: string,
   modelLabel: string,
-): Promise<TextStreamResult> {
+  hasTools: boolean,
+  signal: AbortSignal | undefined,
+  reservation: BudgetReservation,
+): Promise<TextStreamResult | AimoTextStreamResult> {
   logger.debug(`[AiMo] Streaming text with ${modelLabel} model`);
 
-  const streamResult = await streamText(generateParams);
+  // The request timeout covers the wait for the first chunk, the idle timeout
+  // every gap after it
+  const timer = createRequestTimer(getTimeoutConfig(runtime), signal);
+  const startedAt = Date.now();
+
+  const streamResult = streamText({
+    ...generateParams,
+    abortSignal: timer.signal,
+    headers: timer.headers,
+    onChunk: () => timer.markChunk(),
+    onFinish: () => timer.dispose(),
+    onAbort: () => timer.dispose(),
+    // Errors before the first chunk are rethrown by primeStream, later ones
+    // reject the text and usage promises
+    onError: ({ error }) => {
+      timer.dispose();
+      logger.debug(`[AiMo] ${modelLabel} stream error from ${modelName}: ${getErrorDetails(error).message}`);
+    },
+  });
+
+  try {
+    await primeStream(streamResult);
+  } catch (error: unknown) {
+    timer.dispose();
+    throw timer.error ?? error;
+  }
+  if (timer.error) {
+    throw timer.error;
+  }
+
+  // A tool loop spans several steps, so report usage across all of them
+  const usage = hasTools ? streamResult.totalUsage : streamResult.usage;
+
+  // Record the spend once the stream settles; a stream that failed after its
+  // first chunk was still paid for, so it is charged at the estimate
+  timer.guard(usage).then(
+    (usage) =>
+      reservation.commit(
+        getTotalPaid(timer.payments)?.amount ??
+          getUsageCostUsd(runtime, modelName, usage) ??
+          reservation.estimateUsd,
+      ),
+    () =>
+      reservation.commit(getTotalPaid(timer.payments)?.amount ?? reservation.estimateUsd),
+  );
 
+  const result: TextStreamResult = {
+    textStream: throwOnTimeout(streamResult.textStream, timer),
+    text: timer.guard(streamResult.text),
+    usage: timer.guard(
+      usage.then((usage: any) => {
+        if (usage) {
+          emitModelUsageEvent(runtime, modelType, prompt, usage, {
+            model: modelName,
+            latencyMs: Date.now() - startedAt,
+            payments: timer.payments,
+          });
+          return toTokenUsage(usage);
+        }
+        return undefined;
+      }),
+    ),
+    finishReason: timer.guard(streamResult.finishReason),
+  };
+
+  if (!hasTools) {
+    return result;
+  }
+
+  const activity = Promise.resolve(streamResult.steps).then(collectToolActivity);
   return {
-    textStream: streamResult.textStream,
-    text: streamResult.text,
-    usage: streamResult.usage.then((usage: any) => {
-      if (usage) {
-        emitModelUsageEvent(runtime, modelType, prompt, usage);
-        const inputTokens = usage.inputTokens ?? 0;
-        const outputTokens = usage.outputTokens ?? 0;
-        return {
-          promptTokens: inputTokens,
-          completionTokens: outputTokens,
-          totalTokens: inputTokens + outputTokens,
-        };
-      }
-      return undefined;
-    }),
-    finishReason: streamResult.finishReason,
+    ...result,
+    toolCalls: timer.guard(activity.then((activity) => activity.toolCalls)),
+    toolResults: timer.guard(activity.then((activity) => activity.toolResults)),
+    steps: timer.guard(activity.then((activity) => activity.steps)),
   };
 }
 
 /**
- * Common text generation logic for both small and large models
+ * Generate text with one model of the fallback chain
  */
-async function generateTextWithModel(
+async function generateTextWithModelName(
   runtime: IAgentRuntime,
   modelType: typeof ModelType.TEXT_SMALL | typeof ModelType.TEXT_LARGE,
-  params: GenerateTextParams,
-): Promise<string | TextStreamResult> {
-  const { generateParams, modelName, modelLabel, prompt } =
-    await buildGenerateParams(runtime, modelType, params);
+  modelName: string,
+  modelLabel: string,
+  wallet: string,
+  params: AimoGenerateTextParams,
+): Promise<string | TextStreamResult | AimoTextGenerationResult> {
+  const { generateParams, model: languageModel, prompt, hasTools, callSize } =
+    await buildGenerateParams(runtime, modelName, wallet, params);
 
   logger.debug(
     `[AiMo] Generating text with ${modelLabel} model: ${modelName}`,
@@ -99,23 +284,167 @@ async function generateTextWithModel(
 
   // Handle streaming mode
   if (params.stream) {
-    return handleStreamingGeneration(
-      runtime,
-      modelType,
-      generateParams,
-      prompt,
-      modelLabel,
-    );
+    const reservation = await reserveBudget(runtime, modelName, callSize);
+    try {
+      return await handleStreamingGeneration(
+        runtime,
+        modelType,
+        generateParams,
+        prompt,
+        modelName,
+        modelLabel,
+        hasTools,
+        params.signal,
+        reservation,
+      );
+    } catch (error: unknown) {
+      reservation.release();
+      throw error;
+    }
   }
 
-  // Non-streaming mode
-  const response = await generateText(generateParams);
+  // Non-streaming mode. A tool loop retries each model step on its own, so a
+  // failed step never replays earlier steps, their tool executions or payments
+  const model = hasTools
+    ? wrapLanguageModel({
+        model: languageModel,
+        middleware: {
+          specificationVersion: "v3",
+          wrapGenerate: ({ doGenerate }) =>
+            withRetry(getRetryConfig(runtime), `${modelLabel} ${modelName} step`, doGenerate, params.signal),
+        },
+      })
+    : generateParams.model;
+  const startedAt = Date.now();
+  const { response, payments } = await withBudget(runtime, modelName, callSize, async () => {
+    const result = await withRequestTimeout(
+      getTimeoutConfig(runtime),
+      params.signal,
+      async (timer) => ({
+        response: await generateText({
+          ...generateParams,
+          model,
+          abortSignal: timer.signal,
+          headers: timer.headers,
+        }),
+        payments: timer.payments,
+      }),
+    );
+    return {
+      result,
+      costUsd:
+        getTotalPaid(result.payments)?.amount ??
+        getUsageCostUsd(
+          runtime,
+          modelName,
+          hasTools ? result.response.totalUsage : result.response.usage,
+        ),
+    };
+  });
+  const usageDetails = { model: modelName, latencyMs: Date.now() - startedAt, payments };
 
-  if (response.usage) {
-    emitModelUsageEvent(runtime, modelType, prompt, response.usage);
+  if (!hasTools) {
+    if (response.usage) {
+      emitModelUsageEvent(runtime, modelType, prompt, response.usage, usageDetails);
+    }
+    return response.text;
   }
 
-  return response.text;
+  if (response.totalUsage) {
+    emitModelUsageEvent(runtime, modelType, prompt, response.totalUsage, usageDetails);
+  }
+
+  const { steps, toolCalls, toolResults } = collectToolActivity(response.steps);
+  logger.debug(
+    `[AiMo] Tool loop finished after ${steps.length} step(s) with ${toolCalls.length} tool call(s)`,
+  );
+
+  return {
+    text: response.text,
+    toolCalls,
+    toolResults,
+    steps,
+    finishReason: response.finishReason,
+    usage: response.totalUsage ? toTokenUsage(response.totalUsage) : undefined,
+  };
+}
+
+/**
+ * Common text generation logic for both small and large models
+ *
+ * Transient failures are retried per model (AIMO_RETRY_*), or per step in a
+ * non-streaming tool loop, then AIMO_SMALL_MODEL_FALLBACKS / AIMO_LARGE_MODEL_FALLBACKS are walked when the
+ * model still fails with a route-specific error. Within a model, a wallet that
+ * fails to pay is replaced by the next one in AIMO_WALLETS. A model set to
+ * "auto" is replaced by the cheapest catalog models that can serve the call, and
+ * a prompt too long for the model is upgraded or trimmed per AIMO_CONTEXT_POLICY.
+ * Plain deterministic calls are served from the response cache when it is on.
+ */
+async function generateTextWithModel(
+  runtime: IAgentRuntime,
+  modelType: typeof ModelType.TEXT_SMALL | typeof ModelType.TEXT_LARGE,
+  params: AimoGenerateTextParams,
+): Promise<string | TextStreamResult | AimoTextGenerationResult> {
+  const modelLabel =
+    modelType === ModelType.TEXT_SMALL ? "TEXT_SMALL" : "TEXT_LARGE";
+  const hasTools = !!params.tools && Object.keys(params.tools).length > 0;
+  const route = await routeByContextLength(
+    runtime,
+    modelType === ModelType.TEXT_SMALL ? "small" : "large",
+    modelType === ModelType.TEXT_SMALL
+      ? getSmallModelChain(runtime)
+      : getLargeModelChain(runtime),
+    params,
+    {
+      tools: hasTools,
+      vision: hasImageInput(buildPromptInput(params.prompt, params.messages)),
+    },
+    modelLabel,
+  );
+
+  // A non-streaming tool loop retries per step (see generateTextWithModelName)
+  const retryConfig =
+    hasTools && !route.params.stream
+      ? { ...getRetryConfig(runtime), maxAttempts: 1 }
+      : getRetryConfig(runtime);
+  // Only plain text responses are cached; streams and tool loops always run
+  const cacheable =
+    !route.params.stream &&
+    !hasTools &&
+    isResponseCacheable(runtime, route.params.temperature ?? 0.7);
+
+  return withModelFallback(route.models, modelLabel, (modelName) => {
+    const generate = () =>
+      withWalletFailover(runtime, modelName, (wallet) =>
+        withRetry(
+          retryConfig,
+          `${modelLabel} ${modelName}`,
+          () => generateTextWithModelName(runtime, modelType, modelName, modelLabel, wallet, route.params),
+          params.signal,
+        ),
+      );
+    if (!cacheable) {
+      return generate();
+    }
+    const input = buildPromptInput(route.params.prompt, route.params.messages);
+    return withResponseCache(
+      runtime,
+      modelType,
+      {
+        kind: "text",
+        model: modelName,
+        ...input,
+        system: hasSystemMessage(input) ? undefined : runtime.character.system,
+        temperature: route.params.temperature ?? 0.7,
+        frequencyPenalty: route.params.frequencyPenalty ?? 0.7,
+        presencePenalty: route.params.presencePenalty ?? 0.7,
+        maxOutputTokens: getMaxOutputTokens(route.params),
+        stopSequences: route.params.stopSequences ?? [],
+      },
+      promptInputToText(input),
+      generate,
+    );
+  });
 }
 
 /**
@@ -124,11 +453,13 @@ async function generateTextWithModel(
  * Returns:
  * - `string` for simple text generation
  * - `TextStreamResult` for streaming
+ * - `AimoTextGenerationResult` when `tools` are given (streaming adds
+ *   `toolCalls`, `toolResults` and `steps` promises to the stream result)
  */
 export async function handleTextSmall(
   runtime: IAgentRuntime,
-  params: GenerateTextParams,
-): Promise<string | TextStreamResult> {
+  params: GenerateTextParams | AimoGenerateTextParams,
+): Promise<string | TextStreamResult | AimoTextGenerationResult> {
   return generateTextWithModel(runtime, ModelType.TEXT_SMALL, params);
 }
 
@@ -138,10 +469,12 @@ export async function handleTextSmall(
  * Returns:
  * - `string` for simple text generation
  * - `TextStreamResult` for streaming
+ * - `AimoTextGenerationResult` when `tools` are given (streaming adds
+ *   `toolCalls`, `toolResults` and `steps` promises to the stream result)
  */
 export async function handleTextLarge(
   runtime: IAgentRuntime,
-  params: GenerateTextParams,
-): Promise<string | TextStreamResult> {
+  params: GenerateTextParams | AimoGenerateTextParams,
+): Promise<string | TextStreamResult | AimoTextGenerationResult> {
   return generateTextWithModel(runtime, ModelType.TEXT_LARGE, params);
 }
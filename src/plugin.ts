@@ -8,12 +8,19 @@ import {
   type ImageDescriptionParams,
   type ImageGenerationParams,
   type TextEmbeddingParams,
+  type TextStreamResult,
 } from '@elizaos/core';
 import { initializeAimoRouter } from './init';
 import { handleTextSmall, handleTextLarge } from './models/text';
 import { handleObjectSmall, handleObjectLarge } from './models/object';
 import { handleImageDescription, handleImageGeneration } from './models/image';
 import { handleTextEmbedding } from './models/embedding';
+import { aimoWalletProvider } from './providers/wallet';
+import { validateConfiguredModels } from './utils/catalog';
+import { getModelValidationMode } from './utils/config';
+
+// Browsers have no process environment; settings then come from the character
+const env: Record<string, string | undefined> = globalThis.process?.env ?? {};
 
 /**
  * Defines the AiMo Router plugin with its name, description, and configuration options.
@@ -25,11 +32,12 @@ import { handleTextEmbedding } from './models/embedding';
  * - TEXT_LARGE: Text generation with larger models
  * - OBJECT_SMALL: Structured object generation with smaller models
  * - OBJECT_LARGE: Structured object generation with larger models
- * 
- * Not yet supported (planned for future releases):
- * - TEXT_EMBEDDING: Text embeddings (when AiMo Network supports them)
- * - IMAGE_DESCRIPTION: Image analysis (when AiMo Network supports vision models)
- * - IMAGE: Image generation (when AiMo Network supports image models)
+ * - TEXT_EMBEDDING: Text embeddings via the OpenAI-compatible embeddings route
+ * - IMAGE_DESCRIPTION: Image analysis with vision-capable chat models
+ * - IMAGE: Image generation via the OpenAI-compatible image generation route
+ *
+ * Providers:
+ * - AIMO_WALLET: Wallet address, chain and session balance the agent pays from
  * 
  * @type {Plugin}
  */
@@ -37,31 +45,85 @@ export const aimoRouterPlugin: Plugin = {
   name: 'aimo-router',
   description: 'AiMo Network plugin - decentralized AI inference marketplace using SVM/EVM wallet signing',
   config: {
-    AIMO_WALLET_TYPE: process.env.AIMO_WALLET_TYPE,
-    AIMO_PRIVATE_KEY: process.env.AIMO_PRIVATE_KEY,
-    AIMO_CHAIN_ID: process.env.AIMO_CHAIN_ID,
-    AIMO_BASE_URL: process.env.AIMO_BASE_URL,
-    AIMO_SMALL_MODEL: process.env.AIMO_SMALL_MODEL,
-    AIMO_LARGE_MODEL: process.env.AIMO_LARGE_MODEL,
-    SMALL_MODEL: process.env.SMALL_MODEL,
-    LARGE_MODEL: process.env.LARGE_MODEL,
+    AIMO_WALLET_TYPE: env.AIMO_WALLET_TYPE,
+    AIMO_PRIVATE_KEY: env.AIMO_PRIVATE_KEY,
+    AIMO_PRIVATE_KEY_FILE: env.AIMO_PRIVATE_KEY_FILE,
+    AIMO_KEYSTORE_PASSWORD: env.AIMO_KEYSTORE_PASSWORD,
+    AIMO_MNEMONIC: env.AIMO_MNEMONIC,
+    AIMO_DERIVATION_PATH: env.AIMO_DERIVATION_PATH,
+    AIMO_ACCOUNT_INDEX: env.AIMO_ACCOUNT_INDEX,
+    AIMO_REMOTE_SIGNER_URL: env.AIMO_REMOTE_SIGNER_URL,
+    AIMO_REMOTE_SIGNER_SECRET: env.AIMO_REMOTE_SIGNER_SECRET,
+    AIMO_PROXY_URL: env.AIMO_PROXY_URL,
+    AIMO_PROXY_TOKEN: env.AIMO_PROXY_TOKEN,
+    AIMO_WALLETS: env.AIMO_WALLETS,
+    AIMO_WALLET_STRATEGY: env.AIMO_WALLET_STRATEGY,
+    AIMO_WALLET_COOLDOWN_MS: env.AIMO_WALLET_COOLDOWN_MS,
+    AIMO_CHAIN_ID: env.AIMO_CHAIN_ID,
+    AIMO_BASE_URL: env.AIMO_BASE_URL,
+    AIMO_SMALL_MODEL: env.AIMO_SMALL_MODEL,
+    AIMO_LARGE_MODEL: env.AIMO_LARGE_MODEL,
+    AIMO_SMALL_MODEL_FALLBACKS: env.AIMO_SMALL_MODEL_FALLBACKS,
+    AIMO_LARGE_MODEL_FALLBACKS: env.AIMO_LARGE_MODEL_FALLBACKS,
+    AIMO_SMALL_MODEL_REQUIREMENTS: env.AIMO_SMALL_MODEL_REQUIREMENTS,
+    AIMO_LARGE_MODEL_REQUIREMENTS: env.AIMO_LARGE_MODEL_REQUIREMENTS,
+    AIMO_CONTEXT_POLICY: env.AIMO_CONTEXT_POLICY,
+    AIMO_LONG_CONTEXT_MODEL: env.AIMO_LONG_CONTEXT_MODEL,
+    SMALL_MODEL: env.SMALL_MODEL,
+    LARGE_MODEL: env.LARGE_MODEL,
+    AIMO_VISION_MODEL: env.AIMO_VISION_MODEL,
+    AIMO_IMAGE_MODEL: env.AIMO_IMAGE_MODEL,
+    AIMO_IMAGE_OUTPUT_DIR: env.AIMO_IMAGE_OUTPUT_DIR,
+    AIMO_EMBEDDING_MODEL: env.AIMO_EMBEDDING_MODEL,
+    AIMO_EMBEDDING_DIMENSIONS: env.AIMO_EMBEDDING_DIMENSIONS,
+    AIMO_EMBEDDING_BATCH_SIZE: env.AIMO_EMBEDDING_BATCH_SIZE,
+    AIMO_EMBEDDING_BATCH_WINDOW_MS: env.AIMO_EMBEDDING_BATCH_WINDOW_MS,
+    AIMO_MAX_TOOL_STEPS: env.AIMO_MAX_TOOL_STEPS,
+    AIMO_RETRY_MAX_ATTEMPTS: env.AIMO_RETRY_MAX_ATTEMPTS,
+    AIMO_RETRY_BASE_DELAY_MS: env.AIMO_RETRY_BASE_DELAY_MS,
+    AIMO_RETRY_MAX_DELAY_MS: env.AIMO_RETRY_MAX_DELAY_MS,
+    AIMO_RETRY_JITTER: env.AIMO_RETRY_JITTER,
+    AIMO_REQUEST_TIMEOUT_MS: env.AIMO_REQUEST_TIMEOUT_MS,
+    AIMO_STREAM_IDLE_TIMEOUT_MS: env.AIMO_STREAM_IDLE_TIMEOUT_MS,
+    AIMO_MAX_USD_PER_CALL: env.AIMO_MAX_USD_PER_CALL,
+    AIMO_MAX_USD_PER_DAY: env.AIMO_MAX_USD_PER_DAY,
+    AIMO_MAX_USD_PER_MODEL: env.AIMO_MAX_USD_PER_MODEL,
+    AIMO_MODEL_PRICING: env.AIMO_MODEL_PRICING,
+    AIMO_LOW_BALANCE_USD: env.AIMO_LOW_BALANCE_USD,
+    AIMO_BALANCE_CHECK_INTERVAL_MS: env.AIMO_BALANCE_CHECK_INTERVAL_MS,
+    AIMO_MODEL_VALIDATION: env.AIMO_MODEL_VALIDATION,
+    AIMO_MODEL_CATALOG_TTL_MS: env.AIMO_MODEL_CATALOG_TTL_MS,
+    AIMO_RESPONSE_CACHE: env.AIMO_RESPONSE_CACHE,
+    AIMO_RESPONSE_CACHE_TTL_MS: env.AIMO_RESPONSE_CACHE_TTL_MS,
+    AIMO_RESPONSE_CACHE_MAX_ENTRIES: env.AIMO_RESPONSE_CACHE_MAX_ENTRIES,
+    AIMO_RESPONSE_CACHE_MAX_BYTES: env.AIMO_RESPONSE_CACHE_MAX_BYTES,
+    AIMO_RESPONSE_CACHE_DIR: env.AIMO_RESPONSE_CACHE_DIR,
+    AIMO_RESPONSE_CACHE_MAX_TEMPERATURE: env.AIMO_RESPONSE_CACHE_MAX_TEMPERATURE,
   },
   async init(config, runtime) {
     // Initialize AiMo Router configuration (validation runs in background)
     initializeAimoRouter(config, runtime);
+
+    // Strict model validation blocks startup so that an unknown model fails the agent early
+    if (getModelValidationMode(runtime) === 'strict') {
+      await validateConfiguredModels(runtime);
+    }
   },
+  providers: [aimoWalletProvider],
   models: {
     [ModelType.TEXT_SMALL]: async (
       runtime: IAgentRuntime,
       params: GenerateTextParams
     ) => {
-      return handleTextSmall(runtime, params);
+      // Structured tool results pass through to callers that requested tools
+      return handleTextSmall(runtime, params) as Promise<string | TextStreamResult>;
     },
     [ModelType.TEXT_LARGE]: async (
       runtime: IAgentRuntime,
       params: GenerateTextParams
     ) => {
-      return handleTextLarge(runtime, params);
+      // Structured tool results pass through to callers that requested tools
+      return handleTextLarge(runtime, params) as Promise<string | TextStreamResult>;
     },
     [ModelType.OBJECT_SMALL]: async (runtime: IAgentRuntime, params: ObjectGenerationParams) => {
       return handleObjectSmall(runtime, params);
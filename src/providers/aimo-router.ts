@@ -1,51 +1,462 @@
 import { aimoNetwork } from "@aimo.network/provider";
+import {
+  AimoClient,
+  ApiBase,
+  wrapFetchWithSigner,
+  type SessionBalanceResponse,
+} from "@aimo.network/client";
 import { logger, type IAgentRuntime } from "@elizaos/core";
-import { getSignerConfig, getBaseURL } from "../utils/config";
-import { createSignerFromConfig } from "../utils/signer";
+import { sha256, stringToBytes } from "viem";
+import { getBaseURL, getRetryConfig, getTimeoutConfig, getWalletConfigs } from "../utils/config";
+import type { createSignerFromConfig, SignerConfig, WalletType } from "../utils/signer";
+import { AimoRequestError } from "../utils/errors";
+import { addFailedCallPayments, getFailedCallPayments, type PaymentDetails } from "../utils/payments";
+import { withRetry } from "../utils/retry";
+import { trackResponses, withRequestTimeout } from "../utils/timeout";
+import { resetWalletState, selectWallet } from "../utils/wallets";
+import { ProxySigner, withProxyToken } from "../utils/proxy";
 import type { LanguageModelV3 } from "@ai-sdk/provider";
 
 /**
- * Create an AimoRouter provider instance with proper configuration
- *
- * @param runtime The runtime context
- * @returns Configured AimoRouter provider instance
- * @throws Error if running in browser (not supported yet)
- * @throws Error if wallet configuration is invalid
+ * AimoRouter provider instance used by the model handlers
  */
-export async function createAimoRouterProvider(runtime: IAgentRuntime): Promise<{
+export type AimoRouterProvider = {
   chat: (modelId: string) => LanguageModelV3;
-}> {
+};
+
+/**
+ * Cached signer and provider for a single runtime
+ */
+interface ProviderEntry {
+  fingerprint: string;
+  signer: Awaited<ReturnType<typeof createSignerFromConfig>>;
+  /** Configured wallet type, or the proxy's when AIMO_WALLET_TYPE is unset */
+  walletType: WalletType;
+  provider: AimoRouterProvider;
+  /** fetch wrapped with SIWx authentication and x402 payment handling */
+  fetch: typeof globalThis.fetch;
+  /** Client for AiMo account routes such as the session balance */
+  client: AimoClient;
+  baseURL: string;
+}
+
+/**
+ * Per-runtime registry of live providers, one per wallet name.
+ *
+ * Entries are stored as promises so that concurrent model calls made while the
+ * signer is still being created share a single build instead of racing.
+ */
+const providerRegistry = new WeakMap<IAgentRuntime, Map<string, Promise<ProviderEntry>>>();
+
+/**
+ * Compute a fingerprint over the settings the signer and provider depend on.
+ * The private key is hashed so the registry never keeps a second plain copy of it.
+ * A key file is fingerprinted by its path and modification time, so a rotated
+ * key is picked up without reading the file on every call.
+ */
+async function getProviderFingerprint(signerConfig: SignerConfig, baseURL: string): Promise<string> {
+  const keyFileModifiedAt = signerConfig.privateKeyFile
+    ? await (await import("node:fs/promises")).stat(signerConfig.privateKeyFile).then(
+        (info) => info.mtimeMs,
+        // Leave the error to createSignerFromConfig
+        () => 0,
+      )
+    : 0;
+  return sha256(
+    stringToBytes(
+      JSON.stringify([
+        signerConfig.walletType ?? "",
+        signerConfig.privateKey?.trim() ?? "",
+        signerConfig.privateKeyFile ?? "",
+        keyFileModifiedAt,
+        signerConfig.mnemonic?.trim() ?? "",
+        signerConfig.remoteSignerUrl ?? "",
+        signerConfig.proxyUrl ?? "",
+        signerConfig.keystorePassword ?? "",
+        signerConfig.derivationPath ?? "",
+        signerConfig.accountIndex ?? 0,
+        signerConfig.remoteSignerSecret ?? "",
+        signerConfig.proxyToken ?? "",
+        signerConfig.chainId ?? "",
+        baseURL,
+      ]),
+    ),
+  );
+}
+
+/**
+ * Ensure a key is not used in a browser
+ *
+ * Browsers may only go through a signing proxy, which keeps the key on a server.
+ *
+ * @throws Error if running in browser without AIMO_PROXY_URL
+ */
+function assertNodeEnvironment(signerConfig: SignerConfig): void {
   const isBrowser =
     typeof globalThis !== "undefined" && (globalThis as any).document;
-  
-  // Browser support not implemented yet
+
   // Future implementations could use:
   // - WalletConnect for browser-based wallet signing
-  // - Proxy server that holds wallet credentials
   // - SIWx (Sign-In-With-X) integration with wallet apps
-  if (isBrowser) {
+  if (isBrowser && !signerConfig.proxyUrl) {
     throw new Error(
-      "AiMo plugin does not support browser execution. Please use Node.js environment. " +
-      "Browser support is planned for future releases using WalletConnect or proxy-based solutions."
+      "AiMo plugin does not hold wallet keys in a browser. Please use Node.js environment, " +
+      "or set AIMO_PROXY_URL and AIMO_PROXY_TOKEN to pay through a signing proxy."
     );
   }
-  
-  const signerConfig = getSignerConfig(runtime);
+}
+
+/**
+ * Read the configuration of a wallet from the runtime
+ *
+ * @param walletName Wallet to use; unset for the wallet selected by AIMO_WALLET_STRATEGY
+ * @throws Error if wallet configuration is incomplete or the wallet is unknown
+ */
+function resolveProviderSettings(
+  runtime: IAgentRuntime,
+  walletName?: string,
+): {
+  walletName: string;
+  signerConfig: SignerConfig;
+  baseURL: string;
+} {
   const baseURL = getBaseURL(runtime);
-  
-  if (!signerConfig) {
+
+  const wallet = walletName
+    ? getWalletConfigs(runtime).find((config) => config.name === walletName)
+    : selectWallet(runtime);
+  if (!wallet) {
+    if (walletName) {
+      throw new Error(`Unknown AiMo wallet "${walletName}"`);
+    }
     throw new Error(
-      "AiMo wallet configuration is incomplete. Please set AIMO_WALLET_TYPE and AIMO_PRIVATE_KEY environment variables."
+      "AiMo wallet configuration is incomplete. Please set AIMO_WALLET_TYPE and AIMO_PRIVATE_KEY environment variables, or AIMO_WALLETS."
     );
   }
-  
-  // Create signer from configuration (SVM or EVM)
+
+  const { name, models: _models, ...signerConfig } = wallet;
+  return { walletName: name, signerConfig, baseURL };
+}
+
+/**
+ * Get the provider builds of a runtime, dropping those of wallets that are no longer configured
+ */
+function getRuntimeEntries(runtime: IAgentRuntime): Map<string, Promise<ProviderEntry>> {
+  let entries = providerRegistry.get(runtime);
+  if (!entries) {
+    entries = new Map();
+    providerRegistry.set(runtime, entries);
+    return entries;
+  }
+  const configured = new Set(getWalletConfigs(runtime).map((wallet) => wallet.name));
+  for (const name of entries.keys()) {
+    if (!configured.has(name)) {
+      entries.delete(name);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Build a new signer and provider for the given settings
+ */
+async function buildProviderEntry(
+  walletName: string,
+  signerConfig: SignerConfig,
+  baseURL: string,
+  fingerprint: string,
+): Promise<ProviderEntry> {
+  // Create signer from configuration (SVM or EVM); the key handling needs
+  // Node.js, so it is only loaded once a signer is built
+  const { createSignerFromConfig } = await import("../utils/signer");
   const signer = await createSignerFromConfig(signerConfig);
-  
-  logger.info(`Creating AiMo Network provider with ${signerConfig.walletType.toUpperCase()} wallet`);
-  
-  return aimoNetwork({
+  // Only a proxy signer is created without a wallet type
+  const walletType = signer instanceof ProxySigner ? signer.walletType : signerConfig.walletType!;
+
+  logger.info(`Creating AiMo Network provider with ${walletType.toUpperCase()} wallet "${walletName}"`);
+
+  // Through a proxy, requests go to the proxy, which signs in and pays with its own wallet
+  const apiURL = signerConfig.proxyUrl ?? baseURL;
+  const baseFetch = signerConfig.proxyUrl
+    ? withProxyToken(globalThis.fetch, signerConfig.proxyToken ?? "")
+    : globalThis.fetch;
+
+  // Report response arrival to request timers (connect vs first-token timeouts)
+  const trackedFetch = trackResponses(baseFetch);
+
+  const provider = aimoNetwork({
     signer,
-    baseURL,
+    baseURL: apiURL,
+    fetch: trackedFetch,
   });
+
+  const fetch = wrapFetchWithSigner(trackedFetch, signer);
+
+  const client = new AimoClient({ signer, baseUrl: apiURL, fetchOverride: trackedFetch });
+
+  return { fingerprint, signer, walletType, provider, fetch, client, baseURL: apiURL };
+}
+
+/**
+ * Get the cached registry entry for a wallet of a runtime, building it on first use
+ */
+async function getProviderEntry(runtime: IAgentRuntime, wallet?: string): Promise<ProviderEntry> {
+  const { walletName, signerConfig, baseURL } = resolveProviderSettings(runtime, wallet);
+  assertNodeEnvironment(signerConfig);
+
+  const fingerprint = await getProviderFingerprint(signerConfig, baseURL);
+  const entries = getRuntimeEntries(runtime);
+
+  const cached = entries.get(walletName);
+  if (cached) {
+    const entry = await cached.catch(() => undefined);
+    if (entry && entry.fingerprint === fingerprint) {
+      return entry;
+    }
+    // A newer build may have replaced the one we awaited
+    if (entries.get(walletName) !== cached) {
+      return getProviderEntry(runtime, walletName);
+    }
+    if (entry) {
+      logger.info(`AiMo wallet "${walletName}" settings changed, rebuilding provider`);
+    }
+  }
+
+  const pending = buildProviderEntry(walletName, signerConfig, baseURL, fingerprint);
+  entries.set(walletName, pending);
+
+  try {
+    return await pending;
+  } catch (error) {
+    // Do not keep failed builds around, the next call should try again
+    if (entries.get(walletName) === pending) {
+      entries.delete(walletName);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get the cached AimoRouter provider for a runtime, building it on first use
+ *
+ * The signer and provider are kept alive for the lifetime of the runtime and are
+ * only rebuilt when AIMO_WALLET_TYPE, AIMO_PRIVATE_KEY (or the key file or its
+ * modification time), AIMO_CHAIN_ID or AIMO_BASE_URL change. Each wallet of
+ * AIMO_WALLETS has its own provider.
+ *
+ * @param runtime The runtime context
+ * @param wallet Wallet name; unset for the wallet selected by AIMO_WALLET_STRATEGY
+ * @returns Configured AimoRouter provider instance
+ * @throws Error if running in browser without a signing proxy
+ * @throws Error if wallet configuration is invalid
+ */
+export async function getAimoRouterProvider(runtime: IAgentRuntime, wallet?: string): Promise<AimoRouterProvider> {
+  return (await getProviderEntry(runtime, wallet)).provider;
+}
+
+/**
+ * Public wallet details of a runtime; never includes the private key
+ */
+export interface AimoWalletInfo {
+  /** Wallet name; "default" unless AIMO_WALLETS is set */
+  name: string;
+  walletType: WalletType;
+  /** Public address derived from AIMO_PRIVATE_KEY */
+  address: string;
+  /** CAIP-2 chain ID the signer pays on */
+  chainId: string;
+  baseURL: string;
+}
+
+/**
+ * Get the wallet the runtime pays from
+ *
+ * The address is taken from the cached signer, which derives it from the
+ * configured key.
+ *
+ * @param runtime The runtime context
+ * @param wallet Wallet name; unset for the wallet selected by AIMO_WALLET_STRATEGY
+ * @returns Wallet name, type, address, chain ID and base URL
+ * @throws Error if wallet configuration is invalid
+ */
+export async function getWalletInfo(runtime: IAgentRuntime, wallet?: string): Promise<AimoWalletInfo> {
+  const { walletName } = resolveProviderSettings(runtime, wallet);
+  const { signer, walletType, baseURL } = await getProviderEntry(runtime, walletName);
+
+  return {
+    name: walletName,
+    walletType,
+    address: String(signer.address),
+    chainId: signer.network,
+    baseURL,
+  };
+}
+
+/**
+ * Result of a JSON request to an AiMo Network API route
+ */
+export interface AimoResponse<T> {
+  data: T;
+  /** x402 payments made for the request */
+  payments: readonly PaymentDetails[];
+  /** Time the successful attempt took, in milliseconds */
+  latencyMs: number;
+}
+
+/**
+ * Send a JSON request to an AiMo Network API route using the runtime's signer
+ *
+ * Requests go through the same SIWx authentication and x402 payment handling as
+ * the chat models, so routes without an AI SDK model (embeddings, images) are
+ * paid for by the configured wallet. Transient failures are retried according
+ * to AIMO_RETRY_* and each attempt is bounded by AIMO_REQUEST_TIMEOUT_MS.
+ *
+ * @param runtime The runtime context
+ * @param endpoint Endpoint path relative to the API base (e.g. "/embeddings")
+ * @param body JSON request body; not sent with GET
+ * @param init Additional fetch options; the method defaults to POST
+ * @param wallet Wallet that pays; unset for the wallet selected by AIMO_WALLET_STRATEGY
+ * @returns The parsed JSON response with the payments made for it, including those of failed attempts
+ * @throws AimoRequestError if the endpoint responds with a non-2xx status
+ * @throws AimoTimeoutError if the endpoint does not respond in time
+ */
+export async function aimoPaidRequest<T>(
+  runtime: IAgentRuntime,
+  endpoint: string,
+  body: unknown,
+  init?: RequestInit,
+  wallet?: string,
+): Promise<AimoResponse<T>> {
+  const { fetch, baseURL } = await getProviderEntry(runtime, wallet);
+  const url = new URL(`${ApiBase}${endpoint}`, baseURL).toString();
+
+  const method = init?.method ?? "POST";
+  const headers = new Headers(init?.headers);
+  if (method !== "GET") {
+    headers.set("Content-Type", "application/json");
+  }
+
+  const timeoutConfig = getTimeoutConfig(runtime);
+  const signal = init?.signal ?? undefined;
+  // Payments made by attempts that failed, which the result or final error also reports
+  const failedPayments: PaymentDetails[] = [];
+
+  return withRetry(
+    getRetryConfig(runtime),
+    endpoint,
+    () =>
+      withRequestTimeout(timeoutConfig, signal, async (timer) => {
+        const startedAt = Date.now();
+        for (const [name, value] of Object.entries(timer.headers)) {
+          headers.set(name, value);
+        }
+        const response = await fetch(url, {
+          ...init,
+          method,
+          headers,
+          body: method === "GET" ? undefined : JSON.stringify(body),
+          signal: timer.signal,
+        });
+
+        if (!response.ok) {
+          const text = await response.text().catch(() => "");
+          let errorBody: unknown = text;
+          try {
+            errorBody = JSON.parse(text);
+          } catch {
+            // Keep the raw text body
+          }
+          throw new AimoRequestError(endpoint, response.status, response.statusText, errorBody);
+        }
+
+        const data = (await response.json()) as T;
+        return { data, payments: [...failedPayments, ...timer.payments], latencyMs: Date.now() - startedAt };
+      }).catch((error: unknown) => {
+        const paid = getFailedCallPayments(error);
+        addFailedCallPayments(error, failedPayments);
+        failedPayments.push(...paid);
+        throw error;
+      }),
+    signal,
+  );
+}
+
+/**
+ * Send a JSON request to an AiMo Network API route using the runtime's signer
+ *
+ * Same as {@link aimoPaidRequest}, for callers that only need the response body.
+ *
+ * @param runtime The runtime context
+ * @param endpoint Endpoint path relative to the API base (e.g. "/embeddings")
+ * @param body JSON request body; not sent with GET
+ * @param init Additional fetch options; the method defaults to POST
+ * @param wallet Wallet that pays; unset for the wallet selected by AIMO_WALLET_STRATEGY
+ * @returns The parsed JSON response
+ * @throws AimoRequestError if the endpoint responds with a non-2xx status
+ * @throws AimoTimeoutError if the endpoint does not respond in time
+ */
+export async function aimoRequest<T>(
+  runtime: IAgentRuntime,
+  endpoint: string,
+  body: unknown,
+  init?: RequestInit,
+  wallet?: string,
+): Promise<T> {
+  return (await aimoPaidRequest<T>(runtime, endpoint, body, init, wallet)).data;
+}
+
+/**
+ * Query the AiMo session balance of the runtime's wallet
+ *
+ * The request is authenticated with SIWx, retried according to AIMO_RETRY_* and
+ * bounded by AIMO_REQUEST_TIMEOUT_MS.
+ *
+ * @param runtime The runtime context
+ * @param wallet Wallet to query; unset for the wallet selected by AIMO_WALLET_STRATEGY
+ * @returns The CAIP-10 account ID and its balance
+ * @throws Error if the balance route fails or wallet configuration is invalid
+ */
+export async function getSessionBalance(runtime: IAgentRuntime, wallet?: string): Promise<SessionBalanceResponse> {
+  const { client } = await getProviderEntry(runtime, wallet);
+
+  return withRetry(getRetryConfig(runtime), "/session/balance", () =>
+    withRequestTimeout(getTimeoutConfig(runtime), undefined, (timer) =>
+      client.sessionBalance({ signal: timer.signal, headers: timer.headers }),
+    ),
+  );
+}
+
+/**
+ * Drop the cached provider for a runtime and build a fresh one
+ *
+ * @param runtime The runtime context
+ * @returns The newly built AimoRouter provider instance
+ */
+export async function refreshAimoRouterProvider(runtime: IAgentRuntime): Promise<AimoRouterProvider> {
+  disposeAimoRouterProvider(runtime);
+  return getAimoRouterProvider(runtime);
+}
+
+/**
+ * Release the cached signers and providers for a runtime and put its wallets back into rotation
+ *
+ * @param runtime The runtime context
+ * @returns true if a cached provider was released
+ */
+export function disposeAimoRouterProvider(runtime: IAgentRuntime): boolean {
+  resetWalletState(runtime);
+  const entries = providerRegistry.get(runtime);
+  providerRegistry.delete(runtime);
+  return (entries?.size ?? 0) > 0;
+}
+
+/**
+ * Create an AimoRouter provider instance with proper configuration
+ *
+ * @deprecated Use {@link getAimoRouterProvider}, which reuses the signer and provider across calls.
+ * @param runtime The runtime context
+ * @returns Configured AimoRouter provider instance
+ */
+export async function createAimoRouterProvider(runtime: IAgentRuntime): Promise<AimoRouterProvider> {
+  return getAimoRouterProvider(runtime);
 }
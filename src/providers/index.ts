@@ -1 +1,14 @@
-export { createAimoRouterProvider } from "./aimo-router";
+export {
+  createAimoRouterProvider,
+  getAimoRouterProvider,
+  refreshAimoRouterProvider,
+  disposeAimoRouterProvider,
+  aimoRequest,
+  aimoPaidRequest,
+  getSessionBalance,
+  getWalletInfo,
+  type AimoResponse,
+  type AimoRouterProvider,
+  type AimoWalletInfo,
+} from "./aimo-router";
+export { aimoWalletProvider } from "./wallet";
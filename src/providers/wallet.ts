@@ -0,0 +1,56 @@
+import { logger, type IAgentRuntime, type Provider, type ProviderResult } from "@elizaos/core";
+import { getAimoBalance } from "../utils/balance";
+import { getWalletConfigs } from "../utils/config";
+import { getWalletInfo } from "./aimo-router";
+
+/**
+ * Provider that tells the agent which AiMo wallet it pays from
+ *
+ * Injects the wallet type, public address, chain ID, base URL and the last known
+ * session balance into agent state. The balance is kept fresh by the startup check
+ * and the balance monitor; the provider never waits for the balance route. With AIMO_WALLETS, this describes the first
+ * available wallet and lists the others by name. The private key is never exposed.
+ */
+export const aimoWalletProvider: Provider = {
+  name: "AIMO_WALLET",
+  description: "AiMo Network wallet address, chain and session balance the agent pays from",
+  get: async (runtime: IAgentRuntime): Promise<ProviderResult> => {
+    let wallet;
+    try {
+      wallet = await getWalletInfo(runtime);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.debug(`[AiMo] Wallet provider unavailable: ${message}`);
+      return { text: "", values: {}, data: {} };
+    }
+
+    const balance = getAimoBalance(runtime, wallet.name);
+    const balanceText = balance ? `${balance.balanceUsd} USD` : "unknown";
+    const otherWallets = getWalletConfigs(runtime)
+      .map((config) => config.name)
+      .filter((name) => name !== wallet.name);
+
+    return {
+      text: [
+        "# AiMo Network Wallet",
+        `Wallet type: ${wallet.walletType.toUpperCase()}`,
+        `Address: ${wallet.address}`,
+        `Chain: ${wallet.chainId}`,
+        `API: ${wallet.baseURL}`,
+        `Session balance: ${balanceText}`,
+        ...(otherWallets.length > 0 ? [`Other wallets: ${otherWallets.join(", ")}`] : []),
+      ].join("\n"),
+      values: {
+        aimoWalletType: wallet.walletType,
+        aimoWalletAddress: wallet.address,
+        aimoChainId: wallet.chainId,
+        aimoBaseUrl: wallet.baseURL,
+        aimoBalanceUsd: balance?.balanceUsd,
+      },
+      data: {
+        wallet,
+        ...(balance && { balance }),
+      },
+    };
+  },
+};
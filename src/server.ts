@@ -0,0 +1,11 @@
+/**
+ * Node.js servers that hold a wallet for agents: the signing proxy and the remote signer
+ */
+export {
+  startProxyServer,
+  type ProxyClient,
+  type ProxyServer,
+  type ProxyServerOptions,
+} from './utils/proxy-server.ts';
+export { startSignerServer, type SignerServer, type SignerServerOptions } from './utils/signer-server.ts';
+export { createSignerFromConfig, type SignerConfig } from './utils/signer.ts';
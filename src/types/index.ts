@@ -0,0 +1,116 @@
+import type {
+  GenerateTextParams,
+  ObjectGenerationParams,
+  TextStreamResult,
+  TokenUsage,
+} from "@elizaos/core";
+import type { ModelMessage } from "ai";
+import type { JSONSchema7 } from "json-schema";
+
+/**
+ * A tool the model may call, described with a JSON schema
+ */
+export interface AimoToolDefinition {
+  /** What the tool does; shown to the model */
+  description?: string;
+  /** JSON schema of the tool input */
+  parameters: JSONSchema7;
+  /**
+   * Runs the tool. When omitted the tool call is returned to the caller
+   * instead of being executed inside the generation loop. The input is the
+   * model's arguments and is not validated against `parameters`.
+   */
+  execute?: (input: unknown) => unknown | Promise<unknown>;
+}
+
+/**
+ * How the model should choose between tools
+ */
+export type AimoToolChoice =
+  | "auto"
+  | "none"
+  | "required"
+  | { type: "tool"; toolName: string };
+
+/**
+ * Text generation parameters accepted by the AiMo text handlers
+ */
+export interface AimoGenerateTextParams extends GenerateTextParams {
+  /**
+   * Chat messages (system/user/assistant/tool roles, multimodal parts) sent
+   * instead of the flat prompt. A non-empty `prompt` is appended as the final user turn.
+   */
+  messages?: ModelMessage[];
+  /** Tools the model may call, keyed by tool name */
+  tools?: Record<string, AimoToolDefinition>;
+  /** Tool selection strategy (defaults to "auto") */
+  toolChoice?: AimoToolChoice;
+  /** Output token limit; takes precedence over `maxTokens` */
+  maxOutputTokens?: number;
+  /** Maximum number of generation steps in a tool loop, capped by AIMO_MAX_TOOL_STEPS */
+  maxSteps?: number;
+  /** Cancels the in-flight request, including retries and fallbacks */
+  signal?: AbortSignal;
+}
+
+/**
+ * Object generation parameters accepted by the AiMo object handlers
+ */
+export interface AimoObjectGenerationParams extends ObjectGenerationParams {
+  /**
+   * Chat messages sent instead of the flat prompt. A non-empty `prompt` is
+   * appended as the final user turn.
+   */
+  messages?: ModelMessage[];
+  /** Cancels the in-flight request, including retries and fallbacks */
+  signal?: AbortSignal;
+}
+
+/**
+ * A tool call requested by the model
+ */
+export interface AimoToolCall {
+  toolCallId: string;
+  toolName: string;
+  input: unknown;
+}
+
+/**
+ * The result of an executed tool call
+ */
+export interface AimoToolResult extends AimoToolCall {
+  output: unknown;
+}
+
+/**
+ * One step of a tool loop
+ */
+export interface AimoGenerationStep {
+  text: string;
+  toolCalls: AimoToolCall[];
+  toolResults: AimoToolResult[];
+  finishReason: string;
+}
+
+/**
+ * Result of a non-streaming text generation that was given tools
+ */
+export interface AimoTextGenerationResult {
+  text: string;
+  /** Tool calls across all steps */
+  toolCalls: AimoToolCall[];
+  /** Tool results across all steps */
+  toolResults: AimoToolResult[];
+  steps: AimoGenerationStep[];
+  finishReason: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * Result of a streaming text generation that was given tools
+ */
+export interface AimoTextStreamResult extends TextStreamResult {
+  toolCalls: Promise<AimoToolCall[]>;
+  toolResults: Promise<AimoToolResult[]>;
+  steps: Promise<AimoGenerationStep[]>;
+}
@@ -0,0 +1,214 @@
+import { logger, type IAgentRuntime } from "@elizaos/core";
+import { getSessionBalance } from "../providers";
+import { getBalanceCheckIntervalMs, getLowBalanceThreshold, getWalletConfigs } from "./config";
+import { emitLowBalanceEvent } from "./events";
+import { markWalletUnavailable, selectWallet } from "./wallets";
+
+/**
+ * Session balance of one of the agent's wallets on AiMo Network
+ */
+export interface AimoBalance {
+  /** Wallet name; "default" unless AIMO_WALLETS is set */
+  wallet: string;
+  /** CAIP-10 account identifier */
+  accountId: string;
+  balanceUsd: number;
+  balanceMicroUsdc: number;
+  /** When the balance was fetched (ms since epoch) */
+  checkedAt: number;
+}
+
+interface WalletBalanceState {
+  balance?: AimoBalance;
+  /** Whether the last check was below the threshold, so alerts fire once per drop */
+  low: boolean;
+  checking?: Promise<AimoBalance>;
+}
+
+interface BalanceState {
+  /** Wallet name to its balance */
+  wallets: Map<string, WalletBalanceState>;
+  monitor?: ReturnType<typeof setInterval>;
+}
+
+/**
+ * Per-runtime balance state
+ */
+const balanceStates = new WeakMap<IAgentRuntime, BalanceState>();
+
+function getBalanceState(runtime: IAgentRuntime): BalanceState {
+  let state = balanceStates.get(runtime);
+  if (!state) {
+    state = { wallets: new Map() };
+    balanceStates.set(runtime, state);
+  }
+  return state;
+}
+
+function getWalletBalanceState(runtime: IAgentRuntime, wallet: string): WalletBalanceState {
+  const { wallets } = getBalanceState(runtime);
+  let state = wallets.get(wallet);
+  if (!state) {
+    state = { low: false };
+    wallets.set(wallet, state);
+  }
+  return state;
+}
+
+/**
+ * Get the name of a wallet, defaulting to the first available one
+ *
+ * @throws Error if no wallet is configured
+ */
+function resolveWalletName(runtime: IAgentRuntime, wallet?: string): string {
+  const name = wallet ?? selectWallet(runtime)?.name;
+  if (!name) {
+    throw new Error("AiMo wallet configuration is incomplete: no wallet is configured");
+  }
+  return name;
+}
+
+async function fetchBalance(runtime: IAgentRuntime, wallet: string, state: WalletBalanceState): Promise<AimoBalance> {
+  const response = await getSessionBalance(runtime, wallet);
+  const balance: AimoBalance = {
+    wallet,
+    accountId: response.caip_account_id,
+    balanceUsd: Number.parseFloat(response.balance_usd),
+    balanceMicroUsdc: response.balance_micro_usdc,
+    checkedAt: Date.now(),
+  };
+  if (!Number.isFinite(balance.balanceUsd)) {
+    balance.balanceUsd = balance.balanceMicroUsdc / 1_000_000;
+  }
+  state.balance = balance;
+
+  const thresholdUsd = getLowBalanceThreshold(runtime);
+  const low = thresholdUsd !== undefined && balance.balanceUsd < thresholdUsd;
+  if (low && !state.low) {
+    logger.warn(
+      `[AiMo] Session balance ${balance.balanceUsd} USD of wallet "${wallet}" is below AIMO_LOW_BALANCE_USD (${thresholdUsd} USD)`,
+    );
+    emitLowBalanceEvent(runtime, wallet, balance.accountId, balance.balanceUsd, thresholdUsd);
+  }
+  state.low = low;
+  // With several wallets, spend from those with funds first
+  if (low && getWalletConfigs(runtime).length > 1) {
+    markWalletUnavailable(runtime, wallet, `session balance ${balance.balanceUsd} USD is below AIMO_LOW_BALANCE_USD`);
+  }
+
+  return balance;
+}
+
+/**
+ * Fetch the current session balance of a wallet and alert if it dropped below AIMO_LOW_BALANCE_USD
+ *
+ * Concurrent checks of a wallet share one request. The low balance event fires
+ * when the balance first drops below the threshold, and again only after it
+ * recovered. With AIMO_WALLETS, a wallet below the threshold is also skipped
+ * for AIMO_WALLET_COOLDOWN_MS while other wallets are available.
+ *
+ * @param runtime The runtime context
+ * @param wallet Wallet name; unset for the first available wallet
+ * @returns The current balance
+ * @throws Error if the balance cannot be fetched
+ */
+export async function checkAimoBalance(runtime: IAgentRuntime, wallet?: string): Promise<AimoBalance> {
+  const name = resolveWalletName(runtime, wallet);
+  const state = getWalletBalanceState(runtime, name);
+  if (!state.checking) {
+    state.checking = fetchBalance(runtime, name, state).finally(() => {
+      state.checking = undefined;
+    });
+  }
+  return state.checking;
+}
+
+/**
+ * Fetch the session balances of every configured wallet
+ *
+ * Failed checks are logged and left out.
+ *
+ * @param runtime The runtime context
+ * @returns The current balances, in the order of the wallets
+ */
+export async function checkAimoBalances(runtime: IAgentRuntime): Promise<AimoBalance[]> {
+  const results = await Promise.allSettled(
+    getWalletConfigs(runtime).map((wallet) => checkAimoBalance(runtime, wallet.name)),
+  );
+  const balances: AimoBalance[] = [];
+  for (const result of results) {
+    if (result.status === "fulfilled") {
+      balances.push(result.value);
+    } else {
+      const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      logger.warn(`[AiMo] Session balance check failed: ${message}`);
+    }
+  }
+  return balances;
+}
+
+/**
+ * Get the last known session balance of a wallet
+ *
+ * @param runtime The runtime context
+ * @param wallet Wallet name; unset for the first available wallet
+ * @returns The balance from the latest successful check, or undefined if none succeeded yet
+ */
+export function getAimoBalance(runtime: IAgentRuntime, wallet?: string): AimoBalance | undefined {
+  const state = balanceStates.get(runtime);
+  if (!state) {
+    return undefined;
+  }
+  return state.wallets.get(resolveWalletName(runtime, wallet))?.balance;
+}
+
+/**
+ * Re-check the session balance of every wallet each AIMO_BALANCE_CHECK_INTERVAL_MS while the agent runs
+ *
+ * The timer does not keep the process alive. Calling this again restarts the
+ * monitor with the current interval.
+ *
+ * @param runtime The runtime context
+ * @returns true if a monitor was started, false if periodic checks are disabled
+ */
+export function startBalanceMonitor(runtime: IAgentRuntime): boolean {
+  stopBalanceMonitor(runtime);
+
+  const intervalMs = getBalanceCheckIntervalMs(runtime);
+  if (intervalMs === 0) {
+    return false;
+  }
+
+  const state = getBalanceState(runtime);
+  state.monitor = setInterval(() => {
+    checkAimoBalances(runtime).then(
+      (balances) => {
+        for (const balance of balances) {
+          logger.debug(`[AiMo] Session balance of wallet "${balance.wallet}": ${balance.balanceUsd} USD`);
+        }
+      },
+      (error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(`[AiMo] Session balance check failed: ${message}`);
+      },
+    );
+  }, intervalMs);
+  state.monitor.unref?.();
+  return true;
+}
+
+/**
+ * Stop the background balance checks for a runtime
+ *
+ * @param runtime The runtime context
+ * @returns true if a running monitor was stopped
+ */
+export function stopBalanceMonitor(runtime: IAgentRuntime): boolean {
+  const state = balanceStates.get(runtime);
+  if (!state?.monitor) {
+    return false;
+  }
+  clearInterval(state.monitor);
+  state.monitor = undefined;
+  return true;
+}
@@ -0,0 +1,80 @@
+/**
+ * Options for a request coalescer
+ */
+export interface BatcherOptions<TInput, TOutput> {
+  /** Maximum number of inputs sent in one batch */
+  maxBatchSize: number;
+  /** How long to wait for more inputs before sending a partial batch */
+  windowMs: number;
+  /** Executes one batch; must return one output per input, in input order */
+  execute: (inputs: TInput[]) => Promise<TOutput[]>;
+}
+
+/**
+ * Coalesces concurrent single-item calls into batched executions
+ */
+export interface Batcher<TInput, TOutput> {
+  /** Queue an input and resolve with its output once its batch completes */
+  add(input: TInput): Promise<TOutput>;
+  /** Send everything queued so far without waiting for the window to close */
+  flush(): void;
+}
+
+interface PendingItem<TInput, TOutput> {
+  input: TInput;
+  resolve: (output: TOutput) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Create a batcher that collects inputs for up to `windowMs` and executes them in
+ * batches of at most `maxBatchSize`. A full batch is sent immediately. If a batch
+ * fails, every caller in that batch receives the error.
+ *
+ * @param options Batch size, window and executor
+ * @returns Batcher instance
+ */
+export function createBatcher<TInput, TOutput>(
+  options: BatcherOptions<TInput, TOutput>,
+): Batcher<TInput, TOutput> {
+  const maxBatchSize = Math.max(1, Math.floor(options.maxBatchSize));
+  const queue: PendingItem<TInput, TOutput>[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const run = async (batch: PendingItem<TInput, TOutput>[]) => {
+    try {
+      const outputs = await options.execute(batch.map((item) => item.input));
+      if (outputs.length !== batch.length) {
+        throw new Error(
+          `Batch returned ${outputs.length} result(s) for ${batch.length} input(s)`,
+        );
+      }
+      batch.forEach((item, index) => item.resolve(outputs[index]));
+    } catch (error) {
+      batch.forEach((item) => item.reject(error));
+    }
+  };
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    while (queue.length > 0) {
+      void run(queue.splice(0, maxBatchSize));
+    }
+  };
+
+  const add = (input: TInput) =>
+    new Promise<TOutput>((resolve, reject) => {
+      queue.push({ input, resolve, reject });
+
+      if (queue.length >= maxBatchSize || options.windowMs <= 0) {
+        flush();
+      } else if (!timer) {
+        timer = setTimeout(flush, options.windowMs);
+      }
+    });
+
+  return { add, flush };
+}
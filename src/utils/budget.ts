@@ -0,0 +1,344 @@
+import { logger, type IAgentRuntime } from "@elizaos/core";
+import { getBudgetLimits, getModelPricing } from "./config";
+import { BudgetExceededError } from "./errors";
+import type { ModelUsage } from "./events";
+import { getFailedCallPayments, getTotalPaid } from "./payments";
+
+/**
+ * Price of a model in USD; token prices are per million tokens
+ */
+export interface ModelPricing {
+  input?: number;
+  output?: number;
+  /** Price per generated image */
+  image?: number;
+}
+
+/**
+ * Configured spend caps in USD; undefined caps are not enforced
+ */
+export interface BudgetLimits {
+  perCallUsd?: number;
+  perDayUsd?: number;
+  /** Daily caps by model ID */
+  perModelUsd: Record<string, number>;
+}
+
+/**
+ * Expected or reported size of a call, used to price it
+ */
+export interface CallSize {
+  inputTokens?: number;
+  outputTokens?: number;
+  images?: number;
+}
+
+/**
+ * Spend recorded for an agent
+ */
+export interface SpendLedger {
+  /** UTC day (YYYY-MM-DD) the daily figures belong to */
+  day: string;
+  /** Spend on `day` */
+  dayUsd: number;
+  /** Spend on `day` by model ID */
+  models: Record<string, number>;
+  /** Spend since the ledger was created */
+  totalUsd: number;
+}
+
+/**
+ * Budget held for an in-flight call
+ */
+export interface BudgetReservation {
+  readonly estimateUsd: number;
+  /** Record the actual cost of the call and release the reservation */
+  commit(actualUsd: number): Promise<void>;
+  /** Release the reservation without recording spend (the call failed) */
+  release(): void;
+}
+
+interface BudgetState {
+  ledger: SpendLedger;
+  pendingUsd: number;
+  pendingByModel: Map<string, number>;
+}
+
+/**
+ * Cache key of the persisted spend ledger; the runtime cache is scoped per agent
+ */
+const LEDGER_CACHE_KEY = "aimo/spend-ledger";
+
+/**
+ * Rough characters-per-token ratio used to estimate prompt size before a call
+ */
+export const CHARS_PER_TOKEN = 4;
+
+/**
+ * Per-runtime budget state, loaded from the runtime cache on first use
+ */
+const budgetStates = new WeakMap<IAgentRuntime, Promise<BudgetState>>();
+
+/**
+ * Models already reported as missing a price, to warn only once
+ */
+const unpricedModels = new Set<string>();
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function emptyLedger(): SpendLedger {
+  return { day: today(), dayUsd: 0, models: {}, totalUsd: 0 };
+}
+
+/**
+ * Start a new day in the ledger once the UTC date changes
+ */
+function rollDay(ledger: SpendLedger): void {
+  const day = today();
+  if (ledger.day !== day) {
+    ledger.day = day;
+    ledger.dayUsd = 0;
+    ledger.models = {};
+  }
+}
+
+async function loadBudgetState(runtime: IAgentRuntime): Promise<BudgetState> {
+  let ledger = emptyLedger();
+  try {
+    const cached = await runtime.getCache<SpendLedger>(LEDGER_CACHE_KEY);
+    if (cached && typeof cached.day === "string") {
+      ledger = {
+        day: cached.day,
+        dayUsd: Number(cached.dayUsd) || 0,
+        models: { ...cached.models },
+        totalUsd: Number(cached.totalUsd) || 0,
+      };
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`[AiMo] Could not load the spend ledger, starting empty: ${message}`);
+  }
+  return { ledger, pendingUsd: 0, pendingByModel: new Map() };
+}
+
+function getBudgetState(runtime: IAgentRuntime): Promise<BudgetState> {
+  let state = budgetStates.get(runtime);
+  if (!state) {
+    state = loadBudgetState(runtime);
+    budgetStates.set(runtime, state);
+  }
+  return state;
+}
+
+/**
+ * Estimate the number of tokens in a text before sending it
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Price a call
+ *
+ * @param pricing The model price, if known
+ * @param size Token and image counts
+ * @returns Cost in USD (0 when the model has no price)
+ */
+export function getCallCostUsd(pricing: ModelPricing | undefined, size: CallSize): number {
+  if (!pricing) {
+    return 0;
+  }
+  return (
+    ((size.inputTokens ?? 0) * (pricing.input ?? 0)) / 1_000_000 +
+    ((size.outputTokens ?? 0) * (pricing.output ?? 0)) / 1_000_000 +
+    (size.images ?? 0) * (pricing.image ?? 0)
+  );
+}
+
+/**
+ * Price a call from the token usage reported by the model
+ */
+export function getUsageCostUsd(
+  runtime: IAgentRuntime,
+  model: string,
+  usage: Partial<ModelUsage> | undefined,
+  images?: number,
+): number | undefined {
+  if (!usage && images === undefined) {
+    return undefined;
+  }
+  return getCallCostUsd(getModelPricing(runtime, model), {
+    inputTokens: usage?.inputTokens,
+    outputTokens: usage?.outputTokens,
+    images,
+  });
+}
+
+/**
+ * Reserve budget for a call before sending it
+ *
+ * The estimate is checked against AIMO_MAX_USD_PER_CALL, AIMO_MAX_USD_PER_DAY
+ * and the model's AIMO_MAX_USD_PER_MODEL cap, counting calls that are still in
+ * flight, and held until the reservation is committed or released.
+ *
+ * @param runtime The runtime context
+ * @param model The model that will serve the call
+ * @param size Expected token and image counts
+ * @returns The reservation
+ * @throws BudgetExceededError if the call would exceed a cap
+ */
+export async function reserveBudget(
+  runtime: IAgentRuntime,
+  model: string,
+  size: CallSize,
+): Promise<BudgetReservation> {
+  const limits = getBudgetLimits(runtime);
+  const pricing = getModelPricing(runtime, model);
+  const estimateUsd = getCallCostUsd(pricing, size);
+  const modelLimit = limits.perModelUsd[model];
+
+  const capped =
+    limits.perCallUsd !== undefined || limits.perDayUsd !== undefined || modelLimit !== undefined;
+  if (capped && !pricing && !unpricedModels.has(model)) {
+    unpricedModels.add(model);
+    logger.warn(
+      `[AiMo] No price known for ${model}; spend caps cannot be enforced for it. Add it to AIMO_MODEL_PRICING.`,
+    );
+  }
+
+  const state = await getBudgetState(runtime);
+  rollDay(state.ledger);
+
+  if (limits.perCallUsd !== undefined && estimateUsd > limits.perCallUsd) {
+    throw new BudgetExceededError({
+      scope: "call",
+      model,
+      limitUsd: limits.perCallUsd,
+      spentUsd: 0,
+      estimateUsd,
+    });
+  }
+
+  const daySpent = state.ledger.dayUsd + state.pendingUsd;
+  if (limits.perDayUsd !== undefined && daySpent + estimateUsd > limits.perDayUsd) {
+    throw new BudgetExceededError({
+      scope: "day",
+      model,
+      limitUsd: limits.perDayUsd,
+      spentUsd: daySpent,
+      estimateUsd,
+    });
+  }
+
+  const modelSpent = (state.ledger.models[model] ?? 0) + (state.pendingByModel.get(model) ?? 0);
+  if (modelLimit !== undefined && modelSpent + estimateUsd > modelLimit) {
+    throw new BudgetExceededError({
+      scope: "model",
+      model,
+      limitUsd: modelLimit,
+      spentUsd: modelSpent,
+      estimateUsd,
+    });
+  }
+
+  state.pendingUsd += estimateUsd;
+  state.pendingByModel.set(model, (state.pendingByModel.get(model) ?? 0) + estimateUsd);
+
+  let settled = false;
+  const release = () => {
+    if (settled) {
+      return;
+    }
+    settled = true;
+    state.pendingUsd -= estimateUsd;
+    state.pendingByModel.set(model, (state.pendingByModel.get(model) ?? 0) - estimateUsd);
+  };
+
+  return {
+    estimateUsd,
+    release,
+    async commit(actualUsd: number) {
+      if (settled) {
+        return;
+      }
+      release();
+      await recordSpend(runtime, model, actualUsd);
+    },
+  };
+}
+
+/**
+ * Record spend for a model and persist the ledger
+ *
+ * @param runtime The runtime context
+ * @param model The model that served the call
+ * @param usd Cost of the call
+ */
+export async function recordSpend(runtime: IAgentRuntime, model: string, usd: number): Promise<void> {
+  if (!Number.isFinite(usd) || usd <= 0) {
+    return;
+  }
+  const state = await getBudgetState(runtime);
+  rollDay(state.ledger);
+  state.ledger.dayUsd += usd;
+  state.ledger.totalUsd += usd;
+  state.ledger.models[model] = (state.ledger.models[model] ?? 0) + usd;
+
+  try {
+    await runtime.setCache(LEDGER_CACHE_KEY, state.ledger);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`[AiMo] Could not persist the spend ledger: ${message}`);
+  }
+}
+
+/**
+ * Get the agent's recorded spend
+ *
+ * @param runtime The runtime context
+ * @returns A copy of the spend ledger for the current UTC day
+ */
+export async function getSpendLedger(runtime: IAgentRuntime): Promise<SpendLedger> {
+  const state = await getBudgetState(runtime);
+  rollDay(state.ledger);
+  return { ...state.ledger, models: { ...state.ledger.models } };
+}
+
+/**
+ * Run a non-streaming call within the budget
+ *
+ * A call that fails is charged with the payments recorded on its error, if any.
+ *
+ * @param runtime The runtime context
+ * @param model The model that serves the call
+ * @param size Expected token and image counts
+ * @param call Performs the call and returns its result and actual cost
+ * @returns The call result
+ * @throws BudgetExceededError if the call would exceed a cap
+ */
+export async function withBudget<T>(
+  runtime: IAgentRuntime,
+  model: string,
+  size: CallSize,
+  call: () => Promise<{ result: T; costUsd?: number }>,
+): Promise<T> {
+  const reservation = await reserveBudget(runtime, model, size);
+  let outcome: { result: T; costUsd?: number };
+  try {
+    outcome = await call();
+  } catch (error: unknown) {
+    // A call that failed after paying still counts against the caps
+    const paid = getTotalPaid(getFailedCallPayments(error))?.amount;
+    if (paid) {
+      await reservation.commit(paid);
+    } else {
+      reservation.release();
+    }
+    throw error;
+  }
+  // Without reported usage, the estimate is the best record of what was paid
+  await reservation.commit(outcome.costUsd ?? reservation.estimateUsd);
+  return outcome.result;
+}
@@ -0,0 +1,331 @@
+import { logger, type IAgentRuntime } from "@elizaos/core";
+import { aimoRequest } from "../providers";
+import type { ModelPricing } from "./budget";
+import {
+  getEmbeddingModel,
+  getImageModel,
+  getLargeModelChain,
+  getLongContextModel,
+  getModelCatalogTtlMs,
+  getModelRequirements,
+  getModelValidationMode,
+  getSmallModelChain,
+  getVisionModel,
+} from "./config";
+import { AUTO_MODEL, findCheapestModels, type ModelRequirements } from "./routing";
+
+/**
+ * A model available on the AiMo marketplace
+ */
+export interface AimoModelInfo {
+  /** Model ID as passed to the API, e.g. "openai/gpt-4o" */
+  id: string;
+  name?: string;
+  /** Maximum prompt plus completion tokens */
+  contextLength?: number;
+  /** Input modalities such as "text" and "image"; empty if the catalog does not say */
+  inputModalities: string[];
+  /** Output modalities such as "text" and "image"; empty if the catalog does not say */
+  outputModalities: string[];
+  /** List price, in the units of AIMO_MODEL_PRICING */
+  pricing?: ModelPricing;
+  /** Supported request features, e.g. "tools" or "response_format" */
+  features: string[];
+}
+
+/**
+ * How configured models are checked against the catalog on startup
+ *
+ * - `warn`: log each unknown or unsuitable model
+ * - `strict`: fail plugin initialization
+ * - `off`: do not fetch the catalog on startup
+ */
+export type ModelValidationMode = "warn" | "strict" | "off";
+
+export const MODEL_VALIDATION_MODES: readonly ModelValidationMode[] = ["warn", "strict", "off"];
+
+interface CatalogState {
+  models?: AimoModelInfo[];
+  fetchedAt: number;
+  loading?: Promise<AimoModelInfo[]>;
+}
+
+/**
+ * Per-runtime model catalog cache
+ */
+const catalogStates = new WeakMap<IAgentRuntime, CatalogState>();
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === "string" ? Number.parseFloat(value) : value;
+  return typeof number === "number" && Number.isFinite(number) ? number : undefined;
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === "string") : [];
+}
+
+/**
+ * Convert catalog prices, quoted in USD per token, to USD per million tokens
+ */
+function parsePricing(pricing: unknown): ModelPricing | undefined {
+  if (!pricing || typeof pricing !== "object") {
+    return undefined;
+  }
+  const { prompt, completion, image } = pricing as Record<string, unknown>;
+  const input = toNumber(prompt);
+  const output = toNumber(completion);
+  const imagePrice = toNumber(image);
+  if (input === undefined && output === undefined && imagePrice === undefined) {
+    return undefined;
+  }
+  return {
+    ...(input !== undefined && { input: input * 1_000_000 }),
+    ...(output !== undefined && { output: output * 1_000_000 }),
+    ...(imagePrice !== undefined && { image: imagePrice }),
+  };
+}
+
+/**
+ * Read one entry of the models route, which follows the OpenAI list format
+ * extended with context length, architecture, pricing and supported parameters
+ */
+function parseModel(entry: unknown): AimoModelInfo | undefined {
+  if (!entry || typeof entry !== "object") {
+    return undefined;
+  }
+  const model = entry as Record<string, any>;
+  if (typeof model.id !== "string" || !model.id) {
+    return undefined;
+  }
+  return {
+    id: model.id,
+    ...(typeof model.name === "string" && { name: model.name }),
+    contextLength: toNumber(model.context_length ?? model.top_provider?.context_length),
+    inputModalities: toStringList(model.architecture?.input_modalities),
+    outputModalities: toStringList(model.architecture?.output_modalities),
+    pricing: parsePricing(model.pricing),
+    features: toStringList(model.supported_parameters ?? model.features),
+  };
+}
+
+async function fetchModelCatalog(runtime: IAgentRuntime, state: CatalogState): Promise<AimoModelInfo[]> {
+  const response = await aimoRequest<{ data?: unknown }>(runtime, "/models", undefined, { method: "GET" });
+  if (!Array.isArray(response?.data)) {
+    throw new Error("AiMo models response is malformed: expected a data array");
+  }
+  const models = response.data.map(parseModel).filter((model): model is AimoModelInfo => !!model);
+  state.models = models;
+  state.fetchedAt = Date.now();
+  logger.debug(`[AiMo] Model catalog loaded with ${models.length} model(s)`);
+  return models;
+}
+
+/**
+ * Get the models available on the AiMo marketplace
+ *
+ * The catalog is cached per runtime for AIMO_MODEL_CATALOG_TTL_MS, and concurrent
+ * callers share one request.
+ *
+ * @param runtime The runtime context
+ * @param options Set `refresh` to fetch the catalog even if the cached one is fresh
+ * @returns The available models
+ * @throws Error if the catalog cannot be fetched
+ */
+export async function getModelCatalog(
+  runtime: IAgentRuntime,
+  options: { refresh?: boolean } = {},
+): Promise<AimoModelInfo[]> {
+  let state = catalogStates.get(runtime);
+  if (!state) {
+    state = { fetchedAt: 0 };
+    catalogStates.set(runtime, state);
+  }
+  if (state.models && !options.refresh && Date.now() - state.fetchedAt < getModelCatalogTtlMs(runtime)) {
+    return state.models;
+  }
+  const current = state;
+  current.loading ??= fetchModelCatalog(runtime, current).finally(() => {
+    current.loading = undefined;
+  });
+  return current.loading;
+}
+
+/**
+ * Get a model of the AiMo marketplace
+ *
+ * @param runtime The runtime context
+ * @param modelId The model ID
+ * @returns The model, or undefined if the marketplace does not offer it
+ * @throws Error if the catalog cannot be fetched
+ */
+export async function getModelInfo(runtime: IAgentRuntime, modelId: string): Promise<AimoModelInfo | undefined> {
+  return (await getModelCatalog(runtime)).find((model) => model.id === modelId);
+}
+
+/**
+ * Get a model of the cached model catalog without fetching it
+ *
+ * @param runtime The runtime context
+ * @param modelId The model ID
+ * @returns The model, or undefined if the catalog has not been fetched or does not list it
+ */
+export function getCachedModelInfo(runtime: IAgentRuntime, modelId: string): AimoModelInfo | undefined {
+  return catalogStates.get(runtime)?.models?.find((model) => model.id === modelId);
+}
+
+/**
+ * Drop the cached model catalog of a runtime
+ *
+ * @param runtime The runtime context
+ */
+export function clearModelCatalog(runtime: IAgentRuntime): void {
+  catalogStates.delete(runtime);
+}
+
+/**
+ * A configured model with what it is used for
+ */
+interface ConfiguredModel {
+  setting: string;
+  model: string;
+  input?: string;
+  output?: string;
+}
+
+function getConfiguredModels(runtime: IAgentRuntime): ConfiguredModel[] {
+  const longContext = getLongContextModel(runtime);
+  const chain = (setting: string, models: string[]): ConfiguredModel[] =>
+    models.map((model, index) => ({
+      setting: index === 0 ? setting : `${setting}_FALLBACKS`,
+      model,
+      output: "text",
+    }));
+  return [
+    ...chain("AIMO_SMALL_MODEL", getSmallModelChain(runtime)),
+    ...chain("AIMO_LARGE_MODEL", getLargeModelChain(runtime)),
+    { setting: "AIMO_VISION_MODEL", model: getVisionModel(runtime), input: "image", output: "text" },
+    { setting: "AIMO_IMAGE_MODEL", model: getImageModel(runtime), output: "image" },
+    { setting: "AIMO_EMBEDDING_MODEL", model: getEmbeddingModel(runtime) },
+    ...(longContext ? [{ setting: "AIMO_LONG_CONTEXT_MODEL", model: longContext, output: "text" }] : []),
+  ];
+}
+
+/**
+ * Edit distance between two model IDs, to suggest the intended model for a typo
+ */
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function suggestModel(catalog: AimoModelInfo[], model: string): string | undefined {
+  let best: { id: string; distance: number } | undefined;
+  for (const { id } of catalog) {
+    const distance = getEditDistance(model.toLowerCase(), id.toLowerCase());
+    if (distance <= 3 && (!best || distance < best.distance)) {
+      best = { id, distance };
+    }
+  }
+  return best?.id;
+}
+
+/**
+ * Check the configured models against the model catalog
+ *
+ * Modalities are only checked for models whose catalog entry lists them. A chain
+ * set to "auto" is checked for at least one model meeting its requirements.
+ *
+ * @param runtime The runtime context
+ * @returns One message per unknown or unsuitable model; empty if all are fine
+ * @throws Error if the catalog cannot be fetched
+ */
+export async function checkConfiguredModels(runtime: IAgentRuntime): Promise<string[]> {
+  const catalog = await getModelCatalog(runtime);
+  const problems: string[] = [];
+  const seen = new Set<string>();
+
+  for (const { setting, model, input, output } of getConfiguredModels(runtime)) {
+    const key = `${setting}:${model}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    if (model === AUTO_MODEL) {
+      const size = setting.startsWith("AIMO_SMALL") ? "small" : "large";
+      let requirements: ModelRequirements;
+      try {
+        requirements = getModelRequirements(runtime, size);
+      } catch (error: unknown) {
+        problems.push(error instanceof Error ? error.message : String(error));
+        continue;
+      }
+      if ((await findCheapestModels(runtime, requirements)).length === 0) {
+        problems.push(`${setting} "${AUTO_MODEL}": no model meets AIMO_${size.toUpperCase()}_MODEL_REQUIREMENTS`);
+      }
+      continue;
+    }
+
+    const info = catalog.find((entry) => entry.id === model);
+    if (!info) {
+      const suggestion = suggestModel(catalog, model);
+      problems.push(
+        `${setting} "${model}" is not offered on AiMo Network${suggestion ? ` (did you mean "${suggestion}"?)` : ""}`,
+      );
+      continue;
+    }
+    if (input && info.inputModalities.length > 0 && !info.inputModalities.includes(input)) {
+      problems.push(`${setting} "${model}" does not accept ${input} input`);
+    }
+    if (output && info.outputModalities.length > 0 && !info.outputModalities.includes(output)) {
+      problems.push(`${setting} "${model}" does not produce ${output} output`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Validate the configured models according to AIMO_MODEL_VALIDATION
+ *
+ * In warn mode, a catalog that cannot be fetched is logged and does not fail validation.
+ *
+ * @param runtime The runtime context
+ * @returns true if every configured model was found and suits its use, or validation is off
+ * @throws Error in strict mode if a configured model is unknown or unsuitable, or the catalog cannot be fetched
+ */
+export async function validateConfiguredModels(runtime: IAgentRuntime): Promise<boolean> {
+  const mode = getModelValidationMode(runtime);
+  if (mode === "off") {
+    return true;
+  }
+
+  let problems: string[];
+  try {
+    problems = await checkConfiguredModels(runtime);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (mode === "strict") {
+      throw new Error(`AiMo models could not be validated: the model catalog could not be fetched (${message})`);
+    }
+    logger.warn(`[AiMo] Could not validate models against the AiMo model catalog: ${message}`);
+    return true;
+  }
+
+  if (problems.length === 0) {
+    return true;
+  }
+  if (mode === "strict") {
+    throw new Error(`AiMo model configuration is invalid: ${problems.join("; ")}`);
+  }
+  for (const problem of problems) {
+    logger.warn(`[AiMo] ${problem}`);
+  }
+  return false;
+}
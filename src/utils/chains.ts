@@ -0,0 +1,276 @@
+import {
+  SOLANA_DEVNET_CHAIN_ID,
+  SOLANA_MAINNET_CHAIN_ID,
+  SOLANA_TESTNET_CHAIN_ID,
+} from "@aimo.network/svm";
+import { EVM_MAINNET_CHAIN_ID } from "@aimo.network/evm";
+import type { WalletType } from "./signer";
+
+/**
+ * CAIP-2 chain ID, e.g. "eip155:1"
+ */
+export type ChainId = `${string}:${string}`;
+
+/**
+ * A token payments are made in
+ */
+export interface AssetInfo {
+  /** Token contract (EVM) or mint (SVM) address */
+  address: string;
+  symbol: string;
+  decimals: number;
+  /** EIP-712 domain name and version of the token, used to sign EVM transfer authorizations */
+  eip712?: { name: string; version: string };
+}
+
+/**
+ * A network the plugin can pay on
+ */
+export interface ChainInfo {
+  chainId: ChainId;
+  walletType: WalletType;
+  name: string;
+  /** Friendly names accepted in AIMO_CHAIN_ID, lowercase */
+  aliases: string[];
+  testnet: boolean;
+  /** Native USDC on this network, if Circle issues it there */
+  usdc?: AssetInfo;
+}
+
+/**
+ * Native USDC with the EIP-712 domain Circle deployed it under
+ */
+function usdc(address: string, eip712Name?: string): AssetInfo {
+  return {
+    address,
+    symbol: "USDC",
+    decimals: 6,
+    ...(eip712Name && { eip712: { name: eip712Name, version: "2" } }),
+  };
+}
+
+/**
+ * CAIP-2 namespace of each wallet type
+ */
+const WALLET_NAMESPACES: Record<WalletType, string> = {
+  svm: "solana",
+  evm: "eip155",
+};
+
+/**
+ * Supported networks; the first network of each wallet type is its default
+ */
+const CHAINS: ChainInfo[] = [
+  {
+    chainId: SOLANA_MAINNET_CHAIN_ID,
+    walletType: "svm",
+    name: "Solana Mainnet",
+    aliases: ["mainnet", "mainnet-beta", "solana", "solana-mainnet"],
+    testnet: false,
+    usdc: usdc("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v"),
+  },
+  {
+    chainId: SOLANA_DEVNET_CHAIN_ID,
+    walletType: "svm",
+    name: "Solana Devnet",
+    aliases: ["devnet", "solana-devnet"],
+    testnet: true,
+    usdc: usdc("4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU"),
+  },
+  {
+    chainId: SOLANA_TESTNET_CHAIN_ID,
+    walletType: "svm",
+    name: "Solana Testnet",
+    aliases: ["testnet", "solana-testnet"],
+    testnet: true,
+  },
+  {
+    chainId: EVM_MAINNET_CHAIN_ID,
+    walletType: "evm",
+    name: "Ethereum Mainnet",
+    aliases: ["mainnet", "ethereum", "eth", "ethereum-mainnet"],
+    testnet: false,
+    usdc: usdc("0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", "USD Coin"),
+  },
+  {
+    chainId: "eip155:11155111",
+    walletType: "evm",
+    name: "Ethereum Sepolia",
+    aliases: ["sepolia", "ethereum-sepolia"],
+    testnet: true,
+    usdc: usdc("0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238", "USDC"),
+  },
+  {
+    chainId: "eip155:8453",
+    walletType: "evm",
+    name: "Base",
+    aliases: ["base", "base-mainnet"],
+    testnet: false,
+    usdc: usdc("0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", "USD Coin"),
+  },
+  {
+    chainId: "eip155:84532",
+    walletType: "evm",
+    name: "Base Sepolia",
+    aliases: ["base-sepolia"],
+    testnet: true,
+    usdc: usdc("0x036CbD53842c5426634e7929541eC2318f3dCF7e", "USDC"),
+  },
+  {
+    chainId: "eip155:10",
+    walletType: "evm",
+    name: "Optimism",
+    aliases: ["optimism", "op", "op-mainnet"],
+    testnet: false,
+    usdc: usdc("0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85", "USD Coin"),
+  },
+  {
+    chainId: "eip155:42161",
+    walletType: "evm",
+    name: "Arbitrum One",
+    aliases: ["arbitrum", "arbitrum-one", "arb"],
+    testnet: false,
+    usdc: usdc("0xaf88d065e77c8cC2239327C5EDb3A432268e5831", "USD Coin"),
+  },
+  {
+    chainId: "eip155:137",
+    walletType: "evm",
+    name: "Polygon",
+    aliases: ["polygon", "polygon-pos", "matic"],
+    testnet: false,
+    usdc: usdc("0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359", "USD Coin"),
+  },
+];
+
+const CAIP2_PATTERN = /^([-a-z0-9]{3,8}):([-_a-zA-Z0-9]{1,32})$/;
+
+/**
+ * Parse a CAIP-2 chain ID
+ *
+ * @param value Chain ID such as "eip155:1"
+ * @returns The namespace and reference, or undefined if the value is not CAIP-2
+ */
+export function parseCaip2(value: string): { namespace: string; reference: string } | undefined {
+  const match = CAIP2_PATTERN.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  return { namespace: match[1], reference: match[2] };
+}
+
+/**
+ * Get the supported networks
+ *
+ * @param walletType Only return networks of this wallet type
+ * @returns Supported networks, defaults first
+ */
+export function getSupportedChains(walletType?: WalletType): ChainInfo[] {
+  return CHAINS.filter((chain) => !walletType || chain.walletType === walletType);
+}
+
+/**
+ * Get a supported network by its CAIP-2 chain ID
+ *
+ * @param chainId CAIP-2 chain ID
+ * @returns The network, or undefined if it is not supported
+ */
+export function getChainInfo(chainId: string): ChainInfo | undefined {
+  return CHAINS.find((chain) => chain.chainId === chainId);
+}
+
+/**
+ * Look up a known payment asset
+ *
+ * @param chainId CAIP-2 chain ID the payment is made on
+ * @param address Token contract or mint address
+ * @returns The asset, or undefined if it is not a known asset of that network
+ */
+export function getAssetInfo(chainId: string, address: string): AssetInfo | undefined {
+  const asset = getChainInfo(chainId)?.usdc;
+  if (!asset) {
+    return undefined;
+  }
+  // EVM addresses are case-insensitive, Solana mints are not
+  const matches = chainId.startsWith("eip155:")
+    ? asset.address.toLowerCase() === address.toLowerCase()
+    : asset.address === address;
+  return matches ? asset : undefined;
+}
+
+/**
+ * Get the default network of a wallet type
+ */
+export function getDefaultChain(walletType: WalletType): ChainInfo {
+  return getSupportedChains(walletType)[0];
+}
+
+function describeSupportedChains(walletType: WalletType): string {
+  return getSupportedChains(walletType)
+    .map((chain) => `${chain.chainId} (${chain.aliases[0]})`)
+    .join(", ");
+}
+
+/**
+ * Resolve a configured chain to a supported network
+ *
+ * Accepts a CAIP-2 chain ID ("eip155:11155111"), an alias ("sepolia") or, for
+ * EVM wallets, a bare numeric chain ID ("11155111").
+ *
+ * @param walletType The configured wallet type
+ * @param value The configured chain
+ * @returns The network
+ * @throws Error if the chain is malformed, unknown, or belongs to the other wallet type
+ */
+export function resolveChain(walletType: WalletType, value: string): ChainInfo {
+  const input = value.trim();
+  const lower = input.toLowerCase();
+  const namespace = WALLET_NAMESPACES[walletType];
+
+  let chainId: string | undefined;
+  const caip2 = parseCaip2(input);
+  if (caip2) {
+    chainId = `${caip2.namespace}:${caip2.reference}`;
+  } else if (walletType === "evm" && /^\d+$/.test(input)) {
+    chainId = `eip155:${input}`;
+  } else if (input.includes(":")) {
+    throw new Error(`Invalid chain ID "${value}": expected a CAIP-2 ID such as "${getDefaultChain(walletType).chainId}"`);
+  }
+
+  const chain = chainId
+    ? getChainInfo(chainId)
+    : CHAINS.find((candidate) => candidate.walletType === walletType && candidate.aliases.includes(lower));
+
+  if (chain && chain.walletType === walletType) {
+    return chain;
+  }
+
+  const other = chain ?? (caip2 ? undefined : CHAINS.find((candidate) => candidate.aliases.includes(lower)));
+  if (other || (caip2 && caip2.namespace !== namespace)) {
+    throw new Error(
+      `Chain "${value}"${other ? ` (${other.name})` : ""} is not an ${walletType.toUpperCase()} network. ` +
+        `Check that AIMO_CHAIN_ID matches AIMO_WALLET_TYPE.`,
+    );
+  }
+
+  throw new Error(
+    `Unsupported chain "${value}" for ${walletType.toUpperCase()} wallets. Supported: ${describeSupportedChains(walletType)}`,
+  );
+}
+
+/**
+ * Resolve a configured chain without knowing the wallet type
+ *
+ * Only CAIP-2 chain IDs are accepted, since aliases and numeric IDs need the
+ * wallet type to resolve.
+ *
+ * @param value The configured chain
+ * @returns The network
+ * @throws Error if the chain is not the CAIP-2 ID of a supported network
+ */
+export function resolveCaip2Chain(value: string): ChainInfo {
+  const chain = getChainInfo(value.trim());
+  if (!chain) {
+    throw new Error(`Chain "${value}" is not the CAIP-2 ID of a supported network. Set AIMO_WALLET_TYPE to use an alias.`);
+  }
+  return chain;
+}
@@ -1,6 +1,15 @@
-import { IAgentRuntime, logger } from "@elizaos/core";
+import { IAgentRuntime, logger, VECTOR_DIMS } from "@elizaos/core";
 import type { WalletType, SignerConfig } from "./signer";
-import { createSignerFromConfig, validateWalletConfig } from "./signer";
+import { resolveCaip2Chain, resolveChain } from "./chains";
+import { getRemoteSignerApprovalHook } from "./remote-signer";
+import type { BudgetLimits, ModelPricing } from "./budget";
+import type { RetryConfig } from "./retry";
+import type { TimeoutConfig } from "./timeout";
+import { WALLET_STRATEGIES, type WalletConfig, type WalletStrategy } from "./wallets";
+import { MODEL_VALIDATION_MODES, getCachedModelInfo, type ModelValidationMode } from "./catalog";
+import type { ModelRequirements } from "./routing";
+import { CONTEXT_POLICIES, type ContextPolicy } from "./context";
+import { RESPONSE_CACHE_BACKENDS, type ResponseCacheBackend, type ResponseCacheConfig } from "./response-cache";
 
 /* Retrieves a configuration setting from the runtime, falling back to environment variables or a default value if not found.
  *
@@ -18,7 +27,8 @@ export function getSetting(
   if (value !== undefined && value !== null) {
     return String(value);
   }
-  return process.env[key] ?? defaultValue;
+  // Browsers have no process environment
+  return globalThis.process?.env[key] ?? defaultValue;
 }
 
 /* Retrieves the AiMo Network API base URL from runtime settings, environment variables, or defaults.
@@ -59,6 +69,100 @@ export function getPrivateKey(runtime: IAgentRuntime): string | undefined {
   return getSetting(runtime, "AIMO_PRIVATE_KEY");
 }
 
+/**
+ * Helper function to get the path of the file holding the wallet private key
+ *
+ * @param runtime The runtime context
+ * @returns The configured key file path
+ */
+export function getPrivateKeyFile(runtime: IAgentRuntime): string | undefined {
+  return getSetting(runtime, "AIMO_PRIVATE_KEY_FILE");
+}
+
+/**
+ * Helper function to get the password of an EVM keystore v3 private key
+ *
+ * @param runtime The runtime context
+ * @returns The configured keystore password
+ */
+export function getKeystorePassword(runtime: IAgentRuntime): string | undefined {
+  return getSetting(runtime, "AIMO_KEYSTORE_PASSWORD");
+}
+
+/**
+ * Helper function to get the BIP-39 mnemonic to derive the wallet key from
+ *
+ * @param runtime The runtime context
+ * @returns The configured mnemonic
+ */
+export function getMnemonic(runtime: IAgentRuntime): string | undefined {
+  return getSetting(runtime, "AIMO_MNEMONIC");
+}
+
+/**
+ * Helper function to get the derivation path of the mnemonic wallet
+ *
+ * @param runtime The runtime context
+ * @returns The configured derivation path, which may contain `{index}`
+ */
+export function getDerivationPathSetting(runtime: IAgentRuntime): string | undefined {
+  return getSetting(runtime, "AIMO_DERIVATION_PATH");
+}
+
+/**
+ * Helper function to get the URL of the remote signer service
+ *
+ * @param runtime The runtime context
+ * @returns The configured remote signer URL
+ */
+export function getRemoteSignerUrl(runtime: IAgentRuntime): string | undefined {
+  return getSetting(runtime, "AIMO_REMOTE_SIGNER_URL");
+}
+
+/**
+ * Helper function to get the secret authenticating requests to the remote signer
+ *
+ * @param runtime The runtime context
+ * @returns The configured remote signer secret
+ */
+export function getRemoteSignerSecret(runtime: IAgentRuntime): string | undefined {
+  return getSetting(runtime, "AIMO_REMOTE_SIGNER_SECRET");
+}
+
+/**
+ * Helper function to get the URL of the signing proxy that pays for this agent
+ *
+ * @param runtime The runtime context
+ * @returns The configured proxy URL
+ */
+export function getProxyUrl(runtime: IAgentRuntime): string | undefined {
+  return getSetting(runtime, "AIMO_PROXY_URL");
+}
+
+/**
+ * Helper function to get the token authenticating this agent at the signing proxy
+ *
+ * @param runtime The runtime context
+ * @returns The configured proxy token
+ */
+export function getProxyToken(runtime: IAgentRuntime): string | undefined {
+  return getSetting(runtime, "AIMO_PROXY_TOKEN");
+}
+
+/**
+ * Helper function to get the account index of the mnemonic wallet
+ *
+ * Invalid values are passed through as NaN so that they fail validation
+ * instead of silently selecting another wallet.
+ *
+ * @param runtime The runtime context
+ * @returns The configured account index
+ */
+export function getAccountIndex(runtime: IAgentRuntime): number | undefined {
+  const value = getSetting(runtime, "AIMO_ACCOUNT_INDEX");
+  return value?.trim() ? Number(value) : undefined;
+}
+
 /**
  * Helper function to get the chain ID for wallet signer
  *
@@ -97,36 +201,634 @@ export function getLargeModel(runtime: IAgentRuntime): string {
   );
 }
 
+/**
+ * Parse a comma-separated list setting into trimmed, non-empty entries
+ */
+function parseListSetting(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Helper function to get the small model followed by its fallbacks
+ *
+ * @param runtime The runtime context
+ * @returns The small model and the models listed in AIMO_SMALL_MODEL_FALLBACKS, in order
+ */
+export function getSmallModelChain(runtime: IAgentRuntime): string[] {
+  return [
+    ...new Set([
+      getSmallModel(runtime),
+      ...parseListSetting(getSetting(runtime, "AIMO_SMALL_MODEL_FALLBACKS")),
+    ]),
+  ];
+}
+
+/**
+ * Helper function to get the large model followed by its fallbacks
+ *
+ * @param runtime The runtime context
+ * @returns The large model and the models listed in AIMO_LARGE_MODEL_FALLBACKS, in order
+ */
+export function getLargeModelChain(runtime: IAgentRuntime): string[] {
+  return [
+    ...new Set([
+      getLargeModel(runtime),
+      ...parseListSetting(getSetting(runtime, "AIMO_LARGE_MODEL_FALLBACKS")),
+    ]),
+  ];
+}
+
+const REQUIREMENT_KEYS: Record<keyof ModelRequirements, "number" | "boolean"> = {
+  minContextLength: "number",
+  tools: "boolean",
+  jsonMode: "boolean",
+  vision: "boolean",
+  maxUsdPerMillionTokens: "number",
+};
+
+/**
+ * Helper function to get the requirements a model set to "auto" must meet
+ *
+ * @param runtime The runtime context
+ * @param size Whether to read AIMO_SMALL_MODEL_REQUIREMENTS or AIMO_LARGE_MODEL_REQUIREMENTS
+ * @returns The declared requirements; empty if none are set
+ * @throws Error if the setting is not a JSON object of known requirements
+ */
+export function getModelRequirements(runtime: IAgentRuntime, size: "small" | "large"): ModelRequirements {
+  const key = size === "small" ? "AIMO_SMALL_MODEL_REQUIREMENTS" : "AIMO_LARGE_MODEL_REQUIREMENTS";
+  const configured = getSetting(runtime, key);
+  if (!configured) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(configured);
+  } catch {
+    throw new Error(`Invalid ${key}: not valid JSON`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Invalid ${key}: expected a JSON object`);
+  }
+  for (const [name, value] of Object.entries(parsed)) {
+    const type = REQUIREMENT_KEYS[name as keyof ModelRequirements];
+    if (!type) {
+      throw new Error(`Invalid ${key}: unknown requirement "${name}"`);
+    }
+    if (typeof value !== type || (type === "number" && !(Number.isFinite(value) && (value as number) >= 0))) {
+      throw new Error(`Invalid ${key}: ${name} must be a ${type === "number" ? "non-negative number" : "boolean"}`);
+    }
+  }
+  return parsed as ModelRequirements;
+}
+
+/**
+ * Helper function to get the vision model used for image description
+ *
+ * @param runtime The runtime context
+ * @returns The configured vision model name
+ */
+export function getVisionModel(runtime: IAgentRuntime): string {
+  return (
+    getSetting(runtime, "AIMO_VISION_MODEL") ??
+    getSetting(runtime, "IMAGE_DESCRIPTION_MODEL", "openai/gpt-4o-mini") ??
+    "openai/gpt-4o-mini"
+  );
+}
+
+/**
+ * Helper function to get the image generation model
+ *
+ * @param runtime The runtime context
+ * @returns The configured image generation model name
+ */
+export function getImageModel(runtime: IAgentRuntime): string {
+  return (
+    getSetting(runtime, "AIMO_IMAGE_MODEL") ??
+    getSetting(runtime, "IMAGE_MODEL", "openai/dall-e-3") ??
+    "openai/dall-e-3"
+  );
+}
+
+/**
+ * Helper function to get the directory generated images are written to
+ *
+ * @param runtime The runtime context
+ * @returns The configured output directory, or undefined to return images inline
+ */
+export function getImageOutputDir(runtime: IAgentRuntime): string | undefined {
+  return getSetting(runtime, "AIMO_IMAGE_OUTPUT_DIR") || undefined;
+}
+
+/**
+ * Helper function to get the embedding model name
+ *
+ * @param runtime The runtime context
+ * @returns The configured embedding model name
+ */
+export function getEmbeddingModel(runtime: IAgentRuntime): string {
+  return (
+    getSetting(runtime, "AIMO_EMBEDDING_MODEL") ??
+    getSetting(runtime, "EMBEDDING_MODEL", "openai/text-embedding-3-small") ??
+    "openai/text-embedding-3-small"
+  );
+}
+
+/**
+ * Helper function to get the embedding vector size
+ *
+ * Reads AIMO_EMBEDDING_DIMENSIONS (or EMBEDDING_DIMENSIONS) and checks it against
+ * the vector sizes supported by the ElizaOS memory store.
+ *
+ * @param runtime The runtime context
+ * @returns The embedding dimension and whether it was set explicitly
+ * @throws Error if the configured dimension is not one of VECTOR_DIMS
+ */
+export function getEmbeddingDimensions(runtime: IAgentRuntime): {
+  dimensions: (typeof VECTOR_DIMS)[keyof typeof VECTOR_DIMS];
+  explicit: boolean;
+} {
+  const configured =
+    getSetting(runtime, "AIMO_EMBEDDING_DIMENSIONS") ??
+    getSetting(runtime, "EMBEDDING_DIMENSIONS");
+  const dimensions = Number.parseInt(configured ?? "1536", 10) as (typeof VECTOR_DIMS)[keyof typeof VECTOR_DIMS];
+
+  if (!Object.values(VECTOR_DIMS).includes(dimensions)) {
+    throw new Error(
+      `Invalid embedding dimension: ${configured}. Must be one of: ${Object.values(VECTOR_DIMS).join(", ")}`
+    );
+  }
+
+  return { dimensions, explicit: configured !== undefined };
+}
+
+/**
+ * Helper function to get the maximum number of texts sent in one embeddings request
+ *
+ * @param runtime The runtime context
+ * @returns The configured batch size (defaults to 64)
+ */
+export function getEmbeddingBatchSize(runtime: IAgentRuntime): number {
+  const value = Number.parseInt(getSetting(runtime, "AIMO_EMBEDDING_BATCH_SIZE", "64") ?? "64", 10);
+  return Number.isFinite(value) && value > 0 ? value : 64;
+}
+
+/**
+ * Helper function to get the window in which concurrent embedding calls are coalesced
+ *
+ * @param runtime The runtime context
+ * @returns The configured window in milliseconds (defaults to 10, 0 disables coalescing)
+ */
+export function getEmbeddingBatchWindowMs(runtime: IAgentRuntime): number {
+  const value = Number.parseInt(getSetting(runtime, "AIMO_EMBEDDING_BATCH_WINDOW_MS", "10") ?? "10", 10);
+  return Number.isFinite(value) && value >= 0 ? value : 10;
+}
+
+/**
+ * Helper function to get the maximum number of generation steps in a tool loop
+ *
+ * @param runtime The runtime context
+ * @returns The configured step limit (defaults to 5)
+ */
+export function getMaxToolSteps(runtime: IAgentRuntime): number {
+  const value = Number.parseInt(getSetting(runtime, "AIMO_MAX_TOOL_STEPS", "5") ?? "5", 10);
+  return Number.isFinite(value) && value > 0 ? value : 5;
+}
+
+/**
+ * Helper function to get the retry behaviour for AiMo calls
+ *
+ * @param runtime The runtime context
+ * @returns Attempts (default 3), base delay (default 500ms), max delay (default 8000ms) and jitter (default 0.5)
+ */
+export function getRetryConfig(runtime: IAgentRuntime): RetryConfig {
+  const maxAttempts = Number.parseInt(getSetting(runtime, "AIMO_RETRY_MAX_ATTEMPTS", "3") ?? "3", 10);
+  const baseDelayMs = Number.parseInt(getSetting(runtime, "AIMO_RETRY_BASE_DELAY_MS", "500") ?? "500", 10);
+  const maxDelayMs = Number.parseInt(getSetting(runtime, "AIMO_RETRY_MAX_DELAY_MS", "8000") ?? "8000", 10);
+  const jitter = Number.parseFloat(getSetting(runtime, "AIMO_RETRY_JITTER", "0.5") ?? "0.5");
+
+  return {
+    maxAttempts: Number.isFinite(maxAttempts) && maxAttempts > 0 ? maxAttempts : 3,
+    baseDelayMs: Number.isFinite(baseDelayMs) && baseDelayMs >= 0 ? baseDelayMs : 500,
+    maxDelayMs: Number.isFinite(maxDelayMs) && maxDelayMs >= 0 ? maxDelayMs : 8000,
+    jitter: Number.isFinite(jitter) && jitter >= 0 && jitter <= 1 ? jitter : 0.5,
+  };
+}
+
+/**
+ * Helper function to get the timeouts applied to AiMo calls
+ *
+ * @param runtime The runtime context
+ * @returns Request timeout (default 60000ms) and stream idle timeout (default 30000ms); 0 disables either
+ */
+export function getTimeoutConfig(runtime: IAgentRuntime): TimeoutConfig {
+  const requestTimeoutMs = Number.parseInt(getSetting(runtime, "AIMO_REQUEST_TIMEOUT_MS", "60000") ?? "60000", 10);
+  const streamIdleTimeoutMs = Number.parseInt(getSetting(runtime, "AIMO_STREAM_IDLE_TIMEOUT_MS", "30000") ?? "30000", 10);
+
+  return {
+    requestTimeoutMs: Number.isFinite(requestTimeoutMs) && requestTimeoutMs >= 0 ? requestTimeoutMs : 60000,
+    streamIdleTimeoutMs:
+      Number.isFinite(streamIdleTimeoutMs) && streamIdleTimeoutMs >= 0 ? streamIdleTimeoutMs : 30000,
+  };
+}
+
+/**
+ * Helper function to get the response cache settings
+ *
+ * @param runtime The runtime context
+ * @returns Backend from AIMO_RESPONSE_CACHE (default off), TTL (default 3600000ms), at most 1000 entries
+ * and 50 MB, directory (default ~/.cache/aimo-response-cache/<agent id>) and max temperature (default 0)
+ */
+export function getResponseCacheConfig(runtime: IAgentRuntime): ResponseCacheConfig {
+  const backend = getSetting(runtime, "AIMO_RESPONSE_CACHE");
+  const ttlMs = Number.parseInt(getSetting(runtime, "AIMO_RESPONSE_CACHE_TTL_MS", "3600000") ?? "3600000", 10);
+  const maxEntries = Number.parseInt(getSetting(runtime, "AIMO_RESPONSE_CACHE_MAX_ENTRIES", "1000") ?? "1000", 10);
+  const maxBytes = Number.parseInt(getSetting(runtime, "AIMO_RESPONSE_CACHE_MAX_BYTES", "52428800") ?? "52428800", 10);
+  const maxTemperature = Number.parseFloat(getSetting(runtime, "AIMO_RESPONSE_CACHE_MAX_TEMPERATURE", "0") ?? "0");
+
+  return {
+    backend: RESPONSE_CACHE_BACKENDS.includes(backend as ResponseCacheBackend)
+      ? (backend as ResponseCacheBackend)
+      : undefined,
+    ttlMs: Number.isFinite(ttlMs) && ttlMs > 0 ? ttlMs : 3600000,
+    maxEntries: Number.isFinite(maxEntries) && maxEntries > 0 ? maxEntries : 1000,
+    maxBytes: Number.isFinite(maxBytes) && maxBytes > 0 ? maxBytes : 52428800,
+    dir: getSetting(runtime, "AIMO_RESPONSE_CACHE_DIR") || undefined,
+    maxTemperature: Number.isFinite(maxTemperature) && maxTemperature >= 0 ? maxTemperature : 0,
+  };
+}
+
+/**
+ * List prices (USD per million tokens, or per image) of the default models, used
+ * when AIMO_MODEL_PRICING does not list a model
+ */
+const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  "openai/gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "openai/gpt-4o": { input: 2.5, output: 10 },
+  "openai/text-embedding-3-small": { input: 0.02 },
+  "openai/text-embedding-3-large": { input: 0.13 },
+  "openai/dall-e-3": { image: 0.04 },
+};
+
+/**
+ * Parse a USD amount setting
+ */
+function parseUsdSetting(value: string | undefined, key: string): number | undefined {
+  if (value === undefined || value.trim() === "") {
+    return undefined;
+  }
+  const amount = Number.parseFloat(value);
+  if (!Number.isFinite(amount) || amount < 0) {
+    logger.warn(`Ignoring invalid ${key}: ${value}`);
+    return undefined;
+  }
+  return amount;
+}
+
+/**
+ * Helper function to get the configured spend caps
+ *
+ * AIMO_MAX_USD_PER_MODEL lists daily caps as `model=usd` pairs separated by commas.
+ *
+ * @param runtime The runtime context
+ * @returns Per-call, per-day and per-model caps in USD
+ */
+export function getBudgetLimits(runtime: IAgentRuntime): BudgetLimits {
+  const perModelUsd: Record<string, number> = {};
+  for (const entry of parseListSetting(getSetting(runtime, "AIMO_MAX_USD_PER_MODEL"))) {
+    const separator = entry.lastIndexOf("=");
+    const amount =
+      separator > 0
+        ? parseUsdSetting(entry.slice(separator + 1), "AIMO_MAX_USD_PER_MODEL")
+        : undefined;
+    if (amount === undefined) {
+      logger.warn(`Ignoring invalid AIMO_MAX_USD_PER_MODEL entry: ${entry}`);
+      continue;
+    }
+    perModelUsd[entry.slice(0, separator).trim()] = amount;
+  }
+
+  return {
+    perCallUsd: parseUsdSetting(getSetting(runtime, "AIMO_MAX_USD_PER_CALL"), "AIMO_MAX_USD_PER_CALL"),
+    perDayUsd: parseUsdSetting(getSetting(runtime, "AIMO_MAX_USD_PER_DAY"), "AIMO_MAX_USD_PER_DAY"),
+    perModelUsd,
+  };
+}
+
+/**
+ * Helper function to get the price of a model
+ *
+ * Reads AIMO_MODEL_PRICING, a JSON object of `{ "model": { "input", "output", "image" } }`
+ * with token prices per million tokens, and falls back to the prices of the cached
+ * model catalog, then to the built-in list prices.
+ *
+ * @param runtime The runtime context
+ * @param model The model ID
+ * @returns The model price, or undefined if unknown
+ */
+export function getModelPricing(runtime: IAgentRuntime, model: string): ModelPricing | undefined {
+  const configured = getSetting(runtime, "AIMO_MODEL_PRICING");
+  if (configured) {
+    try {
+      const pricing = JSON.parse(configured) as Record<string, ModelPricing>;
+      if (pricing[model]) {
+        return pricing[model];
+      }
+    } catch {
+      logger.warn("Ignoring AIMO_MODEL_PRICING: not valid JSON");
+    }
+  }
+  return getCachedModelInfo(runtime, model)?.pricing ?? DEFAULT_MODEL_PRICING[model];
+}
+
+/**
+ * Helper function to get the low balance alert threshold
+ *
+ * @param runtime The runtime context
+ * @returns AIMO_LOW_BALANCE_USD in USD, or undefined if alerts are disabled
+ */
+export function getLowBalanceThreshold(runtime: IAgentRuntime): number | undefined {
+  return parseUsdSetting(getSetting(runtime, "AIMO_LOW_BALANCE_USD"), "AIMO_LOW_BALANCE_USD");
+}
+
+/**
+ * Helper function to get the background balance check interval
+ *
+ * @param runtime The runtime context
+ * @returns Interval in milliseconds (default 300000); 0 disables periodic checks
+ */
+export function getBalanceCheckIntervalMs(runtime: IAgentRuntime): number {
+  const intervalMs = Number.parseInt(
+    getSetting(runtime, "AIMO_BALANCE_CHECK_INTERVAL_MS", "300000") ?? "300000",
+    10,
+  );
+  return Number.isFinite(intervalMs) && intervalMs >= 0 ? intervalMs : 300000;
+}
+
+/**
+ * Read one AIMO_WALLETS entry
+ */
+function parseWalletEntry(entry: unknown, index: number, runtime: IAgentRuntime): WalletConfig {
+  if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+    throw new Error(`Invalid AIMO_WALLETS: entry ${index + 1} is not an object`);
+  }
+  const wallet = entry as Record<string, unknown>;
+  const name = wallet.name ?? `wallet-${index + 1}`;
+  if (typeof name !== "string" || !name.trim()) {
+    throw new Error(`Invalid AIMO_WALLETS: entry ${index + 1} has an invalid name`);
+  }
+  // A proxy wallet without walletType pays with the proxy's wallet type
+  if (wallet.walletType !== "svm" && wallet.walletType !== "evm" && (wallet.walletType !== undefined || !wallet.proxyUrl)) {
+    throw new Error(`Invalid AIMO_WALLETS: wallet "${name}" needs walletType "svm" or "evm"`);
+  }
+  if (
+    wallet.models !== undefined &&
+    (!Array.isArray(wallet.models) || !wallet.models.every((model) => typeof model === "string"))
+  ) {
+    throw new Error(`Invalid AIMO_WALLETS: wallet "${name}" has models that are not a list of model IDs`);
+  }
+  for (const key of [
+    "privateKey",
+    "privateKeyFile",
+    "keystorePassword",
+    "mnemonic",
+    "derivationPath",
+    "remoteSignerUrl",
+    "remoteSignerSecret",
+    "proxyUrl",
+    "proxyToken",
+    "chainId",
+  ]) {
+    if (wallet[key] !== undefined && typeof wallet[key] !== "string") {
+      throw new Error(`Invalid AIMO_WALLETS: wallet "${name}" has a ${key} that is not a string`);
+    }
+  }
+  if (!wallet.privateKey && !wallet.privateKeyFile && !wallet.mnemonic && !wallet.remoteSignerUrl && !wallet.proxyUrl) {
+    throw new Error(`Invalid AIMO_WALLETS: wallet "${name}" needs privateKey, privateKeyFile, mnemonic, remoteSignerUrl or proxyUrl`);
+  }
+
+  return {
+    name: name.trim(),
+    walletType: wallet.walletType,
+    privateKey: wallet.privateKey as string | undefined,
+    privateKeyFile: wallet.privateKeyFile as string | undefined,
+    keystorePassword: wallet.keystorePassword as string | undefined,
+    mnemonic: wallet.mnemonic as string | undefined,
+    derivationPath: wallet.derivationPath as string | undefined,
+    accountIndex: wallet.accountIndex === undefined ? undefined : Number(wallet.accountIndex),
+    remoteSignerUrl: wallet.remoteSignerUrl as string | undefined,
+    remoteSignerSecret: wallet.remoteSignerSecret as string | undefined,
+    remoteSignerApprove: getRemoteSignerApprovalHook(runtime),
+    proxyUrl: wallet.proxyUrl as string | undefined,
+    proxyToken: wallet.proxyToken as string | undefined,
+    chainId: wallet.chainId as string | undefined,
+    models: wallet.models as string[] | undefined,
+  };
+}
+
+/**
+ * Helper function to get the wallets the runtime pays from
+ *
+ * AIMO_WALLETS takes a JSON array of wallets; without it, the single wallet of
+ * AIMO_WALLET_TYPE and AIMO_PRIVATE_KEY (or its alternatives) is named "default".
+ *
+ * @param runtime The runtime context
+ * @returns The wallets in order of preference; empty if none is configured
+ * @throws Error if AIMO_WALLETS is malformed
+ */
+export function getWalletConfigs(runtime: IAgentRuntime): WalletConfig[] {
+  const configured = getSetting(runtime, "AIMO_WALLETS");
+  if (!configured) {
+    const signerConfig = getSignerConfig(runtime);
+    return signerConfig ? [{ ...signerConfig, name: "default" }] : [];
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(configured);
+  } catch {
+    throw new Error("Invalid AIMO_WALLETS: not valid JSON");
+  }
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error("Invalid AIMO_WALLETS: expected a non-empty JSON array of wallets");
+  }
+
+  const wallets = entries.map((entry, index) => parseWalletEntry(entry, index, runtime));
+  const names = new Set<string>();
+  for (const wallet of wallets) {
+    if (names.has(wallet.name)) {
+      throw new Error(`Invalid AIMO_WALLETS: wallet name "${wallet.name}" is used more than once`);
+    }
+    names.add(wallet.name);
+  }
+  return wallets;
+}
+
+/**
+ * Helper function to get how a wallet is chosen for each call
+ *
+ * @param runtime The runtime context
+ * @returns AIMO_WALLET_STRATEGY (default "failover")
+ */
+export function getWalletStrategy(runtime: IAgentRuntime): WalletStrategy {
+  const strategy = getSetting(runtime, "AIMO_WALLET_STRATEGY", "failover");
+  return WALLET_STRATEGIES.includes(strategy as WalletStrategy) ? (strategy as WalletStrategy) : "failover";
+}
+
+/**
+ * Helper function to get how long a failed wallet is skipped
+ *
+ * @param runtime The runtime context
+ * @returns Cooldown in milliseconds (default 300000)
+ */
+export function getWalletCooldownMs(runtime: IAgentRuntime): number {
+  const cooldownMs = Number.parseInt(getSetting(runtime, "AIMO_WALLET_COOLDOWN_MS", "300000") ?? "300000", 10);
+  return Number.isFinite(cooldownMs) && cooldownMs >= 0 ? cooldownMs : 300000;
+}
+
+/**
+ * Helper function to get what happens to a prompt that does not fit its model's context window
+ *
+ * @param runtime The runtime context
+ * @returns AIMO_CONTEXT_POLICY (default "upgrade")
+ */
+export function getContextPolicy(runtime: IAgentRuntime): ContextPolicy {
+  const policy = getSetting(runtime, "AIMO_CONTEXT_POLICY", "upgrade");
+  return CONTEXT_POLICIES.includes(policy as ContextPolicy) ? (policy as ContextPolicy) : "upgrade";
+}
+
+/**
+ * Helper function to get the model prompts are upgraded to when the large model cannot fit them
+ *
+ * @param runtime The runtime context
+ * @returns The configured long-context model name
+ */
+export function getLongContextModel(runtime: IAgentRuntime): string | undefined {
+  return getSetting(runtime, "AIMO_LONG_CONTEXT_MODEL") || undefined;
+}
+
+/**
+ * Helper function to get how configured models are checked against the model catalog
+ *
+ * @param runtime The runtime context
+ * @returns AIMO_MODEL_VALIDATION (default "warn")
+ */
+export function getModelValidationMode(runtime: IAgentRuntime): ModelValidationMode {
+  const mode = getSetting(runtime, "AIMO_MODEL_VALIDATION", "warn");
+  return MODEL_VALIDATION_MODES.includes(mode as ModelValidationMode) ? (mode as ModelValidationMode) : "warn";
+}
+
+/**
+ * Helper function to get how long the model catalog is cached
+ *
+ * @param runtime The runtime context
+ * @returns Cache lifetime in milliseconds (default 3600000)
+ */
+export function getModelCatalogTtlMs(runtime: IAgentRuntime): number {
+  const ttlMs = Number.parseInt(getSetting(runtime, "AIMO_MODEL_CATALOG_TTL_MS", "3600000") ?? "3600000", 10);
+  return Number.isFinite(ttlMs) && ttlMs >= 0 ? ttlMs : 3600000;
+}
+
 /**
  * Validate the complete AiMo wallet configuration
  *
+ * The key checks need Node.js, so they are loaded on first validation.
+ *
  * @param runtime The runtime context
  * @returns true if configuration is valid, false otherwise
  */
-export function validateWalletConfiguration(runtime: IAgentRuntime): boolean {
+export async function validateWalletConfiguration(runtime: IAgentRuntime): Promise<boolean> {
+  const { checkSignerKey } = await import("./keys");
+  if (getSetting(runtime, "AIMO_WALLETS")) {
+    return validateWallets(runtime, checkSignerKey);
+  }
+  
   const walletType = getWalletType(runtime);
-  const privateKey = getPrivateKey(runtime);
   
-  if (!walletType) {
+  // A proxy without AIMO_WALLET_TYPE pays with its own wallet type
+  if (!walletType && (getSetting(runtime, "AIMO_WALLET_TYPE") || !getProxyUrl(runtime))) {
     logger.warn("AIMO_WALLET_TYPE is not set (should be 'svm' or 'evm')");
     return false;
   }
   
-  if (!privateKey) {
-    logger.warn("AIMO_PRIVATE_KEY is not set");
+  const signerConfig = getSignerConfig(runtime);
+  if (!signerConfig) {
+    logger.warn("AIMO_PRIVATE_KEY, AIMO_PRIVATE_KEY_FILE, AIMO_MNEMONIC, AIMO_REMOTE_SIGNER_URL or AIMO_PROXY_URL is not set");
     return false;
   }
   
-  if (!validateWalletConfig(walletType, privateKey)) {
-    const expectedFormat = walletType === "svm"
-      ? "base58 encoded (64 bytes when decoded)"
-      : "hex string starting with 0x (64 hex characters)";
-    logger.warn(
-      `Invalid AIMO_PRIVATE_KEY format for ${walletType} wallet. Expected: ${expectedFormat}`
-    );
+  const source = signerConfig.proxyUrl
+    ? "AIMO_PROXY_URL"
+    : signerConfig.remoteSignerUrl
+      ? "AIMO_REMOTE_SIGNER_URL"
+      : signerConfig.mnemonic
+      ? "AIMO_MNEMONIC"
+      : signerConfig.privateKeyFile
+        ? "AIMO_PRIVATE_KEY_FILE"
+        : "AIMO_PRIVATE_KEY";
+  try {
+    checkSignerKey(signerConfig);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`Invalid ${source}${walletType ? ` for ${walletType} wallet` : ""}: ${message}`);
+    return false;
+  }
+  
+  const chainId = getChainId(runtime);
+  if (chainId) {
+    try {
+      if (walletType) {
+        resolveChain(walletType, chainId);
+      } else {
+        resolveCaip2Chain(chainId);
+      }
+    } catch (error: unknown) {
+      logger.warn(`Invalid AIMO_CHAIN_ID: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Validate the wallets configured in AIMO_WALLETS
+ */
+function validateWallets(runtime: IAgentRuntime, checkSignerKey: (config: SignerConfig) => void): boolean {
+  let wallets: WalletConfig[];
+  try {
+    wallets = getWalletConfigs(runtime);
+  } catch (error: unknown) {
+    logger.warn(error instanceof Error ? error.message : String(error));
     return false;
   }
   
+  const strategy = getSetting(runtime, "AIMO_WALLET_STRATEGY");
+  if (strategy && !WALLET_STRATEGIES.includes(strategy as WalletStrategy)) {
+    logger.warn(`Invalid AIMO_WALLET_STRATEGY "${strategy}" (should be ${WALLET_STRATEGIES.join(" or ")})`);
+    return false;
+  }
+  
+  for (const wallet of wallets) {
+    try {
+      checkSignerKey(wallet);
+      if (wallet.chainId) {
+        if (wallet.walletType) {
+          resolveChain(wallet.walletType, wallet.chainId);
+        } else {
+          resolveCaip2Chain(wallet.chainId);
+        }
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Invalid AIMO_WALLETS entry "${wallet.name}": ${message}`);
+      return false;
+    }
+  }
+  
   return true;
 }
 
@@ -139,15 +841,29 @@ export function validateWalletConfiguration(runtime: IAgentRuntime): boolean {
 export function getSignerConfig(runtime: IAgentRuntime): SignerConfig | undefined {
   const walletType = getWalletType(runtime);
   const privateKey = getPrivateKey(runtime);
+  const privateKeyFile = getPrivateKeyFile(runtime);
+  const mnemonic = getMnemonic(runtime);
+  const remoteSignerUrl = getRemoteSignerUrl(runtime);
+  const proxyUrl = getProxyUrl(runtime);
   const chainId = getChainId(runtime);
   
-  if (!walletType || !privateKey) {
+  if ((!walletType && !proxyUrl) || (!privateKey && !privateKeyFile && !mnemonic && !remoteSignerUrl && !proxyUrl)) {
     return undefined;
   }
   
   return {
     walletType,
     privateKey,
+    privateKeyFile,
+    keystorePassword: getKeystorePassword(runtime),
+    mnemonic,
+    derivationPath: getDerivationPathSetting(runtime),
+    accountIndex: getAccountIndex(runtime),
+    remoteSignerUrl,
+    remoteSignerSecret: getRemoteSignerSecret(runtime),
+    remoteSignerApprove: getRemoteSignerApprovalHook(runtime),
+    proxyUrl,
+    proxyToken: getProxyToken(runtime),
     chainId,
   };
 }
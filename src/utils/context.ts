@@ -0,0 +1,196 @@
+import { logger, type IAgentRuntime } from "@elizaos/core";
+import type { AimoGenerateTextParams } from "../types";
+import { CHARS_PER_TOKEN, estimateTokens } from "./budget";
+import { getCachedModelInfo, getModelInfo } from "./catalog";
+import { getContextPolicy, getLargeModelChain, getLongContextModel, getModelCatalogTtlMs } from "./config";
+import { ContextLengthExceededError } from "./errors";
+import { buildPromptInput, hasSystemMessage, promptInputToText, type PromptInput } from "./messages";
+import { AUTO_MODEL, resolveModelChain, type ModelRequirements } from "./routing";
+
+/**
+ * What to do with a prompt that does not fit the context window of its model
+ *
+ * - `upgrade`: send it to a model whose context window fits, or fail before paying
+ * - `trim`: drop the oldest messages (or the start of a flat prompt) until it fits
+ * - `off`: send it as it is
+ */
+export type ContextPolicy = "upgrade" | "trim" | "off";
+
+export const CONTEXT_POLICIES: readonly ContextPolicy[] = ["upgrade", "trim", "off"];
+
+/**
+ * Output limit of a text call when the caller sets none
+ */
+const DEFAULT_MAX_OUTPUT_TOKENS = 8192;
+
+/**
+ * Models and parameters a text call is sent with
+ */
+export interface ContextRoute {
+  models: string[];
+  params: AimoGenerateTextParams;
+}
+
+/**
+ * Output limit of a text call
+ *
+ * @param params The text generation parameters
+ * @returns maxOutputTokens or maxTokens, defaulting to 8192
+ */
+export function getMaxOutputTokens(params: AimoGenerateTextParams): number {
+  return params.maxOutputTokens ?? params.maxTokens ?? DEFAULT_MAX_OUTPUT_TOKENS;
+}
+
+/**
+ * When the model catalog last failed to load for a runtime, so the failure is
+ * logged once and not retried on every call
+ */
+const catalogFailures = new WeakMap<IAgentRuntime, number>();
+
+/**
+ * Context window of the first model of a chain
+ *
+ * The model catalog is fetched if it is not cached yet. If that fails, routing is
+ * inactive until AIMO_MODEL_CATALOG_TTL_MS has passed.
+ *
+ * @returns The context length from the model catalog, or undefined if unknown
+ */
+async function getContextLength(runtime: IAgentRuntime, models: string[]): Promise<number | undefined> {
+  if (models.length === 0) {
+    return undefined;
+  }
+  const failedAt = catalogFailures.get(runtime);
+  if (failedAt !== undefined && Date.now() - failedAt < getModelCatalogTtlMs(runtime)) {
+    return getCachedModelInfo(runtime, models[0])?.contextLength;
+  }
+  try {
+    return (await getModelInfo(runtime, models[0]))?.contextLength;
+  } catch (error: unknown) {
+    catalogFailures.set(runtime, Date.now());
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`[AiMo] Prompt-length routing is inactive: the model catalog could not be fetched (${message})`);
+    return undefined;
+  }
+}
+
+/**
+ * Drop the oldest turns of a prompt until it fits a token limit
+ *
+ * System messages and the last turn are kept, and tool results whose call was
+ * dropped go with it. A flat prompt keeps its end.
+ *
+ * @returns The trimmed prompt input, or undefined if even the kept part does not fit
+ */
+function trimPromptInput(input: PromptInput, maxTokens: number): PromptInput | undefined {
+  if (maxTokens <= 0) {
+    return undefined;
+  }
+  if (input.prompt !== undefined) {
+    return { prompt: input.prompt.slice(-maxTokens * CHARS_PER_TOKEN) };
+  }
+
+  const messages = [...input.messages];
+  while (estimateTokens(promptInputToText({ messages })) > maxTokens) {
+    const index = messages.findIndex((message) => message.role !== "system");
+    if (index === -1 || index === messages.length - 1) {
+      return undefined;
+    }
+    messages.splice(index, 1);
+    while (index < messages.length - 1 && messages[index].role === "tool") {
+      messages.splice(index, 1);
+    }
+  }
+  return { messages };
+}
+
+/**
+ * Choose the models a text call is sent to according to its estimated prompt size
+ *
+ * The configured chain is resolved (see resolveModelChain), and the prompt size
+ * is estimated from the prompt, the system prompt and the output limit. If that
+ * exceeds the context window of the chosen model, AIMO_CONTEXT_POLICY decides:
+ * `upgrade` tries a re-resolved "auto" chain, then the large model chain (for
+ * small calls), then AIMO_LONG_CONTEXT_MODEL; `trim` shortens the prompt.
+ * Context windows are read from the model catalog, which is fetched if needed; a
+ * model whose context length is unknown is assumed to fit.
+ *
+ * @param runtime The runtime context
+ * @param size Whether the call is a small or a large one
+ * @param models The configured model chain
+ * @param params The text generation parameters
+ * @param callRequirements Requirements of the call for "auto" models
+ * @param label Model type label used in logs, e.g. "TEXT_SMALL"
+ * @returns The model chain and the parameters to send
+ * @throws ContextLengthExceededError if the prompt fits no allowed model, even trimmed
+ */
+export async function routeByContextLength(
+  runtime: IAgentRuntime,
+  size: "small" | "large",
+  models: string[],
+  params: AimoGenerateTextParams,
+  callRequirements: ModelRequirements,
+  label: string,
+): Promise<ContextRoute> {
+  const resolved = await resolveModelChain(runtime, models, size, callRequirements, label);
+  const policy = getContextPolicy(runtime);
+  if (policy === "off") {
+    return { models: resolved, params };
+  }
+  const contextLength = await getContextLength(runtime, resolved);
+  if (!contextLength) {
+    return { models: resolved, params };
+  }
+
+  const input = buildPromptInput(params.prompt, params.messages);
+  const systemTokens = hasSystemMessage(input) ? 0 : estimateTokens(runtime.character.system ?? "");
+  const outputTokens = getMaxOutputTokens(params);
+  const promptTokens = estimateTokens(promptInputToText(input));
+  const neededTokens = systemTokens + promptTokens + outputTokens;
+  if (neededTokens <= contextLength) {
+    logger.debug(
+      `[AiMo] ${label} prompt of about ${neededTokens} tokens fits ${resolved[0]} (context window ${contextLength})`,
+    );
+    return { models: resolved, params };
+  }
+
+  if (policy === "upgrade") {
+    const longContext = getLongContextModel(runtime);
+    const candidates = [
+      ...(models.includes(AUTO_MODEL) ? [models] : []),
+      ...(size === "small" ? [getLargeModelChain(runtime)] : []),
+      ...(longContext ? [[longContext]] : []),
+    ];
+    for (const candidate of candidates) {
+      const upgraded = await resolveModelChain(
+        runtime,
+        candidate,
+        size,
+        { ...callRequirements, minContextLength: neededTokens },
+        label,
+      ).catch(() => []);
+      const upgradedLength = await getContextLength(runtime, upgraded);
+      if (upgradedLength && neededTokens <= upgradedLength) {
+        logger.info(
+          `[AiMo] ${label} prompt of about ${neededTokens} tokens does not fit ${resolved[0]} (context window ${contextLength}); using ${upgraded[0]} (context window ${upgradedLength})`,
+        );
+        return { models: upgraded, params };
+      }
+    }
+    throw new ContextLengthExceededError(resolved[0], neededTokens, contextLength);
+  }
+
+  const trimmed = trimPromptInput(input, contextLength - systemTokens - outputTokens);
+  if (!trimmed) {
+    throw new ContextLengthExceededError(resolved[0], neededTokens, contextLength);
+  }
+  logger.warn(
+    `[AiMo] Trimmed the ${label} prompt from about ${promptTokens} to ${estimateTokens(promptInputToText(trimmed))} tokens to fit ${resolved[0]} (context window ${contextLength})`,
+  );
+  return {
+    models: resolved,
+    params:
+      trimmed.prompt !== undefined
+        ? { ...params, prompt: trimmed.prompt, messages: undefined }
+        : { ...params, prompt: "", messages: trimmed.messages },
+  };
+}
@@ -0,0 +1,303 @@
+import { APICallError, RetryError } from "ai";
+
+/**
+ * Error raised when an AiMo Network endpoint responds with a non-2xx status
+ */
+export class AimoRequestError extends Error {
+  readonly status: number;
+  readonly endpoint: string;
+  readonly body: unknown;
+
+  constructor(endpoint: string, status: number, statusText: string, body: unknown) {
+    const detail =
+      body && typeof body === "object" && "error" in body
+        ? formatErrorDetail((body as { error: unknown }).error)
+        : typeof body === "string" && body.length > 0
+          ? body
+          : undefined;
+    super(
+      `AiMo request to ${endpoint} failed: ${status} ${statusText}` +
+        (detail ? ` - ${detail}` : ""),
+    );
+    this.name = "AimoRequestError";
+    this.status = status;
+    this.endpoint = endpoint;
+    this.body = body;
+  }
+}
+
+/**
+ * Stage of an AiMo call at which a timeout fired
+ *
+ * - `connect`: no HTTP response arrived within AIMO_REQUEST_TIMEOUT_MS
+ * - `first-token`: the response started but produced no output within AIMO_REQUEST_TIMEOUT_MS
+ * - `idle`: a stream produced no chunk for AIMO_STREAM_IDLE_TIMEOUT_MS
+ */
+export type AimoTimeoutPhase = "connect" | "first-token" | "idle";
+
+const TIMEOUT_PHASE_DESCRIPTIONS: Record<AimoTimeoutPhase, string> = {
+  connect: "waiting for a response from the AiMo node",
+  "first-token": "waiting for the first token",
+  idle: "waiting for the next stream chunk",
+};
+
+/**
+ * Error raised when an AiMo call stalls longer than its configured timeout
+ */
+export class AimoTimeoutError extends Error {
+  readonly phase: AimoTimeoutPhase;
+  readonly timeoutMs: number;
+
+  constructor(phase: AimoTimeoutPhase, timeoutMs: number) {
+    super(
+      `AiMo request timed out (${phase}) after ${timeoutMs}ms ${TIMEOUT_PHASE_DESCRIPTIONS[phase]}`,
+    );
+    this.name = "AimoTimeoutError";
+    this.phase = phase;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Budget cap that refused a call
+ *
+ * - `call`: AIMO_MAX_USD_PER_CALL
+ * - `day`: AIMO_MAX_USD_PER_DAY
+ * - `model`: the model's daily cap in AIMO_MAX_USD_PER_MODEL
+ */
+export type BudgetScope = "call" | "day" | "model";
+
+/**
+ * Error raised when a call would exceed a configured spend cap
+ */
+export class BudgetExceededError extends Error {
+  readonly scope: BudgetScope;
+  readonly model: string;
+  readonly limitUsd: number;
+  readonly spentUsd: number;
+  readonly estimateUsd: number;
+
+  constructor(options: {
+    scope: BudgetScope;
+    model: string;
+    limitUsd: number;
+    spentUsd: number;
+    estimateUsd: number;
+  }) {
+    const { scope, model, limitUsd, spentUsd, estimateUsd } = options;
+    super(
+      scope === "call"
+        ? `AiMo call to ${model} refused: estimated $${estimateUsd.toFixed(6)} exceeds the per-call cap of $${limitUsd}`
+        : `AiMo call to ${model} refused: estimated $${estimateUsd.toFixed(6)} on top of $${spentUsd.toFixed(6)} spent today exceeds the ${
+            scope === "day" ? "daily" : "daily per-model"
+          } cap of $${limitUsd}`,
+    );
+    this.name = "BudgetExceededError";
+    this.scope = scope;
+    this.model = model;
+    this.limitUsd = limitUsd;
+    this.spentUsd = spentUsd;
+    this.estimateUsd = estimateUsd;
+  }
+}
+
+/**
+ * Error raised when a prompt does not fit the context window of the model it would be sent to
+ */
+export class ContextLengthExceededError extends Error {
+  readonly model: string;
+  readonly estimatedTokens: number;
+  readonly contextLength: number;
+
+  constructor(model: string, estimatedTokens: number, contextLength: number) {
+    super(
+      `AiMo call to ${model} refused: the prompt and output need about ${estimatedTokens} tokens, more than its context window of ${contextLength}`,
+    );
+    this.name = "ContextLengthExceededError";
+    this.model = model;
+    this.estimatedTokens = estimatedTokens;
+    this.contextLength = contextLength;
+  }
+}
+
+/**
+ * Error raised when a remote signer fails, rejects a request or cannot be reached
+ */
+export class RemoteSignerError extends Error {
+  /** HTTP status of the signer's response; undefined if none arrived or the local approval hook rejected the request */
+  readonly status?: number;
+  readonly endpoint: string;
+
+  constructor(endpoint: string, message: string, status?: number) {
+    super(`Remote signer ${endpoint} failed${status ? `: ${status}` : ""} - ${message}`);
+    this.name = "RemoteSignerError";
+    this.status = status;
+    this.endpoint = endpoint;
+  }
+}
+
+/**
+ * Error raised when the AiMo signing proxy cannot be reached or serves another wallet
+ */
+export class AimoProxyError extends Error {
+  /** HTTP status of the proxy's response; undefined if none arrived */
+  readonly status?: number;
+  readonly endpoint: string;
+
+  constructor(endpoint: string, message: string, status?: number) {
+    super(`AiMo proxy ${endpoint} failed${status ? `: ${status}` : ""} - ${message}`);
+    this.name = "AimoProxyError";
+    this.status = status;
+    this.endpoint = endpoint;
+  }
+}
+
+/**
+ * Flatten an OpenAI-style error payload into a single line
+ */
+function formatErrorDetail(error: unknown): string {
+  if (typeof error === "string") {
+    return error;
+  }
+  if (error && typeof error === "object" && "message" in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return JSON.stringify(error);
+}
+
+/**
+ * Broad category of a failed AiMo call, used to decide whether another model
+ * (or another attempt) may succeed where this one failed
+ */
+export type AimoErrorKind =
+  | "server"
+  | "rate-limit"
+  | "model-unavailable"
+  | "payment"
+  | "budget"
+  | "other";
+
+const MODEL_UNAVAILABLE_PATTERN =
+  /model\b.*\b(not found|not available|unavailable|does not exist|not supported|unsupported)|no (provider|route|endpoint)s? (found |available )?for/i;
+const PAYMENT_PATTERN = /payment|x402|insufficient (funds|balance)/i;
+
+/**
+ * Read the HTTP status and message of an error raised by an AiMo call
+ *
+ * Understands AimoRequestError, AI SDK APICallError (including one wrapped in a
+ * RetryError) and plain errors.
+ */
+export function getErrorDetails(error: unknown): { status?: number; message: string } {
+  if (RetryError.isInstance(error)) {
+    return getErrorDetails(error.lastError);
+  }
+  if (error instanceof AimoRequestError) {
+    return { status: error.status, message: error.message };
+  }
+  if (APICallError.isInstance(error)) {
+    return {
+      status: error.statusCode,
+      message: [error.message, error.responseBody].filter(Boolean).join(" "),
+    };
+  }
+  return { message: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * Classify an error raised by an AiMo call
+ *
+ * @param error The error to classify
+ * @returns The error category
+ */
+export function classifyAimoError(error: unknown): AimoErrorKind {
+  // Estimates depend on the model's price, so a cheaper model may still fit
+  if (error instanceof BudgetExceededError) {
+    return "budget";
+  }
+  const { status, message } = getErrorDetails(error);
+
+  if (status === 429) {
+    return "rate-limit";
+  }
+  if (status === 402 || PAYMENT_PATTERN.test(message)) {
+    return "payment";
+  }
+  if (status === 404 || MODEL_UNAVAILABLE_PATTERN.test(message)) {
+    return "model-unavailable";
+  }
+  if (status !== undefined && status >= 500) {
+    return "server";
+  }
+  return "other";
+}
+
+/**
+ * Whether a failed call should be retried with the next model of a fallback chain
+ *
+ * Server errors, rate limits, unavailable models, payment-route errors and
+ * budget refusals are specific to one model route; validation and other errors
+ * would fail the same way on every model.
+ */
+export function isFallbackEligibleError(error: unknown): boolean {
+  return classifyAimoError(error) !== "other";
+}
+
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "ConnectionRefused",
+  "ConnectionClosed",
+]);
+const NETWORK_ERROR_PATTERN =
+  /fetch failed|network|socket hang up|connection (reset|refused|closed)|timed? ?out|unable to connect/i;
+
+/**
+ * Whether an error is a timeout or a network failure without an HTTP response
+ */
+function isTransportError(error: unknown): boolean {
+  if (RetryError.isInstance(error)) {
+    return isTransportError(error.lastError);
+  }
+  if (APICallError.isInstance(error)) {
+    // The AI SDK wraps connection failures without a status code
+    return error.statusCode === undefined && (error.isRetryable || isTransportError(error.cause));
+  }
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const code = (error as { code?: unknown }).code;
+  if (
+    error.name === "TimeoutError" ||
+    (typeof code === "string" && NETWORK_ERROR_CODES.has(code)) ||
+    NETWORK_ERROR_PATTERN.test(error.message)
+  ) {
+    return true;
+  }
+  return error.cause !== undefined && error.cause !== error && isTransportError(error.cause);
+}
+
+/**
+ * Whether a failed AiMo call may succeed when sent again
+ *
+ * Timeouts, network failures, 5xx responses and rate limits are retried;
+ * 4xx validation errors and anything unrecognized are not.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof AimoTimeoutError) {
+    return true;
+  }
+  if (error instanceof BudgetExceededError) {
+    return false;
+  }
+  const { status } = getErrorDetails(error);
+  if (status !== undefined) {
+    return status >= 500 || status === 408 || status === 429;
+  }
+  return isTransportError(error);
+}
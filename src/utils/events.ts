@@ -1,19 +1,52 @@
 import {
   EventType,
+  type EventPayload,
   type IAgentRuntime,
   type ModelTypeName,
 } from "@elizaos/core";
 import type { LanguageModelUsage } from "ai";
+import { getTotalPaid, type PaymentDetails } from "./payments";
+
+/**
+ * Token counts reported by a model call
+ */
+export type ModelUsage = Pick<
+  LanguageModelUsage,
+  "inputTokens" | "outputTokens" | "totalTokens"
+>;
+
+/**
+ * Details of a model call reported alongside its token usage
+ */
+export interface ModelUsageDetails {
+  /** The model that served the call, reported when known so fallbacks are visible */
+  model?: string;
+  /** Time from sending the call until it completed */
+  latencyMs?: number;
+  /** x402 payments made for the call */
+  payments?: readonly PaymentDetails[];
+  /** Served from the response cache, at no cost */
+  cached?: boolean;
+}
 
 /**
  * Emits a model usage event
+ *
+ * Besides token counts the event carries `model`, `latencyMs` and, for paid
+ * calls, the total `cost` and each x402 payment with its price, currency,
+ * network, payer, the node that was paid and the settlement reference, so spend
+ * can be reconciled per agent and per model. Responses served from the cache
+ * are reported with `cached: true` and a zero cost.
  */
 export function emitModelUsageEvent(
   runtime: IAgentRuntime,
   type: ModelTypeName,
   prompt: string,
-  usage: LanguageModelUsage,
+  usage: ModelUsage,
+  details: ModelUsageDetails = {},
 ) {
+  const { model, latencyMs, payments = [], cached } = details;
+  const cost = cached ? { amount: 0, currency: "USD" } : getTotalPaid(payments);
   // Never emit the full prompt; truncate to avoid leaking secrets/PII
   const truncatedPrompt =
     typeof prompt === "string"
@@ -32,6 +65,10 @@ export function emitModelUsageEvent(
     source: "aimo",
     provider: "aimo",
     type,
+    ...(model && { model }),
+    ...(latencyMs !== undefined && { latencyMs }),
+    ...(cost && { cost, payments: [...payments] }),
+    ...(cached && { cached }),
     prompt: truncatedPrompt,
     tokens: {
       prompt: inputTokens,
@@ -40,3 +77,41 @@ export function emitModelUsageEvent(
     },
   });
 }
+
+/**
+ * Event emitted when the wallet's AiMo session balance drops below AIMO_LOW_BALANCE_USD
+ */
+export const AIMO_LOW_BALANCE_EVENT = "AIMO_LOW_BALANCE";
+
+/**
+ * Payload of {@link AIMO_LOW_BALANCE_EVENT}
+ */
+export interface LowBalancePayload extends EventPayload {
+  /** Wallet name; "default" unless AIMO_WALLETS is set */
+  wallet: string;
+  /** CAIP-10 account the balance belongs to */
+  accountId: string;
+  balanceUsd: number;
+  thresholdUsd: number;
+}
+
+/**
+ * Emits a low balance event
+ */
+export function emitLowBalanceEvent(
+  runtime: IAgentRuntime,
+  wallet: string,
+  accountId: string,
+  balanceUsd: number,
+  thresholdUsd: number,
+) {
+  const payload: LowBalancePayload = {
+    runtime,
+    source: "aimo",
+    wallet,
+    accountId,
+    balanceUsd,
+    thresholdUsd,
+  };
+  runtime.emitEvent(AIMO_LOW_BALANCE_EVENT, payload);
+}
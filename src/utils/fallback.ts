@@ -0,0 +1,38 @@
+import { logger } from "@elizaos/core";
+import { classifyAimoError, getErrorDetails } from "./errors";
+
+/**
+ * Run a model call against each model of a fallback chain until one succeeds
+ *
+ * The next model is only tried when the error is specific to the model route
+ * (see isFallbackEligibleError); any other error is thrown immediately.
+ *
+ * @param models Model IDs in order of preference
+ * @param label Model label used in logs
+ * @param attempt Performs the call with the given model
+ * @returns The result of the first successful call
+ * @throws The last error when every model fails, or the first non-eligible error
+ */
+export async function withModelFallback<T>(
+  models: string[],
+  label: string,
+  attempt: (modelName: string) => Promise<T>,
+): Promise<T> {
+  let lastError: unknown;
+  for (const [index, modelName] of models.entries()) {
+    try {
+      return await attempt(modelName);
+    } catch (error: unknown) {
+      lastError = error;
+      const kind = classifyAimoError(error);
+      const next = models[index + 1];
+      if (kind === "other" || !next) {
+        throw error;
+      }
+      logger.warn(
+        `[AiMo] ${label} model ${modelName} failed (${kind}): ${getErrorDetails(error).message}. Falling back to ${next}`,
+      );
+    }
+  }
+  throw lastError;
+}
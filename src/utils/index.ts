@@ -1,4 +1,25 @@
+export * from "./balance";
+export * from "./budget";
+export * from "./catalog";
+export * from "./chains";
 export * from "./config";
+export * from "./context";
+export * from "./errors";
 export * from "./events";
+export * from "./fallback";
 export * from "./helpers";
+export * from "./keys";
+export * from "./messages";
+export * from "./mnemonic";
+export * from "./payments";
+export * from "./proxy";
+export * from "./proxy-server";
+export * from "./remote-signer";
+export * from "./response-cache";
+export * from "./retry";
+export * from "./routing";
 export * from "./signer";
+export * from "./signer-server";
+export * from "./timeout";
+export * from "./tools";
+export * from "./wallets";
@@ -0,0 +1,366 @@
+import { createDecipheriv, createPrivateKey, createPublicKey, pbkdf2, scrypt, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { promisify } from "node:util";
+import { keccak256 } from "viem";
+import bs58 from "bs58";
+import type { SignerConfig, WalletType } from "./signer";
+import { checkMnemonic, derivePrivateKey, getDerivationPath } from "./mnemonic";
+
+const pbkdf2Async = promisify(pbkdf2);
+const scryptAsync = promisify(scrypt) as (
+  password: Buffer,
+  salt: Buffer,
+  keylen: number,
+  options: { N: number; r: number; p: number; maxmem: number },
+) => Promise<Buffer>;
+
+/**
+ * Encrypted EVM key in the Web3 Secret Storage (keystore v3) format
+ */
+export interface EvmKeystore {
+  version: 3;
+  crypto: {
+    cipher: string;
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: string;
+    kdfparams: Record<string, unknown>;
+    mac: string;
+  };
+}
+
+const EVM_HEX_PATTERN = /^(0x)?[0-9a-fA-F]{64}$/;
+
+// PKCS#8 header of a raw 32-byte Ed25519 private key
+const ED25519_PKCS8_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex");
+
+/**
+ * Read a private key from a file
+ *
+ * @param path - Path of the key file
+ * @returns The file content without surrounding whitespace
+ * @throws Error if the file cannot be read or is empty
+ */
+export function readPrivateKeyFile(path: string): string {
+  let content: string;
+  try {
+    content = readFileSync(path, "utf8").trim();
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read AIMO_PRIVATE_KEY_FILE "${path}": ${message}`);
+  }
+  if (!content) {
+    throw new Error(`AIMO_PRIVATE_KEY_FILE "${path}" is empty`);
+  }
+  return content;
+}
+
+/**
+ * Get the key material of a signer configuration, reading the key file if one is set
+ *
+ * @param config - Signer configuration
+ * @returns The configured key, mnemonic, remote signer URL or proxy URL as written
+ * @throws Error if none or more than one of the key, the key file, the mnemonic, the remote signer and the proxy are set
+ */
+export function getKeyMaterial(config: SignerConfig): string {
+  const sources = [
+    config.privateKey && "AIMO_PRIVATE_KEY",
+    config.privateKeyFile && "AIMO_PRIVATE_KEY_FILE",
+    config.mnemonic && "AIMO_MNEMONIC",
+    config.remoteSignerUrl && "AIMO_REMOTE_SIGNER_URL",
+    config.proxyUrl && "AIMO_PROXY_URL",
+  ].filter(Boolean);
+  if (sources.length > 1) {
+    throw new Error(
+      "Set only one of AIMO_PRIVATE_KEY, AIMO_PRIVATE_KEY_FILE, AIMO_MNEMONIC, AIMO_REMOTE_SIGNER_URL or AIMO_PROXY_URL " +
+        `(got ${sources.join(" and ")})`,
+    );
+  }
+  if (config.proxyUrl) {
+    return config.proxyUrl.trim();
+  }
+  if (config.remoteSignerUrl) {
+    return config.remoteSignerUrl.trim();
+  }
+  if (config.mnemonic) {
+    return config.mnemonic.trim();
+  }
+  if (config.privateKeyFile) {
+    return readPrivateKeyFile(config.privateKeyFile);
+  }
+  if (!config.privateKey) {
+    throw new Error("Private key is required");
+  }
+  return config.privateKey.trim();
+}
+
+/**
+ * Parse a Solana key
+ *
+ * Accepts a base58 string or a JSON byte array (as written by `solana-keygen`),
+ * each holding either the 64-byte keypair or the 32-byte seed.
+ *
+ * @param input - Key in one of the supported formats
+ * @returns The 64-byte keypair (seed followed by public key)
+ * @throws Error describing why the key was rejected
+ */
+export function parseSvmPrivateKey(input: string): Uint8Array {
+  const value = input.trim();
+  let bytes: Uint8Array;
+
+  if (value.startsWith("[")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      throw new Error("Solana keypair file is not valid JSON");
+    }
+    if (
+      !Array.isArray(parsed) ||
+      !parsed.every((byte) => Number.isInteger(byte) && byte >= 0 && byte <= 255)
+    ) {
+      throw new Error("Solana keypair JSON must be an array of numbers between 0 and 255");
+    }
+    bytes = Uint8Array.from(parsed);
+    if (bytes.length !== 64 && bytes.length !== 32) {
+      throw new Error(`Solana keypair JSON must contain 64 bytes (keypair) or 32 bytes (seed), got ${bytes.length}`);
+    }
+  } else {
+    try {
+      bytes = bs58.decode(value);
+    } catch {
+      throw new Error("Solana private key is not valid base58");
+    }
+    if (bytes.length !== 64 && bytes.length !== 32) {
+      throw new Error(
+        `Solana private key must decode to 64 bytes (keypair) or 32 bytes (seed), got ${bytes.length}`,
+      );
+    }
+  }
+
+  return bytes.length === 64 ? bytes : expandSvmSeed(bytes);
+}
+
+/**
+ * Derive the 64-byte Solana keypair of a 32-byte Ed25519 seed
+ */
+export function expandSvmSeed(seed: Uint8Array): Uint8Array {
+  const privateKey = createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+    format: "der",
+    type: "pkcs8",
+  });
+  const publicKey = createPublicKey(privateKey).export({ format: "der", type: "spki" }).subarray(-32);
+  const keypair = new Uint8Array(64);
+  keypair.set(seed, 0);
+  keypair.set(publicKey, 32);
+  return keypair;
+}
+
+/**
+ * Parse a keystore v3 JSON document
+ *
+ * @param input - Candidate key material
+ * @returns The keystore, or undefined if the input is not a keystore
+ * @throws Error if the input is a keystore with a missing or unsupported field
+ */
+export function parseEvmKeystore(input: string): EvmKeystore | undefined {
+  const value = input.trim();
+  if (!value.startsWith("{")) {
+    return undefined;
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error("EVM keystore file is not valid JSON");
+  }
+
+  // Some wallets write the section as "Crypto"
+  const crypto = parsed?.crypto ?? parsed?.Crypto;
+  if (parsed?.version !== 3 || !crypto) {
+    throw new Error("EVM keystore must be a version 3 keystore with a crypto section");
+  }
+  if (crypto.cipher !== "aes-128-ctr") {
+    throw new Error(`Unsupported EVM keystore cipher "${crypto.cipher}" (expected aes-128-ctr)`);
+  }
+  if (crypto.kdf !== "scrypt" && crypto.kdf !== "pbkdf2") {
+    throw new Error(`Unsupported EVM keystore KDF "${crypto.kdf}" (expected scrypt or pbkdf2)`);
+  }
+  if (
+    typeof crypto.ciphertext !== "string" ||
+    typeof crypto.mac !== "string" ||
+    typeof crypto.cipherparams?.iv !== "string" ||
+    typeof crypto.kdfparams?.salt !== "string"
+  ) {
+    throw new Error("EVM keystore is missing ciphertext, mac, iv or salt");
+  }
+
+  return { version: 3, crypto };
+}
+
+/**
+ * Check the format of an EVM key without decrypting it
+ *
+ * Accepts 32-byte hex with or without the 0x prefix, or a keystore v3 JSON
+ * document when a password is configured.
+ *
+ * @param input - Key in one of the supported formats
+ * @param password - Keystore password
+ * @throws Error describing why the key was rejected
+ */
+export function checkEvmPrivateKey(input: string, password?: string): void {
+  const value = input.trim();
+  if (parseEvmKeystore(value)) {
+    if (!password) {
+      throw new Error("EVM keystore requires AIMO_KEYSTORE_PASSWORD");
+    }
+    return;
+  }
+  if (!EVM_HEX_PATTERN.test(value)) {
+    throw new Error("EVM private key must be 64 hex characters, optionally prefixed with 0x, or a keystore v3 JSON file");
+  }
+}
+
+/**
+ * Parse an EVM key, decrypting it if it is a keystore
+ *
+ * @param input - Key in one of the supported formats
+ * @param password - Keystore password
+ * @returns The 0x-prefixed hex private key
+ * @throws Error describing why the key was rejected, or if the password is wrong
+ */
+export async function parseEvmPrivateKey(input: string, password?: string): Promise<`0x${string}`> {
+  checkEvmPrivateKey(input, password);
+  const value = input.trim();
+
+  const keystore = parseEvmKeystore(value);
+  if (keystore) {
+    return decryptEvmKeystore(keystore, password!);
+  }
+  return (value.startsWith("0x") ? value : `0x${value}`) as `0x${string}`;
+}
+
+/**
+ * Decrypt a keystore v3 document
+ *
+ * @param keystore - Parsed keystore
+ * @param password - Keystore password
+ * @returns The 0x-prefixed hex private key
+ * @throws Error if the password is wrong
+ */
+export async function decryptEvmKeystore(keystore: EvmKeystore, password: string): Promise<`0x${string}`> {
+  const { crypto } = keystore;
+  const params = crypto.kdfparams as Record<string, any>;
+  const salt = Buffer.from(params.salt, "hex");
+  const dklen = Number(params.dklen ?? 32);
+
+  let derivedKey: Buffer;
+  if (crypto.kdf === "scrypt") {
+    const n = Number(params.n);
+    const r = Number(params.r);
+    derivedKey = await scryptAsync(Buffer.from(password), salt, dklen, {
+      N: n,
+      r,
+      p: Number(params.p),
+      // Node caps scrypt at 32 MB by default; standard keystores need 256 MB
+      maxmem: 256 * n * r,
+    });
+  } else {
+    if (params.prf !== undefined && params.prf !== "hmac-sha256") {
+      throw new Error(`Unsupported EVM keystore PRF "${params.prf}" (expected hmac-sha256)`);
+    }
+    derivedKey = await pbkdf2Async(Buffer.from(password), salt, Number(params.c), dklen, "sha256");
+  }
+
+  const ciphertext = Buffer.from(crypto.ciphertext, "hex");
+  const mac = Buffer.from(keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])).slice(2), "hex");
+  const expected = Buffer.from(crypto.mac, "hex");
+  if (mac.length !== expected.length || !timingSafeEqual(mac, expected)) {
+    throw new Error("Could not decrypt EVM keystore: wrong AIMO_KEYSTORE_PASSWORD");
+  }
+
+  const decipher = createDecipheriv("aes-128-ctr", derivedKey.subarray(0, 16), Buffer.from(crypto.cipherparams.iv, "hex"));
+  const privateKey = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  return `0x${privateKey.toString("hex")}`;
+}
+
+/**
+ * Check the format of a key without decrypting it
+ *
+ * @param walletType - Type of wallet
+ * @param input - Key in one of the supported formats
+ * @param password - Keystore password
+ * @throws Error describing why the key was rejected
+ */
+export function checkPrivateKey(walletType: WalletType, input: string, password?: string): void {
+  if (walletType === "svm") {
+    parseSvmPrivateKey(input);
+  } else {
+    checkEvmPrivateKey(input, password);
+  }
+}
+
+/**
+ * Check the key, key file, mnemonic, remote signer or proxy of a signer
+ * configuration without decrypting, deriving or connecting
+ *
+ * @param config - Signer configuration
+ * @throws Error describing why the configuration was rejected
+ */
+export function checkSignerKey(config: SignerConfig): void {
+  const input = getKeyMaterial(config);
+  if (config.proxyUrl) {
+    if (!URL.canParse(input) || !/^https?:$/.test(new URL(input).protocol)) {
+      throw new Error(`Proxy URL "${input}" is not an http(s) URL`);
+    }
+    if (!config.proxyToken) {
+      throw new Error("Proxy requires AIMO_PROXY_TOKEN");
+    }
+    return;
+  }
+  if (!config.walletType) {
+    throw new Error("Wallet type is required (svm or evm)");
+  }
+  if (config.remoteSignerUrl) {
+    if (!URL.canParse(input) || !/^https?:$/.test(new URL(input).protocol)) {
+      throw new Error(`Remote signer URL "${input}" is not an http(s) URL`);
+    }
+    if (!config.remoteSignerSecret) {
+      throw new Error("Remote signer requires AIMO_REMOTE_SIGNER_SECRET");
+    }
+    return;
+  }
+  if (config.mnemonic) {
+    checkMnemonic(input);
+    getDerivationPath(config.walletType, config.derivationPath, config.accountIndex);
+    return;
+  }
+  checkPrivateKey(config.walletType, input, config.keystorePassword);
+}
+
+/**
+ * Resolve the configured key to the form the signers take
+ *
+ * @param config - Signer configuration
+ * @returns A base58 64-byte keypair for SVM wallets, 0x-prefixed hex for EVM wallets
+ * @throws Error if the key cannot be read, parsed, decrypted or derived
+ */
+export async function resolvePrivateKey(config: SignerConfig): Promise<string> {
+  if (!config.walletType) {
+    throw new Error("Wallet type is required (svm or evm)");
+  }
+  const input = getKeyMaterial(config);
+  if (config.mnemonic) {
+    return derivePrivateKey(
+      config.walletType,
+      input,
+      getDerivationPath(config.walletType, config.derivationPath, config.accountIndex),
+    );
+  }
+  if (config.walletType === "svm") {
+    return bs58.encode(parseSvmPrivateKey(input));
+  }
+  return parseEvmPrivateKey(input, config.keystorePassword);
+}
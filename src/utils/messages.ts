@@ -0,0 +1,104 @@
+import type { ModelMessage } from "ai";
+
+const MESSAGE_ROLES = new Set(["system", "user", "assistant", "tool"]);
+
+/**
+ * Prompt input for the AI SDK: either a flat prompt or a chat message list
+ */
+export type PromptInput =
+  | { prompt: string; messages?: undefined }
+  | { messages: ModelMessage[]; prompt?: undefined };
+
+/**
+ * Validate a chat message list passed by the caller
+ *
+ * @param messages The messages to validate
+ * @throws Error if the list is not an array of messages with a known role
+ */
+export function validateMessages(messages: unknown): asserts messages is ModelMessage[] {
+  if (!Array.isArray(messages)) {
+    throw new Error("Invalid messages: expected an array of chat messages");
+  }
+  messages.forEach((message, index) => {
+    if (
+      !message ||
+      typeof message !== "object" ||
+      !MESSAGE_ROLES.has((message as { role?: unknown }).role as string)
+    ) {
+      throw new Error(
+        `Invalid message at index ${index}: role must be one of ${[...MESSAGE_ROLES].join(", ")}`,
+      );
+    }
+    const content = (message as { content?: unknown }).content;
+    if (typeof content !== "string" && !Array.isArray(content)) {
+      throw new Error(`Invalid message at index ${index}: content must be a string or an array of parts`);
+    }
+  });
+}
+
+/**
+ * Build the prompt input for a generation call
+ *
+ * When `messages` are given they are sent as-is and a non-empty `prompt` is
+ * appended as the final user turn. Otherwise the flat `prompt` is sent.
+ *
+ * @param prompt The flat prompt
+ * @param messages Optional chat messages
+ * @returns The prompt input for generateText, streamText or generateObject
+ */
+export function buildPromptInput(prompt: string | undefined, messages?: unknown): PromptInput {
+  if (messages === undefined || messages === null) {
+    return { prompt: prompt ?? "" };
+  }
+  validateMessages(messages);
+  const turns: ModelMessage[] = prompt?.trim()
+    ? [...messages, { role: "user", content: prompt }]
+    : [...messages];
+  if (turns.length === 0) {
+    throw new Error("Invalid messages: at least one message or a prompt is required");
+  }
+  return { messages: turns };
+}
+
+/**
+ * Whether the message list carries its own system message
+ */
+export function hasSystemMessage(input: PromptInput): boolean {
+  return !!input.messages?.some((message) => message.role === "system");
+}
+
+/**
+ * Whether the prompt input carries images, which need a vision-capable model
+ */
+export function hasImageInput(input: PromptInput): boolean {
+  return !!input.messages?.some(
+    (message) =>
+      Array.isArray(message.content) &&
+      message.content.some(
+        (part) => part.type === "image" || (part.type === "file" && typeof part.mediaType === "string" && part.mediaType.startsWith("image/")),
+      ),
+  );
+}
+
+/**
+ * Flatten the text of a prompt input, used for usage events and logging
+ *
+ * @param input The prompt input
+ * @returns The prompt, or the text parts of the messages joined by newlines
+ */
+export function promptInputToText(input: PromptInput): string {
+  if (input.prompt !== undefined) {
+    return input.prompt;
+  }
+  return input.messages
+    .map((message) =>
+      typeof message.content === "string"
+        ? message.content
+        : message.content
+            .map((part) => (part.type === "text" ? part.text : ""))
+            .filter(Boolean)
+            .join("\n"),
+    )
+    .filter(Boolean)
+    .join("\n");
+}
@@ -0,0 +1,136 @@
+import { createHash, createHmac, pbkdf2Sync } from "node:crypto";
+import { english, HDKey } from "viem/accounts";
+import bs58 from "bs58";
+import type { WalletType } from "./signer";
+import { expandSvmSeed } from "./keys";
+
+/**
+ * Default derivation path of each wallet type; `{index}` is replaced by the account index
+ *
+ * SVM follows Phantom and `solana-keygen`, EVM follows MetaMask.
+ */
+export const DEFAULT_DERIVATION_PATHS: Record<WalletType, string> = {
+  svm: "m/44'/501'/{index}'/0'",
+  evm: "m/44'/60'/0'/0/{index}",
+};
+
+const HARDENED_OFFSET = 0x80000000;
+const PATH_PATTERN = /^m(\/\d+'?)*$/;
+
+/**
+ * Normalize a mnemonic the way BIP-39 hashes it
+ */
+function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.normalize("NFKD").trim().toLowerCase().split(/\s+/).join(" ");
+}
+
+/**
+ * Check a BIP-39 mnemonic against the English wordlist and its checksum
+ *
+ * @param mnemonic - Space separated mnemonic phrase
+ * @throws Error describing why the mnemonic was rejected
+ */
+export function checkMnemonic(mnemonic: string): void {
+  const words = normalizeMnemonic(mnemonic).split(" ");
+  if (![12, 15, 18, 21, 24].includes(words.length)) {
+    throw new Error(`Mnemonic must have 12, 15, 18, 21 or 24 words, got ${words.length}`);
+  }
+
+  let bits = "";
+  for (const [position, word] of words.entries()) {
+    const index = english.indexOf(word);
+    if (index === -1) {
+      throw new Error(`Mnemonic word ${position + 1} is not in the BIP-39 English wordlist`);
+    }
+    bits += index.toString(2).padStart(11, "0");
+  }
+
+  // Each word holds 11 bits; the last ENT/32 bits are a checksum over the entropy
+  const checksumLength = bits.length / 33;
+  const entropyBits = bits.slice(0, -checksumLength);
+  const entropy = Buffer.from(entropyBits.match(/.{8}/g)!.map((byte) => parseInt(byte, 2)));
+  const hash = createHash("sha256").update(entropy).digest();
+  const expected = [...hash]
+    .map((byte) => byte.toString(2).padStart(8, "0"))
+    .join("")
+    .slice(0, checksumLength);
+  if (bits.slice(-checksumLength) !== expected) {
+    throw new Error("Mnemonic checksum is invalid; check the words and their order");
+  }
+}
+
+/**
+ * Build the derivation path of an account
+ *
+ * @param walletType - Type of wallet
+ * @param path - Configured path, may contain `{index}`; defaults to the wallet type's standard path
+ * @param accountIndex - Account index substituted for `{index}`
+ * @returns The derivation path
+ * @throws Error if the path is malformed or cannot be used with the wallet type
+ */
+export function getDerivationPath(walletType: WalletType, path?: string, accountIndex = 0): string {
+  if (!Number.isInteger(accountIndex) || accountIndex < 0 || accountIndex >= HARDENED_OFFSET) {
+    throw new Error(`Invalid account index "${accountIndex}": expected an integer from 0 to ${HARDENED_OFFSET - 1}`);
+  }
+
+  const template = path?.trim() || DEFAULT_DERIVATION_PATHS[walletType];
+  if (accountIndex > 0 && !template.includes("{index}")) {
+    throw new Error(`Derivation path "${template}" has no {index} placeholder for account index ${accountIndex}`);
+  }
+
+  const resolved = template.replaceAll("{index}", String(accountIndex));
+  if (!PATH_PATTERN.test(resolved)) {
+    throw new Error(`Invalid derivation path "${template}": expected a path such as "${DEFAULT_DERIVATION_PATHS[walletType]}"`);
+  }
+  if (resolved.split("/").slice(1).some((segment) => parseInt(segment, 10) >= HARDENED_OFFSET)) {
+    throw new Error(`Invalid derivation path "${template}": segment out of range`);
+  }
+  // SLIP-10 defines no public derivation for ed25519
+  if (walletType === "svm" && resolved.split("/").slice(1).some((segment) => !segment.endsWith("'"))) {
+    throw new Error(`Invalid derivation path "${template}": SVM paths must be fully hardened (e.g. "m/44'/501'/0'/0'")`);
+  }
+  return resolved;
+}
+
+/**
+ * Derive an ed25519 key with SLIP-10
+ *
+ * @param seed - BIP-39 seed
+ * @param path - Fully hardened derivation path
+ * @returns The 32-byte private key
+ */
+export function deriveSlip10Ed25519(seed: Uint8Array, path: string): Buffer {
+  let node = createHmac("sha512", "ed25519 seed").update(seed).digest();
+  for (const segment of path.split("/").slice(1)) {
+    const index = Buffer.alloc(4);
+    index.writeUInt32BE(parseInt(segment, 10) + HARDENED_OFFSET);
+    node = createHmac("sha512", node.subarray(32))
+      .update(Buffer.concat([Buffer.alloc(1), node.subarray(0, 32), index]))
+      .digest();
+  }
+  return node.subarray(0, 32);
+}
+
+/**
+ * Derive a wallet key from a BIP-39 mnemonic
+ *
+ * @param walletType - Type of wallet
+ * @param mnemonic - BIP-39 mnemonic phrase
+ * @param path - Derivation path, as returned by getDerivationPath
+ * @returns A base58 64-byte keypair for SVM wallets, 0x-prefixed hex for EVM wallets
+ * @throws Error if the mnemonic or path is invalid
+ */
+export function derivePrivateKey(walletType: WalletType, mnemonic: string, path: string): string {
+  checkMnemonic(mnemonic);
+  const seed = pbkdf2Sync(normalizeMnemonic(mnemonic), "mnemonic", 2048, 64, "sha512");
+
+  if (walletType === "svm") {
+    return bs58.encode(expandSvmSeed(deriveSlip10Ed25519(seed, path)));
+  }
+
+  const privateKey = HDKey.fromMasterSeed(seed).derive(path).privateKey;
+  if (!privateKey) {
+    throw new Error(`Could not derive a private key at "${path}"`);
+  }
+  return `0x${Buffer.from(privateKey).toString("hex")}`;
+}
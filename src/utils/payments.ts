@@ -0,0 +1,179 @@
+import { getAssetInfo } from "./chains";
+
+/**
+ * x402 payment made for one AiMo call
+ */
+export interface PaymentDetails {
+  /** Price in `currency` units */
+  price: number;
+  currency: string;
+  /** Price in the asset's smallest unit, as sent in the payment */
+  amount: string;
+  /** Token contract or mint address */
+  asset: string;
+  /** CAIP-2 network the payment was made on, e.g. "eip155:8453" */
+  network: string;
+  /** x402 payment scheme, e.g. "exact" */
+  scheme: string;
+  /** Wallet address that paid */
+  payer?: string;
+  /** Address of the AiMo node that was paid for the call */
+  payTo: string;
+  /** Settlement transaction, the x402 payment reference */
+  reference?: string;
+  /** Whether the node reported the payment as settled */
+  settled: boolean;
+}
+
+/**
+ * Payment requirements accepted by the client
+ */
+export interface AcceptedPayment {
+  scheme?: string;
+  network?: string;
+  asset?: string;
+  amount?: string;
+  payTo?: string;
+  extra?: Record<string, unknown>;
+}
+
+/**
+ * Decimals and symbol of the stablecoins AiMo Network is paid in, used for
+ * assets that are neither known nor described by the payment requirements
+ */
+const DEFAULT_PAYMENT_DECIMALS = 6;
+const DEFAULT_PAYMENT_CURRENCY = "USDC";
+
+/**
+ * Decode a base64-encoded JSON x402 header
+ */
+function decodePaymentHeader(value: string | null): Record<string, any> | undefined {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    const bytes = Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+    const decoded = JSON.parse(new TextDecoder().decode(bytes));
+    return decoded && typeof decoded === "object" ? decoded : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Convert an amount in the asset's smallest unit to a decimal price
+ */
+function toPrice(amount: string, decimals: number): number {
+  const value = Number(amount);
+  return Number.isFinite(value) ? value / 10 ** decimals : 0;
+}
+
+/**
+ * Price of x402 payment requirements in their asset's units
+ *
+ * @param requirements Accepted or offered payment requirements
+ * @param network Network to look the asset up on; defaults to the requirements' network
+ * @returns The decimal price and its currency
+ */
+export function getPaymentPrice(
+  requirements: AcceptedPayment,
+  network = requirements.network ?? "",
+): { price: number; currency: string } {
+  const asset = getAssetInfo(network, requirements.asset ?? "");
+  const decimals =
+    asset?.decimals ??
+    (typeof requirements.extra?.decimals === "number" ? requirements.extra.decimals : DEFAULT_PAYMENT_DECIMALS);
+  const currency =
+    asset?.symbol ??
+    (typeof requirements.extra?.symbol === "string" ? requirements.extra.symbol : DEFAULT_PAYMENT_CURRENCY);
+  return { price: toPrice(String(requirements.amount ?? "0"), decimals), currency };
+}
+
+/**
+ * Read the x402 payment of a call from its request and response headers
+ *
+ * The x402 v2 `PAYMENT-SIGNATURE` request header carries the accepted price,
+ * network and recipient; the `PAYMENT-RESPONSE` response header carries the
+ * settlement.
+ *
+ * @param requestHeaders Headers sent with the paid request
+ * @param responseHeaders Headers of its response
+ * @returns The payment, or undefined if the request carried none
+ */
+export function readPaymentDetails(
+  requestHeaders: Headers,
+  responseHeaders: Headers,
+): PaymentDetails | undefined {
+  const signature = decodePaymentHeader(requestHeaders.get("PAYMENT-SIGNATURE"));
+  const accepted: AcceptedPayment | undefined = signature?.accepted;
+  if (!signature || !accepted) {
+    return undefined;
+  }
+
+  const settlement = decodePaymentHeader(responseHeaders.get("PAYMENT-RESPONSE"));
+
+  const amount = String(accepted.amount ?? "0");
+  const network = settlement?.network ?? accepted.network ?? "";
+  const { price, currency } = getPaymentPrice(accepted, network);
+  const payer = settlement?.payer ?? signature.payload?.authorization?.from;
+
+  return {
+    price,
+    currency,
+    amount,
+    asset: accepted.asset ?? "",
+    network,
+    scheme: accepted.scheme ?? "",
+    ...(payer && { payer: String(payer) }),
+    payTo: accepted.payTo ?? "",
+    ...(settlement?.transaction && { reference: String(settlement.transaction) }),
+    settled: settlement?.success === true,
+  };
+}
+
+/**
+ * Total price of the payments made for a call
+ *
+ * @param payments Payments of the call
+ * @returns The summed price and its currency, or undefined if nothing was paid
+ */
+export function getTotalPaid(
+  payments: readonly PaymentDetails[],
+): { amount: number; currency: string } | undefined {
+  if (payments.length === 0) {
+    return undefined;
+  }
+  return {
+    amount: payments.reduce((total, payment) => total + payment.price, 0),
+    currency: payments[0].currency,
+  };
+}
+
+/**
+ * x402 payments made by calls that failed afterwards, by the error they failed with
+ */
+const failedCallPayments = new WeakMap<object, PaymentDetails[]>();
+
+/**
+ * Record the payments a failed call made on the error it failed with, so they
+ * are still charged to the budget
+ *
+ * @param error The error the call failed with
+ * @param payments Payments the call made before failing
+ */
+export function addFailedCallPayments(error: unknown, payments: readonly PaymentDetails[]): void {
+  if (payments.length === 0 || !error || typeof error !== "object") {
+    return;
+  }
+  failedCallPayments.set(error, [...(failedCallPayments.get(error) ?? []), ...payments]);
+}
+
+/**
+ * Get the payments a failed call made before failing
+ *
+ * @param error The error the call failed with
+ * @returns The payments; empty if none were made
+ */
+export function getFailedCallPayments(error: unknown): readonly PaymentDetails[] {
+  return (error && typeof error === "object" ? failedCallPayments.get(error) : undefined) ?? [];
+}
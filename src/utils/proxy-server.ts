@@ -0,0 +1,347 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { logger } from "@elizaos/core";
+import { ApiBase, wrapFetchWithSigner, type ClientSigner } from "@aimo.network/client";
+import { getPaymentPrice } from "./payments";
+import { PROXY_INFO_ENDPOINT, type ProxyInfo } from "./proxy";
+import type { WalletType } from "./signer";
+
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+// Only these headers are passed on; the client's SIWx header and token stay at the proxy
+const FORWARDED_REQUEST_HEADERS = ["content-type", "accept"];
+const FORWARDED_RESPONSE_HEADERS = ["content-type", "cache-control", "payment-response"];
+
+/**
+ * A client allowed to use the proxy
+ */
+export interface ProxyClient {
+  /** Name used in logs and spend reports */
+  name: string;
+  /** Bearer token the client authenticates with */
+  token: string;
+  /** Maximum spend per UTC day in USD */
+  maxUsdPerDay?: number;
+}
+
+export interface ProxyServerOptions {
+  /** Local signer holding the wallet */
+  signer: ClientSigner;
+  walletType: WalletType;
+  clients: ProxyClient[];
+  /** AiMo Network API URL requests are forwarded to; defaults to https://beta.aimo.network */
+  baseURL?: string;
+  /** Defaults to a random free port */
+  port?: number;
+  /** Defaults to 127.0.0.1 */
+  hostname?: string;
+  /**
+   * Origins of web pages allowed to call the proxy from a browser, e.g.
+   * "https://app.example.com", or "*" for any; defaults to none
+   */
+  allowedOrigins?: string[];
+}
+
+export interface ProxyServer {
+  /** Base URL to configure as AIMO_PROXY_URL */
+  url: string;
+  /** USD spent by a client on the current UTC day */
+  getSpend(name: string): number;
+  close(): Promise<void>;
+}
+
+/**
+ * Error answered to the client with its status
+ */
+class ProxyHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+async function readBody(request: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new ProxyHttpError(413, "Request body too large");
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { "content-type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Wait until a response can take more data or the client has gone away
+ */
+function waitForDrain(response: ServerResponse): Promise<void> {
+  return new Promise((resolve) => {
+    if (response.destroyed) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      response.off("drain", done);
+      response.off("close", done);
+      resolve();
+    };
+    response.on("drain", done);
+    response.on("close", done);
+  });
+}
+
+/**
+ * Allow a cross-origin browser request if its origin is allowed
+ *
+ * @returns true if the request comes from an allowed origin
+ */
+function setCorsHeaders(request: IncomingMessage, response: ServerResponse, allowedOrigins: string[]): boolean {
+  const origin = request.headers.origin;
+  if (!origin || !(allowedOrigins.includes("*") || allowedOrigins.includes(origin))) {
+    return false;
+  }
+  response.setHeader("access-control-allow-origin", origin);
+  response.setHeader("vary", "Origin");
+  // Let the client read the settlement and the 402 challenge
+  response.setHeader("access-control-expose-headers", "payment-response, payment-required");
+  return true;
+}
+
+function hashToken(token: string): Buffer {
+  return createHash("sha256").update(token).digest();
+}
+
+function getToday(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Start a signing proxy that pays for AiMo Network requests of keyless clients
+ *
+ * Each client's spend is counted when the proxy signs a payment for it, and a
+ * payment that would take the client over its daily cap is refused with 403.
+ * Spend is kept in memory and starts over when the proxy restarts. Browser pages
+ * of `allowedOrigins` may call the proxy across origins.
+ *
+ * @param options - Wallet, clients and server settings
+ * @returns The running server
+ */
+export async function startProxyServer(options: ProxyServerOptions): Promise<ProxyServer> {
+  const { signer } = options;
+  const clients = options.clients.map((client) => ({ client, tokenHash: hashToken(client.token) }));
+  const spend = new Map<string, { day: string; usd: number }>();
+  const upstreamBase = options.baseURL || "https://beta.aimo.network";
+
+  const getSpend = (name: string): number => {
+    const entry = spend.get(name);
+    return entry && entry.day === getToday() ? entry.usd : 0;
+  };
+
+  const authenticate = (request: IncomingMessage): ProxyClient => {
+    const match = /^Bearer (.+)$/.exec(request.headers.authorization ?? "");
+    const tokenHash = match ? hashToken(match[1]) : undefined;
+    const entry = tokenHash && clients.find((candidate) => timingSafeEqual(candidate.tokenHash, tokenHash));
+    if (!entry) {
+      throw new ProxyHttpError(401, "Unknown proxy token");
+    }
+    return entry.client;
+  };
+
+  /**
+   * Refuse the request if the client's spend would exceed its cap; a request that
+   * adds nothing is refused once the cap is used up
+   */
+  const checkSpendCap = (client: ProxyClient, addUsd: number): void => {
+    if (client.maxUsdPerDay === undefined) {
+      return;
+    }
+    const spent = getSpend(client.name);
+    if (addUsd > 0 ? spent + addUsd > client.maxUsdPerDay : spent >= client.maxUsdPerDay) {
+      throw new ProxyHttpError(
+        403,
+        `Spend cap of ${client.maxUsdPerDay} USD per day reached for client "${client.name}"`,
+      );
+    }
+  };
+
+  const addSpend = (name: string, usd: number): void => {
+    spend.set(name, { day: getToday(), usd: getSpend(name) + usd });
+  };
+
+  /**
+   * Signer that counts each payment against the client's cap before signing it
+   *
+   * The price is reserved before signing, so concurrent requests of a client see
+   * each other's payments, and given back if signing fails.
+   */
+  const createClientSigner = (client: ProxyClient, onRefused: (error: ProxyHttpError) => void): ClientSigner => ({
+    scheme: signer.scheme,
+    address: signer.address,
+    network: signer.network,
+    signPayload: (payload) => signer.signPayload(payload),
+    createPaymentPayload: async (x402Version, requirements) => {
+      const { price } = getPaymentPrice(requirements);
+      try {
+        checkSpendCap(client, price);
+      } catch (error: unknown) {
+        onRefused(error as ProxyHttpError);
+        throw error;
+      }
+      addSpend(client.name, price);
+      try {
+        const payload = await signer.createPaymentPayload(x402Version, requirements);
+        logger.debug(`[AiMo] Proxy paid ${price} for client "${client.name}"`);
+        return payload;
+      } catch (error: unknown) {
+        addSpend(client.name, -price);
+        throw error;
+      }
+    },
+  });
+
+  const handle = async (request: IncomingMessage, response: ServerResponse): Promise<void> => {
+    const corsAllowed = setCorsHeaders(request, response, options.allowedOrigins ?? []);
+    // Browsers send the preflight without the token, so it is answered first
+    if (request.method === "OPTIONS") {
+      if (!corsAllowed) {
+        throw new ProxyHttpError(403, `Origin ${request.headers.origin ?? "(none)"} is not allowed`);
+      }
+      response.writeHead(204, {
+        "access-control-allow-methods": "GET, POST, OPTIONS",
+        "access-control-allow-headers": request.headers["access-control-request-headers"] ?? "authorization, content-type",
+        "access-control-max-age": "600",
+      });
+      response.end();
+      return;
+    }
+    const client = authenticate(request);
+    const url = new URL(request.url ?? "/", "http://proxy");
+
+    if (url.pathname === `/${PROXY_INFO_ENDPOINT}`) {
+      const info: ProxyInfo = { address: String(signer.address), walletType: options.walletType, network: signer.network };
+      sendJson(response, 200, info);
+      return;
+    }
+    if (!url.pathname.startsWith(`${ApiBase}/`)) {
+      throw new ProxyHttpError(404, `Unknown endpoint ${url.pathname}`);
+    }
+    checkSpendCap(client, 0);
+
+    const method = request.method ?? "GET";
+    const body = method === "GET" || method === "HEAD" ? undefined : await readBody(request);
+    const headers = new Headers();
+    for (const name of FORWARDED_REQUEST_HEADERS) {
+      const value = request.headers[name];
+      if (typeof value === "string") {
+        headers.set(name, value);
+      }
+    }
+
+    // Stop the upstream request when the client goes away
+    const controller = new AbortController();
+    response.on("close", () => {
+      if (!response.writableFinished) {
+        controller.abort();
+      }
+    });
+
+    let refusal: ProxyHttpError | undefined;
+    const fetch = wrapFetchWithSigner(
+      globalThis.fetch,
+      createClientSigner(client, (error) => {
+        refusal = error;
+      }),
+    );
+
+    let upstream: Response;
+    try {
+      upstream = await fetch(new URL(`${url.pathname}${url.search}`, upstreamBase).toString(), {
+        method,
+        headers,
+        body,
+        signal: controller.signal,
+      });
+    } catch (error: unknown) {
+      if (refusal) {
+        throw refusal;
+      }
+      throw new ProxyHttpError(502, `AiMo Network request failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const responseHeaders: Record<string, string> = {};
+    for (const name of FORWARDED_RESPONSE_HEADERS) {
+      const value = upstream.headers.get(name);
+      if (value) {
+        responseHeaders[name] = value;
+      }
+    }
+    // The 402 challenge lets the client tell a refused payment from other errors
+    const paymentRequired = upstream.headers.get("payment-required");
+    if (paymentRequired) {
+      responseHeaders["payment-required"] = paymentRequired;
+    }
+    response.writeHead(upstream.status, responseHeaders);
+
+    if (upstream.body) {
+      const reader = upstream.body.getReader();
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        // Read from upstream only as fast as the client takes the data
+        if (!response.write(chunk.value)) {
+          await waitForDrain(response);
+        }
+        if (response.destroyed) {
+          await reader.cancel();
+          return;
+        }
+      }
+    }
+    response.end();
+  };
+
+  const server = createServer((request, response) => {
+    handle(request, response).catch((error: unknown) => {
+      const status = error instanceof ProxyHttpError ? error.status : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      if (status === 500) {
+        logger.error(`[AiMo] Proxy request failed: ${message}`);
+      }
+      if (response.headersSent) {
+        // Mid-stream failure: cut the stream so the client sees it as incomplete
+        response.destroy(error instanceof Error ? error : undefined);
+        return;
+      }
+      // OpenAI-style error body, so that SDK clients surface the message
+      sendJson(response, status, { error: { message, type: "proxy_error" } });
+    });
+  });
+
+  const hostname = options.hostname ?? "127.0.0.1";
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, hostname, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://${hostname}:${port}`,
+    getSpend,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
@@ -0,0 +1,172 @@
+import { wrapFetchWithSigner, type ClientSigner } from "@aimo.network/client";
+import { aimoNetwork } from "@aimo.network/provider";
+import type { ChainId } from "./chains";
+import { AimoProxyError } from "./errors";
+import type { WalletType } from "./signer";
+
+/**
+ * Signing proxy protocol
+ *
+ * A proxy holds the wallet and forwards AiMo Network API requests for clients
+ * that hold no key, such as agents running in a browser or an edge runtime:
+ *
+ * - Clients send each API request to the same path under the proxy URL
+ *   (e.g. `POST /api/v1/chat/completions`) with `Authorization: Bearer <token>`
+ * - The proxy signs in with SIWx, pays the x402 payment with its wallet and
+ *   streams the response back as it arrives
+ * - `GET /proxy/info` answers `{ address, walletType, network }` of the proxy's wallet
+ *
+ * Failures answer with a non-2xx status and an OpenAI-style `{ error: { message } }`:
+ * 401 for an unknown token, 403 when the client's spend cap is reached.
+ */
+export const PROXY_INFO_ENDPOINT = "proxy/info";
+
+const DEFAULT_PROXY_TIMEOUT_MS = 30000;
+
+/**
+ * Wallet the proxy pays with
+ */
+export interface ProxyInfo {
+  address: string;
+  walletType: WalletType;
+  network: ChainId;
+}
+
+export interface ProxyOptions {
+  /** Base URL of the proxy */
+  url: string;
+  /** Bearer token of this client */
+  token: string;
+  /** Wallet type the proxy must pay with; unset to accept the proxy's wallet type */
+  walletType?: WalletType;
+  /** Network the proxy must pay on; unset to accept the proxy's network */
+  chainId?: ChainId;
+  timeoutMs?: number;
+}
+
+/**
+ * Add the client's bearer token to every request sent through a fetch implementation
+ *
+ * @param fetch - The fetch implementation to wrap
+ * @param token - Bearer token of the client
+ * @returns fetch that authenticates with the proxy
+ */
+export function withProxyToken(fetch: typeof globalThis.fetch, token: string): typeof globalThis.fetch {
+  const authenticated = (input: RequestInfo | URL, init?: RequestInit) => {
+    const headers = new Headers(input instanceof Request ? input.headers : undefined);
+    new Headers(init?.headers).forEach((value, name) => headers.set(name, value));
+    headers.set("Authorization", `Bearer ${token}`);
+    return fetch(input, { ...init, headers });
+  };
+  return authenticated as typeof globalThis.fetch;
+}
+
+/**
+ * Client signer for requests sent through a signing proxy
+ *
+ * It holds no key: the proxy signs in and pays with its own wallet, so the
+ * SIWx header this signer produces is dropped by the proxy and payments are
+ * never made here.
+ */
+export class ProxySigner implements ClientSigner {
+  readonly scheme = "exact";
+
+  constructor(
+    readonly address: string,
+    readonly network: ChainId,
+    readonly walletType: WalletType,
+  ) {}
+
+  /**
+   * Reached only when the proxy answers 402 because its own payment was refused
+   */
+  async createPaymentPayload(): Promise<never> {
+    throw new AimoProxyError("payment", "the proxy could not pay for the request", 402);
+  }
+
+  async signPayload(): Promise<string> {
+    return "";
+  }
+}
+
+/**
+ * Connect to a signing proxy
+ *
+ * @param options - Proxy settings
+ * @returns A signer standing in for the proxy's wallet
+ * @throws AimoProxyError if the proxy cannot be reached, rejects the token or pays with another wallet type or network
+ */
+export async function createProxySigner(options: ProxyOptions): Promise<ProxySigner> {
+  const base = options.url.endsWith("/") ? options.url : `${options.url}/`;
+
+  let response: Response;
+  try {
+    response = await fetch(new URL(PROXY_INFO_ENDPOINT, base), {
+      headers: { Authorization: `Bearer ${options.token}` },
+      signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_PROXY_TIMEOUT_MS),
+    });
+  } catch (error: unknown) {
+    throw new AimoProxyError(PROXY_INFO_ENDPOINT, error instanceof Error ? error.message : String(error));
+  }
+
+  const info = (await response.json().catch(() => undefined)) as
+    | (Partial<ProxyInfo> & { error?: { message?: unknown } })
+    | undefined;
+  if (!response.ok) {
+    const message = info?.error?.message;
+    throw new AimoProxyError(
+      PROXY_INFO_ENDPOINT,
+      typeof message === "string" ? message : response.statusText,
+      response.status,
+    );
+  }
+  if (typeof info?.address !== "string" || !info.address || typeof info.network !== "string") {
+    throw new AimoProxyError(PROXY_INFO_ENDPOINT, "response has no address or network", response.status);
+  }
+  if (info.walletType !== "svm" && info.walletType !== "evm") {
+    throw new AimoProxyError(PROXY_INFO_ENDPOINT, `proxy pays with an unknown ${String(info.walletType)} wallet type`, response.status);
+  }
+  if (options.walletType && info.walletType !== options.walletType) {
+    throw new AimoProxyError(
+      PROXY_INFO_ENDPOINT,
+      `proxy pays with a ${String(info.walletType)} wallet but AIMO_WALLET_TYPE is ${options.walletType}`,
+    );
+  }
+  if (options.chainId && info.network !== options.chainId) {
+    throw new AimoProxyError(
+      PROXY_INFO_ENDPOINT,
+      `proxy pays on ${info.network} but AIMO_CHAIN_ID is ${options.chainId}`,
+    );
+  }
+  return new ProxySigner(info.address, info.network, info.walletType);
+}
+
+/**
+ * Models and API access of a client that pays through a signing proxy
+ */
+export interface AimoProxyClient {
+  /** AI SDK provider for AiMo Network chat models */
+  provider: ReturnType<typeof aimoNetwork>;
+  /** fetch for other AiMo Network API routes under the proxy URL, e.g. embeddings */
+  fetch: typeof globalThis.fetch;
+  signer: ProxySigner;
+}
+
+/**
+ * Connect to a signing proxy and create the provider for its models
+ *
+ * Uses only fetch, so it runs in browsers and edge runtimes without the plugin.
+ *
+ * @param options - Proxy settings
+ * @returns The provider and fetch sending requests through the proxy
+ * @throws AimoProxyError if the proxy cannot be reached, rejects the token or pays with another wallet type or network
+ */
+export async function createAimoProxyClient(options: ProxyOptions): Promise<AimoProxyClient> {
+  const signer = await createProxySigner(options);
+  const proxyFetch = withProxyToken(globalThis.fetch, options.token);
+  return {
+    provider: aimoNetwork({ signer, baseURL: options.url, fetch: proxyFetch }),
+    fetch: wrapFetchWithSigner(proxyFetch, signer),
+    signer,
+  };
+}
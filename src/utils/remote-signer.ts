@@ -0,0 +1,274 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import type { ClientSigner, SIWxPayload } from "@aimo.network/client";
+import type { ChainId } from "./chains";
+import { RemoteSignerError } from "./errors";
+import type { WalletType } from "./signer";
+
+/**
+ * Remote signer protocol
+ *
+ * Every request is a JSON POST authenticated with a shared secret:
+ *
+ * - `x-aimo-timestamp`: Unix time of the request in milliseconds
+ * - `x-aimo-signature`: hex HMAC-SHA256 of `${timestamp}.${body}` under the secret
+ *
+ * The signer rejects requests whose timestamp is more than five minutes off.
+ *
+ * | Endpoint               | Request body                                    | Response body            |
+ * |------------------------|-------------------------------------------------|--------------------------|
+ * | `POST /v1/info`        | `{}`                                            | `{ address, walletType }`|
+ * | `POST /v1/sign/payment`| `{ kind, network, x402Version, requirements }`  | `{ x402Version, payload }`|
+ * | `POST /v1/sign/siwx`   | `{ kind, network, payload }`                    | `{ signature }`          |
+ *
+ * Failures answer with a non-2xx status and `{ error }`: 401 for bad
+ * authentication, 403 when the signer's approval hook rejects the request.
+ */
+export const REMOTE_SIGNER_TIMESTAMP_HEADER = "x-aimo-timestamp";
+export const REMOTE_SIGNER_SIGNATURE_HEADER = "x-aimo-signature";
+export const REMOTE_SIGNER_MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const DEFAULT_REMOTE_SIGNER_TIMEOUT_MS = 30000;
+
+// Endpoints are relative so that a base URL with a path prefix is kept
+export const REMOTE_SIGNER_INFO_ENDPOINT = "v1/info";
+export const REMOTE_SIGNER_PAYMENT_ENDPOINT = "v1/sign/payment";
+export const REMOTE_SIGNER_SIWX_ENDPOINT = "v1/sign/siwx";
+
+type PaymentRequirements = Parameters<ClientSigner["createPaymentPayload"]>[1];
+type PaymentPayload = Awaited<ReturnType<ClientSigner["createPaymentPayload"]>>;
+
+/**
+ * Identity of the wallet held by a remote signer
+ */
+export interface RemoteSignerInfo {
+  address: string;
+  walletType: WalletType;
+}
+
+/**
+ * A request to sign, as sent to the remote signer and passed to approval hooks
+ */
+export type RemoteSignRequest =
+  | {
+      kind: "payment";
+      network: ChainId;
+      x402Version: number;
+      requirements: PaymentRequirements;
+    }
+  | {
+      kind: "siwx";
+      network: ChainId;
+      payload: Omit<SIWxPayload, "signature">;
+    };
+
+/**
+ * Decide whether a request may be signed, e.g. by checking the amount and recipient
+ */
+export type SignApprovalHook = (request: RemoteSignRequest) => boolean | Promise<boolean>;
+
+export interface RemoteSignerOptions {
+  /** Base URL of the signer service */
+  url: string;
+  /** Shared secret authenticating requests */
+  secret: string;
+  walletType: WalletType;
+  /** Network payments are made on */
+  chainId: ChainId;
+  /** Checked before each request is sent; returning false rejects it */
+  approve?: SignApprovalHook;
+  timeoutMs?: number;
+}
+
+/**
+ * Import the shared secret as an HMAC-SHA256 key
+ */
+function importSecret(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+    "verify",
+  ]);
+}
+
+/**
+ * Compute the signature header of a remote signer request
+ *
+ * @param secret - Shared secret
+ * @param timestamp - Value of the timestamp header
+ * @param body - Raw request body
+ * @returns Hex HMAC-SHA256
+ */
+export async function signRemoteSignerRequest(secret: string, timestamp: string, body: string): Promise<string> {
+  const signature = await crypto.subtle.sign("HMAC", await importSecret(secret), new TextEncoder().encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Verify the authentication headers of a remote signer request
+ *
+ * @param secret - Shared secret
+ * @param timestamp - Value of the timestamp header
+ * @param signature - Value of the signature header
+ * @param body - Raw request body
+ * @param now - Current time in milliseconds
+ * @returns true if the signature matches and the timestamp is recent
+ */
+export async function verifyRemoteSignerRequest(
+  secret: string,
+  timestamp: string | undefined,
+  signature: string | undefined,
+  body: string,
+  now = Date.now(),
+): Promise<boolean> {
+  if (!timestamp || !signature || !/^\d+$/.test(timestamp) || !/^[0-9a-f]{64}$/i.test(signature)) {
+    return false;
+  }
+  if (Math.abs(now - Number(timestamp)) > REMOTE_SIGNER_MAX_CLOCK_SKEW_MS) {
+    return false;
+  }
+  // Compares in constant time
+  return crypto.subtle.verify(
+    "HMAC",
+    await importSecret(secret),
+    Uint8Array.from(signature.match(/../g)!, (byte) => Number.parseInt(byte, 16)),
+    new TextEncoder().encode(`${timestamp}.${body}`),
+  );
+}
+
+/**
+ * Send an authenticated request to the remote signer
+ */
+async function callRemoteSigner<T>(options: RemoteSignerOptions, endpoint: string, request: object): Promise<T> {
+  const body = JSON.stringify(request);
+  const timestamp = String(Date.now());
+
+  let response: Response;
+  try {
+    response = await fetch(new URL(endpoint, options.url.endsWith("/") ? options.url : `${options.url}/`), {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        [REMOTE_SIGNER_TIMESTAMP_HEADER]: timestamp,
+        [REMOTE_SIGNER_SIGNATURE_HEADER]: await signRemoteSignerRequest(options.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_REMOTE_SIGNER_TIMEOUT_MS),
+    });
+  } catch (error: unknown) {
+    throw new RemoteSignerError(endpoint, error instanceof Error ? error.message : String(error));
+  }
+
+  const text = await response.text();
+  let data: any;
+  try {
+    data = text ? JSON.parse(text) : undefined;
+  } catch {
+    data = undefined;
+  }
+  if (!response.ok) {
+    throw new RemoteSignerError(endpoint, typeof data?.error === "string" ? data.error : text || response.statusText, response.status);
+  }
+  if (!data || typeof data !== "object") {
+    throw new RemoteSignerError(endpoint, "response is not a JSON object", response.status);
+  }
+  return data as T;
+}
+
+/**
+ * Client signer that delegates signing to a remote signer service
+ *
+ * The private key never enters this process; only the public address is known here.
+ */
+export class RemoteSigner implements ClientSigner {
+  readonly scheme = "exact";
+  readonly network: ChainId;
+
+  constructor(
+    private readonly options: RemoteSignerOptions,
+    readonly address: string,
+  ) {
+    this.network = options.chainId;
+  }
+
+  /**
+   * Sign an x402 payment payload
+   */
+  async createPaymentPayload(x402Version: number, requirements: PaymentRequirements): Promise<PaymentPayload> {
+    const request: RemoteSignRequest = { kind: "payment", network: this.network, x402Version, requirements };
+    await this.checkApproval(REMOTE_SIGNER_PAYMENT_ENDPOINT, request);
+    const result = await callRemoteSigner<PaymentPayload>(this.options, REMOTE_SIGNER_PAYMENT_ENDPOINT, request);
+    if (!result.payload || typeof result.payload !== "object") {
+      throw new RemoteSignerError(REMOTE_SIGNER_PAYMENT_ENDPOINT, "response has no payload");
+    }
+    return { x402Version: result.x402Version ?? x402Version, payload: result.payload };
+  }
+
+  /**
+   * Sign a SIWx payload
+   */
+  async signPayload(payload: Omit<SIWxPayload, "signature">): Promise<string> {
+    const request: RemoteSignRequest = { kind: "siwx", network: this.network, payload };
+    await this.checkApproval(REMOTE_SIGNER_SIWX_ENDPOINT, request);
+    const { signature } = await callRemoteSigner<{ signature?: unknown }>(this.options, REMOTE_SIGNER_SIWX_ENDPOINT, request);
+    if (typeof signature !== "string") {
+      throw new RemoteSignerError(REMOTE_SIGNER_SIWX_ENDPOINT, "response has no signature");
+    }
+    return signature;
+  }
+
+  private async checkApproval(endpoint: string, request: RemoteSignRequest): Promise<void> {
+    if (this.options.approve && !(await this.options.approve(request))) {
+      throw new RemoteSignerError(endpoint, `${request.kind} signing request rejected by the approval hook`);
+    }
+  }
+}
+
+/**
+ * Connect to a remote signer
+ *
+ * @param options - Signer service settings
+ * @returns A signer for the wallet the service holds
+ * @throws RemoteSignerError if the service cannot be reached or holds a wallet of another type
+ */
+export async function createRemoteSigner(options: RemoteSignerOptions): Promise<RemoteSigner> {
+  const info = await callRemoteSigner<Partial<RemoteSignerInfo>>(options, REMOTE_SIGNER_INFO_ENDPOINT, {});
+  if (typeof info.address !== "string" || !info.address) {
+    throw new RemoteSignerError(REMOTE_SIGNER_INFO_ENDPOINT, "response has no address");
+  }
+  if (info.walletType !== options.walletType) {
+    throw new RemoteSignerError(
+      REMOTE_SIGNER_INFO_ENDPOINT,
+      `signer holds a ${String(info.walletType)} wallet but AIMO_WALLET_TYPE is ${options.walletType}`,
+    );
+  }
+  return new RemoteSigner(options, info.address);
+}
+
+/**
+ * Per-runtime approval hooks checked before each remote signing request
+ */
+const approvalHooks = new WeakMap<IAgentRuntime, SignApprovalHook>();
+
+/**
+ * Set the hook that approves remote signing requests made for a runtime
+ *
+ * Takes effect immediately, including for a signer that is already connected.
+ *
+ * @param runtime The runtime context
+ * @param hook The approval hook, or undefined to approve every request
+ */
+export function setRemoteSignerApprovalHook(runtime: IAgentRuntime, hook: SignApprovalHook | undefined): void {
+  if (hook) {
+    approvalHooks.set(runtime, hook);
+  } else {
+    approvalHooks.delete(runtime);
+  }
+}
+
+/**
+ * Get an approval hook that defers to the runtime's current hook
+ *
+ * @param runtime The runtime context
+ */
+export function getRemoteSignerApprovalHook(runtime: IAgentRuntime): SignApprovalHook {
+  return (request) => approvalHooks.get(runtime)?.(request) ?? true;
+}
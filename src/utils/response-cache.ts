@@ -0,0 +1,351 @@
+import { sha256, stringToBytes } from "viem";
+import { logger, type IAgentRuntime, type ModelTypeName } from "@elizaos/core";
+import { getResponseCacheConfig } from "./config";
+import { emitModelUsageEvent } from "./events";
+
+/**
+ * Where cached responses are kept
+ *
+ * - `memory`: in the agent process, lost on restart
+ * - `disk`: one JSON file per response in AIMO_RESPONSE_CACHE_DIR, readable only by the user running the agent
+ */
+export type ResponseCacheBackend = "memory" | "disk";
+
+export const RESPONSE_CACHE_BACKENDS: readonly ResponseCacheBackend[] = ["memory", "disk"];
+
+/**
+ * Response cache settings; caching is off when `backend` is undefined
+ */
+export interface ResponseCacheConfig {
+  backend?: ResponseCacheBackend;
+  /** How long a response is served from the cache */
+  ttlMs: number;
+  /** Most responses kept; the least recently used are evicted first */
+  maxEntries: number;
+  /** Most bytes of serialized responses kept */
+  maxBytes: number;
+  /** Directory of the disk backend; unset for ~/.cache/aimo-response-cache/<agent id> */
+  dir?: string;
+  /** Calls with a higher temperature are not cached, as their output is not deterministic */
+  maxTemperature: number;
+}
+
+/**
+ * Response cache counters of a runtime since it started caching
+ */
+export interface ResponseCacheStats {
+  hits: number;
+  misses: number;
+  /** Responses stored */
+  writes: number;
+  /** Responses dropped to stay within the size limits */
+  evictions: number;
+}
+
+interface ResponseCacheStore {
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, value: unknown, size: number): Promise<void>;
+}
+
+interface CachedResponse {
+  value: unknown;
+  expiresAt: number;
+  size: number;
+}
+
+/**
+ * Response file of the disk backend
+ */
+interface DiskCachedResponse extends CachedResponse {
+  /** Use counter of the last read or write, ordering entries for eviction */
+  usedAt: number;
+}
+
+interface ResponseCacheState {
+  fingerprint: string;
+  store: ResponseCacheStore;
+  stats: ResponseCacheStats;
+}
+
+/**
+ * Per-runtime response cache
+ */
+const cacheStates = new WeakMap<IAgentRuntime, ResponseCacheState>();
+
+/**
+ * JSON with object keys in sorted order, so that equal requests hash equally
+ */
+function toStableJson(value: unknown): string {
+  return JSON.stringify(value, (_key, entry) =>
+    entry && typeof entry === "object" && !Array.isArray(entry) && !(entry instanceof URL)
+      ? Object.fromEntries(Object.entries(entry).sort(([a], [b]) => a.localeCompare(b)))
+      : entry,
+  );
+}
+
+/**
+ * Content-addressed key of a request
+ *
+ * @param request Everything that determines the response: model, prompt, system, schema and sampling parameters
+ * @returns SHA-256 hex digest of the request
+ */
+export function getResponseCacheKey(request: Record<string, unknown>): string {
+  return sha256(stringToBytes(toStableJson(request))).slice(2);
+}
+
+function createMemoryStore(config: ResponseCacheConfig, stats: ResponseCacheStats): ResponseCacheStore {
+  // Map order is the recency order: a hit moves its entry to the end
+  const entries = new Map<string, CachedResponse>();
+  let bytes = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (entry) {
+      entries.delete(key);
+      bytes -= entry.size;
+    }
+  };
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      remove(key);
+      if (entry.expiresAt <= Date.now()) {
+        return undefined;
+      }
+      entries.set(key, entry);
+      bytes += entry.size;
+      return entry.value;
+    },
+    async set(key, value, size) {
+      remove(key);
+      entries.set(key, { value, expiresAt: Date.now() + config.ttlMs, size });
+      bytes += size;
+      for (const oldest of entries.keys()) {
+        if (entries.size <= config.maxEntries && bytes <= config.maxBytes) {
+          break;
+        }
+        remove(oldest);
+        stats.evictions++;
+      }
+    },
+  };
+}
+
+function createDiskStore(config: ResponseCacheConfig, stats: ResponseCacheStats, agentId: string): ResponseCacheStore {
+  // File timestamps often tie on fast filesystems, so each entry records a
+  // counter that grows with every use and keeps ahead of earlier runs
+  let clock = 0;
+  const nextUse = () => (clock = Math.max(clock + 1, Date.now()));
+
+  // Last use and file size of each entry, loaded from the directory on first use
+  const index = new Map<string, { usedAt: number; bytes: number }>();
+
+  /**
+   * Load the Node.js file system modules, create the directory, private to the
+   * user running the agent, refuse one that other users could plant responses
+   * in, and index the stored entries
+   *
+   * The modules are only imported here, so the plugin still loads where they are missing.
+   */
+  let ready: Promise<{ fs: typeof import("node:fs/promises"); getPath: (key: string) => string }> | undefined;
+  const ensureDir = () =>
+    (ready ??= (async () => {
+      const [fs, { join }, { homedir }] = await Promise.all([
+        import("node:fs/promises"),
+        import("node:path"),
+        import("node:os"),
+      ]);
+      const dir = config.dir ?? join(homedir(), ".cache", "aimo-response-cache", agentId);
+      await fs.mkdir(dir, { recursive: true, mode: 0o700 });
+      const info = await fs.stat(dir);
+      const uid = process.getuid?.();
+      if (uid !== undefined && (info.uid !== uid || (info.mode & 0o022) !== 0)) {
+        throw new Error(`${dir} must be owned by the agent's user and not writable by others`);
+      }
+      for (const file of await fs.readdir(dir)) {
+        if (!file.endsWith(".json")) {
+          continue;
+        }
+        const json = await fs.readFile(join(dir, file), "utf8").catch(() => undefined);
+        try {
+          const { usedAt } = JSON.parse(json ?? "") as Partial<DiskCachedResponse>;
+          index.set(file.slice(0, -".json".length), { usedAt: Number(usedAt) || 0, bytes: Buffer.byteLength(json!) });
+        } catch {
+          // Not a cache entry
+        }
+      }
+      return { fs, getPath: (key: string) => join(dir, `${key}.json`) };
+    })().catch((error: unknown) => {
+      ready = undefined;
+      index.clear();
+      throw error;
+    }));
+
+  const writeEntry = async (key: string, entry: DiskCachedResponse) => {
+    const { fs, getPath } = await ensureDir();
+    const json = JSON.stringify(entry);
+    await fs.writeFile(getPath(key), json, { mode: 0o600 });
+    index.set(key, { usedAt: entry.usedAt, bytes: Buffer.byteLength(json) });
+  };
+
+  const removeEntry = async (key: string) => {
+    const { fs, getPath } = await ensureDir();
+    index.delete(key);
+    await fs.rm(getPath(key), { force: true });
+  };
+
+  /**
+   * Drop the least recently used responses until the directory is within the limits,
+   * never the one just written
+   */
+  const prune = async (written: string) => {
+    const entries = [...index].filter(([key]) => key !== written).sort(([, a], [, b]) => a.usedAt - b.usedAt);
+    let bytes = [...index.values()].reduce((total, entry) => total + entry.bytes, 0);
+    let count = index.size;
+    for (const [key, entry] of entries) {
+      if (count <= config.maxEntries && bytes <= config.maxBytes) {
+        break;
+      }
+      await removeEntry(key);
+      count--;
+      bytes -= entry.bytes;
+      stats.evictions++;
+    }
+  };
+
+  return {
+    async get(key) {
+      const { fs, getPath } = await ensureDir();
+      let entry: DiskCachedResponse;
+      try {
+        entry = JSON.parse(await fs.readFile(getPath(key), "utf8")) as DiskCachedResponse;
+      } catch {
+        return undefined;
+      }
+      if (!(entry.expiresAt > Date.now())) {
+        await removeEntry(key);
+        return undefined;
+      }
+      await writeEntry(key, { ...entry, usedAt: nextUse() }).catch(() => undefined);
+      return entry.value;
+    },
+    async set(key, value, size) {
+      await writeEntry(key, { value, expiresAt: Date.now() + config.ttlMs, size, usedAt: nextUse() });
+      await prune(key);
+    },
+  };
+}
+
+/**
+ * Get the response cache of a runtime, recreating it when its settings change
+ */
+function getCacheState(runtime: IAgentRuntime, config: ResponseCacheConfig): ResponseCacheState {
+  const fingerprint = JSON.stringify(config);
+  const existing = cacheStates.get(runtime);
+  if (existing?.fingerprint === fingerprint) {
+    return existing;
+  }
+  const stats = existing?.stats ?? { hits: 0, misses: 0, writes: 0, evictions: 0 };
+  const store =
+    config.backend === "disk" ? createDiskStore(config, stats, runtime.agentId) : createMemoryStore(config, stats);
+  const state = { fingerprint, store, stats };
+  cacheStates.set(runtime, state);
+  return state;
+}
+
+/**
+ * Get the response cache counters of a runtime
+ *
+ * @param runtime The runtime context
+ * @returns Hits, misses, writes and evictions; all zero if nothing was cached
+ */
+export function getResponseCacheStats(runtime: IAgentRuntime): ResponseCacheStats {
+  const stats = cacheStates.get(runtime)?.stats;
+  return stats ? { ...stats } : { hits: 0, misses: 0, writes: 0, evictions: 0 };
+}
+
+/**
+ * Drop the in-memory response cache and counters of a runtime
+ *
+ * Responses cached on disk are kept.
+ *
+ * @param runtime The runtime context
+ */
+export function clearResponseCache(runtime: IAgentRuntime): void {
+  cacheStates.delete(runtime);
+}
+
+/**
+ * Whether a call with this temperature may be served from the cache
+ *
+ * @param runtime The runtime context
+ * @param temperature Sampling temperature of the call
+ * @returns true if caching is on and the temperature is at most AIMO_RESPONSE_CACHE_MAX_TEMPERATURE
+ */
+export function isResponseCacheable(runtime: IAgentRuntime, temperature: number): boolean {
+  const config = getResponseCacheConfig(runtime);
+  return !!config.backend && temperature <= config.maxTemperature;
+}
+
+/**
+ * Serve a call from the response cache, or make it and cache its response
+ *
+ * A hit is reported as a MODEL_USED event with `cached: true` and zero cost. Cache
+ * failures are logged and the call is made as if the cache were off.
+ *
+ * @param runtime The runtime context
+ * @param type Model type reported in the usage event of a hit
+ * @param request Everything that determines the response, including the model
+ * @param prompt Prompt text reported in the usage event of a hit
+ * @param call Makes the call; its result must be JSON-serializable
+ * @returns The cached or fresh response
+ */
+export async function withResponseCache<T>(
+  runtime: IAgentRuntime,
+  type: ModelTypeName,
+  request: Record<string, unknown> & { model: string },
+  prompt: string,
+  call: () => Promise<T>,
+): Promise<T> {
+  const config = getResponseCacheConfig(runtime);
+  if (!config.backend) {
+    return call();
+  }
+  const { store, stats } = getCacheState(runtime, config);
+  // Scoped to the agent, so agents sharing a directory never serve each other's responses
+  const key = getResponseCacheKey({ ...request, agentId: runtime.agentId });
+
+  const cached = await store.get(key).catch((error: unknown) => {
+    logger.warn(`[AiMo] Response cache read failed: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  });
+  if (cached !== undefined) {
+    stats.hits++;
+    logger.debug(`[AiMo] Response cache hit for ${request.model}`);
+    emitModelUsageEvent(
+      runtime,
+      type,
+      prompt,
+      { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+      { model: request.model, latencyMs: 0, cached: true },
+    );
+    return cached as T;
+  }
+  stats.misses++;
+
+  const value = await call();
+  const size = new TextEncoder().encode(JSON.stringify(value) ?? "").length;
+  if (size <= config.maxBytes) {
+    try {
+      await store.set(key, value, size);
+      stats.writes++;
+    } catch (error: unknown) {
+      logger.warn(`[AiMo] Response cache write failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return value;
+}
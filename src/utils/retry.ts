@@ -0,0 +1,84 @@
+import { logger } from "@elizaos/core";
+import { getErrorDetails, isRetryableError } from "./errors";
+
+/**
+ * Retry behaviour for AiMo calls
+ */
+export interface RetryConfig {
+  /** Total attempts including the first call; 1 disables retries */
+  maxAttempts: number;
+  /** Delay before the first retry, doubled on every further retry */
+  baseDelayMs: number;
+  /** Upper bound for a single delay */
+  maxDelayMs: number;
+  /** Fraction of each delay that is randomized (0 = fixed delays, 1 = full jitter) */
+  jitter: number;
+}
+
+/**
+ * Compute the delay before a retry
+ *
+ * @param config Retry configuration
+ * @param retry Number of the retry, starting at 1
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(config: RetryConfig, retry: number): number {
+  const delay = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(delay * (1 - config.jitter * Math.random()));
+}
+
+/**
+ * Wait before a retry, ending early when the signal aborts
+ *
+ * @throws The abort reason of the signal
+ */
+function sleep(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run an AiMo call, retrying transient failures with exponential backoff and jitter
+ *
+ * Only errors accepted by isRetryableError are retried. Streaming callers wrap
+ * the part of the call that runs before the first chunk is delivered, so a
+ * stream is never replayed after output reached the caller.
+ *
+ * @param config Retry configuration
+ * @param label Call label used in logs
+ * @param call Performs the call
+ * @param signal Optional caller signal; no further attempts are made once it aborts,
+ *   and an abort during a backoff delay throws its reason right away
+ * @returns The result of the first successful attempt
+ * @throws The last error when attempts are exhausted, or the first non-retryable error
+ */
+export async function withRetry<T>(
+  config: RetryConfig,
+  label: string,
+  call: () => PromiseLike<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (error: unknown) {
+      if (attempt >= config.maxAttempts || signal?.aborted || !isRetryableError(error)) {
+        throw error;
+      }
+      const delay = getRetryDelay(config, attempt);
+      logger.warn(
+        `[AiMo] ${label} attempt ${attempt}/${config.maxAttempts} failed: ${getErrorDetails(error).message}. Retrying in ${delay}ms`,
+      );
+      await sleep(delay, signal);
+    }
+  }
+}
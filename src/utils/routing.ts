@@ -0,0 +1,171 @@
+import { logger, type IAgentRuntime } from "@elizaos/core";
+import { getModelCatalog, type AimoModelInfo } from "./catalog";
+import { getModelRequirements } from "./config";
+
+/**
+ * Model name that selects the cheapest catalog model meeting the requirements
+ */
+export const AUTO_MODEL = "auto";
+
+/**
+ * Cheapest models an automatic selection falls back through before the
+ * configured fallbacks, so that a failing route does not walk the whole marketplace
+ */
+const MAX_AUTO_CANDIDATES = 3;
+
+/**
+ * Requirements a model must meet to be selected automatically
+ */
+export interface ModelRequirements {
+  /** Minimum context window in tokens */
+  minContextLength?: number;
+  /** Supports tool calling */
+  tools?: boolean;
+  /** Supports JSON mode or structured outputs */
+  jsonMode?: boolean;
+  /** Accepts image input */
+  vision?: boolean;
+  /** Maximum input and output price in USD per million tokens */
+  maxUsdPerMillionTokens?: number;
+}
+
+/**
+ * Combine declared requirements with those of a call; a capability needed by either is required
+ */
+export function mergeModelRequirements(...requirements: ModelRequirements[]): ModelRequirements {
+  const merged: ModelRequirements = {};
+  for (const entry of requirements) {
+    if (entry.minContextLength !== undefined) {
+      merged.minContextLength = Math.max(merged.minContextLength ?? 0, entry.minContextLength);
+    }
+    if (entry.maxUsdPerMillionTokens !== undefined) {
+      merged.maxUsdPerMillionTokens = Math.min(
+        merged.maxUsdPerMillionTokens ?? Number.POSITIVE_INFINITY,
+        entry.maxUsdPerMillionTokens,
+      );
+    }
+    merged.tools ||= entry.tools;
+    merged.jsonMode ||= entry.jsonMode;
+    merged.vision ||= entry.vision;
+  }
+  return merged;
+}
+
+/**
+ * Price used to rank models: input plus output USD per million tokens
+ *
+ * @returns The price, or undefined if the catalog has no token pricing for the model
+ */
+function getRankingPrice(model: AimoModelInfo): number | undefined {
+  const { input, output } = model.pricing ?? {};
+  return input === undefined && output === undefined ? undefined : (input ?? 0) + (output ?? 0);
+}
+
+/**
+ * Whether a catalog model meets the requirements
+ *
+ * Only chat models whose catalog entry lists text output are eligible, and a
+ * required capability the catalog does not list counts as missing.
+ *
+ * @param model The catalog model
+ * @param requirements The requirements to meet
+ * @returns true if the model can be selected
+ */
+export function meetsModelRequirements(model: AimoModelInfo, requirements: ModelRequirements): boolean {
+  if (!model.outputModalities.includes("text")) {
+    return false;
+  }
+  if (requirements.minContextLength && (model.contextLength ?? 0) < requirements.minContextLength) {
+    return false;
+  }
+  if (requirements.tools && !model.features.includes("tools")) {
+    return false;
+  }
+  if (
+    requirements.jsonMode &&
+    !model.features.includes("response_format") &&
+    !model.features.includes("structured_outputs")
+  ) {
+    return false;
+  }
+  if (requirements.vision && !model.inputModalities.includes("image")) {
+    return false;
+  }
+  if (requirements.maxUsdPerMillionTokens !== undefined) {
+    const { input, output } = model.pricing ?? {};
+    if (
+      input === undefined ||
+      output === undefined ||
+      input > requirements.maxUsdPerMillionTokens ||
+      output > requirements.maxUsdPerMillionTokens
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Get the catalog models meeting the requirements, cheapest first
+ *
+ * Models without token pricing come last.
+ *
+ * @param runtime The runtime context
+ * @param requirements The requirements to meet
+ * @returns IDs of the matching models
+ * @throws Error if the catalog cannot be fetched
+ */
+export async function findCheapestModels(runtime: IAgentRuntime, requirements: ModelRequirements): Promise<string[]> {
+  const catalog = await getModelCatalog(runtime);
+  return catalog
+    .filter((model) => meetsModelRequirements(model, requirements))
+    .map((model) => ({ id: model.id, price: getRankingPrice(model) ?? Number.POSITIVE_INFINITY }))
+    .sort((a, b) => a.price - b.price)
+    .map((model) => model.id);
+}
+
+function describeRequirements(requirements: ModelRequirements): string {
+  const parts = [
+    requirements.minContextLength && `context >= ${requirements.minContextLength}`,
+    requirements.tools && "tools",
+    requirements.jsonMode && "JSON mode",
+    requirements.vision && "vision",
+    requirements.maxUsdPerMillionTokens !== undefined && `<= ${requirements.maxUsdPerMillionTokens} USD/M tokens`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "no requirements";
+}
+
+/**
+ * Replace the automatic entry of a model chain with the cheapest matching models
+ *
+ * The models must meet both AIMO_SMALL_MODEL_REQUIREMENTS / AIMO_LARGE_MODEL_REQUIREMENTS
+ * and the requirements of the call, such as tool support when tools are given.
+ *
+ * @param runtime The runtime context
+ * @param models The configured model chain
+ * @param size Whether the chain is the small or the large one
+ * @param callRequirements Requirements of the call
+ * @param label Model type label used in logs, e.g. "TEXT_SMALL"
+ * @returns The chain with "auto" replaced; unchanged if it has no "auto" entry
+ * @throws Error if the catalog cannot be fetched or no model meets the requirements
+ */
+export async function resolveModelChain(
+  runtime: IAgentRuntime,
+  models: string[],
+  size: "small" | "large",
+  callRequirements: ModelRequirements,
+  label: string,
+): Promise<string[]> {
+  if (!models.includes(AUTO_MODEL)) {
+    return models;
+  }
+
+  const requirements = mergeModelRequirements(getModelRequirements(runtime, size), callRequirements);
+  const candidates = (await findCheapestModels(runtime, requirements)).slice(0, MAX_AUTO_CANDIDATES);
+  if (candidates.length === 0) {
+    throw new Error(`No AiMo model meets the ${label} requirements (${describeRequirements(requirements)})`);
+  }
+  logger.debug(`[AiMo] Auto-selected ${label} model ${candidates[0]} (${describeRequirements(requirements)})`);
+
+  return [...new Set(models.flatMap((model) => (model === AUTO_MODEL ? candidates : [model])))];
+}
@@ -0,0 +1,161 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { logger } from "@elizaos/core";
+import type { ClientSigner } from "@aimo.network/client";
+import {
+  REMOTE_SIGNER_INFO_ENDPOINT,
+  REMOTE_SIGNER_PAYMENT_ENDPOINT,
+  REMOTE_SIGNER_SIGNATURE_HEADER,
+  REMOTE_SIGNER_TIMESTAMP_HEADER,
+  REMOTE_SIGNER_SIWX_ENDPOINT,
+  verifyRemoteSignerRequest,
+  type RemoteSignRequest,
+  type SignApprovalHook,
+} from "./remote-signer";
+import type { WalletType } from "./signer";
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface SignerServerOptions {
+  /** Local signer holding the key */
+  signer: ClientSigner;
+  walletType: WalletType;
+  /** Shared secret clients authenticate with */
+  secret: string;
+  /** Checked before each signature; returning false answers 403 */
+  approve?: SignApprovalHook;
+  /** Defaults to a random free port */
+  port?: number;
+  /** Defaults to 127.0.0.1 */
+  hostname?: string;
+}
+
+export interface SignerServer {
+  /** Base URL to configure as AIMO_REMOTE_SIGNER_URL */
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Error answered to the client with its status
+ */
+class SignerHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+async function readBody(request: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new SignerHttpError(413, "Request body too large");
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { "content-type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Start a reference signer service for the remote signer protocol
+ *
+ * Meant for tests and as a starting point for a hardened signer process; it
+ * keeps no replay log beyond the timestamp window.
+ *
+ * @param options - Signer and server settings
+ * @returns The running server
+ */
+export async function startSignerServer(options: SignerServerOptions): Promise<SignerServer> {
+  const handle = async (request: IncomingMessage): Promise<unknown> => {
+    if (request.method !== "POST") {
+      throw new SignerHttpError(405, "Only POST is supported");
+    }
+    const body = await readBody(request);
+    const authenticated = await verifyRemoteSignerRequest(
+      options.secret,
+      request.headers[REMOTE_SIGNER_TIMESTAMP_HEADER] as string | undefined,
+      request.headers[REMOTE_SIGNER_SIGNATURE_HEADER] as string | undefined,
+      body,
+    );
+    if (!authenticated) {
+      throw new SignerHttpError(401, "Invalid or expired request signature");
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      throw new SignerHttpError(400, "Request body is not JSON");
+    }
+
+    const endpoint = (request.url ?? "").replace(/^\/+/, "");
+    if (endpoint === REMOTE_SIGNER_INFO_ENDPOINT) {
+      return { address: options.signer.address, walletType: options.walletType };
+    }
+
+    const kind =
+      endpoint === REMOTE_SIGNER_PAYMENT_ENDPOINT
+        ? "payment"
+        : endpoint === REMOTE_SIGNER_SIWX_ENDPOINT
+          ? "siwx"
+          : undefined;
+    if (!kind) {
+      throw new SignerHttpError(404, `Unknown endpoint /${endpoint}`);
+    }
+    if (payload?.kind !== kind) {
+      throw new SignerHttpError(400, `Expected a ${kind} request`);
+    }
+    const signRequest = payload as RemoteSignRequest;
+    if (options.approve && !(await options.approve(signRequest))) {
+      throw new SignerHttpError(403, `${kind} signing request rejected by the approval hook`);
+    }
+
+    if (signRequest.kind === "payment") {
+      return options.signer.createPaymentPayload(signRequest.x402Version, signRequest.requirements);
+    }
+    return { signature: await options.signer.signPayload(signRequest.payload) };
+  };
+
+  const server = createServer((request, response) => {
+    handle(request).then(
+      (result) => sendJson(response, 200, result),
+      (error: unknown) => {
+        const status = error instanceof SignerHttpError ? error.status : 500;
+        const message = error instanceof Error ? error.message : String(error);
+        if (status === 500) {
+          logger.error(`[AiMo] Signer server failed to sign: ${message}`);
+        }
+        sendJson(response, status, { error: message });
+      },
+    );
+  });
+
+  const hostname = options.hostname ?? "127.0.0.1";
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, hostname, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://${hostname}:${port}`,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
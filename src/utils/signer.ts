@@ -1,29 +1,55 @@
 import { logger } from "@elizaos/core";
-import { SvmClientSigner, SOLANA_MAINNET_CHAIN_ID, SOLANA_DEVNET_CHAIN_ID } from "@aimo.network/svm";
+import { SvmClientSigner, SOLANA_MAINNET_CHAIN_ID } from "@aimo.network/svm";
 import { EvmClientSigner, EVM_MAINNET_CHAIN_ID } from "@aimo.network/evm";
 import { createKeyPairSignerFromBytes } from "@solana/kit";
 import { privateKeyToAccount } from "viem/accounts";
 import bs58 from "bs58";
+import { getDefaultChain, resolveCaip2Chain, resolveChain } from "./chains";
+import { checkPrivateKey, checkSignerKey, resolvePrivateKey } from "./keys";
+import { createProxySigner, type ProxySigner } from "./proxy";
+import { createRemoteSigner, type RemoteSigner, type SignApprovalHook } from "./remote-signer";
 
 export type WalletType = "svm" | "evm";
 
 export interface SignerConfig {
-  walletType: WalletType;
-  privateKey: string;
+  /** Required unless proxyUrl is set; a proxy without it pays with its own wallet type */
+  walletType?: WalletType;
+  /** Key as base58, JSON byte array, hex or keystore v3 JSON */
+  privateKey?: string;
+  /** File holding the key in any of the formats of privateKey */
+  privateKeyFile?: string;
+  /** Password of an EVM keystore v3 key */
+  keystorePassword?: string;
+  /** BIP-39 mnemonic to derive the key from, instead of privateKey */
+  mnemonic?: string;
+  /** Derivation path, may contain `{index}`; defaults to the wallet type's standard path */
+  derivationPath?: string;
+  /** Account index substituted for `{index}` in the derivation path */
+  accountIndex?: number;
+  /** Signer service holding the key, instead of a key in this process */
+  remoteSignerUrl?: string;
+  /** Shared secret authenticating requests to the signer service */
+  remoteSignerSecret?: string;
+  /** Checked before each request to the signer service */
+  remoteSignerApprove?: SignApprovalHook;
+  /** Signing proxy that pays with its own wallet, instead of a key or signer service */
+  proxyUrl?: string;
+  /** Bearer token of this client at the signing proxy */
+  proxyToken?: string;
   chainId?: string;
 }
 
 /**
  * Validate SVM (Solana) private key format
- * SVM private keys should be base58 encoded and typically 64 characters (58 bytes decoded)
+ * SVM private keys are base58 strings or JSON byte arrays holding the 64-byte keypair or the 32-byte seed
  *
  * @param privateKey - Private key to validate
  * @returns true if valid, false otherwise
  */
 export function validateSvmPrivateKey(privateKey: string): boolean {
   try {
-    const decoded = bs58.decode(privateKey);
-    return decoded.length === 64;
+    checkPrivateKey("svm", privateKey);
+    return true;
   } catch {
     return false;
   }
@@ -31,13 +57,19 @@ export function validateSvmPrivateKey(privateKey: string): boolean {
 
 /**
  * Validate EVM (Ethereum) private key format
- * EVM private keys should be hex string starting with 0x, 64 hex characters (32 bytes)
+ * EVM private keys are 64 hex characters (32 bytes), with or without the 0x prefix, or keystore v3 JSON
  *
  * @param privateKey - Private key to validate
+ * @param password - Keystore password, required for keystore keys
  * @returns true if valid, false otherwise
  */
-export function validateEvmPrivateKey(privateKey: string): boolean {
-  return /^0x[0-9a-fA-F]{64}$/.test(privateKey);
+export function validateEvmPrivateKey(privateKey: string, password?: string): boolean {
+  try {
+    checkPrivateKey("evm", privateKey, password);
+    return true;
+  } catch {
+    return false;
+  }
 }
 
 /**
@@ -45,13 +77,14 @@ export function validateEvmPrivateKey(privateKey: string): boolean {
  *
  * @param walletType - Type of wallet (svm or evm)
  * @param privateKey - Private key to validate
+ * @param password - Keystore password, required for EVM keystore keys
  * @returns true if valid match, false otherwise
  */
-export function validateWalletConfig(walletType: WalletType, privateKey: string): boolean {
+export function validateWalletConfig(walletType: WalletType, privateKey: string, password?: string): boolean {
   if (walletType === "svm") {
     return validateSvmPrivateKey(privateKey);
   } else if (walletType === "evm") {
-    return validateEvmPrivateKey(privateKey);
+    return validateEvmPrivateKey(privateKey, password);
   }
   return false;
 }
@@ -60,25 +93,12 @@ export function validateWalletConfig(walletType: WalletType, privateKey: string)
  * Get chain ID for wallet type from string
  *
  * @param walletType - Type of wallet
- * @param chainIdString - Chain ID string (e.g., "mainnet", "devnet", "sepolia", "11155111")
- * @returns Chain ID constant
+ * @param chainIdString - CAIP-2 chain ID, alias (e.g., "mainnet", "devnet", "sepolia") or numeric EVM chain ID
+ * @returns CAIP-2 chain ID of a supported network
+ * @throws Error if the chain is unknown or does not match the wallet type
  */
 export function getChainIdForWallet(walletType: WalletType, chainIdString: string): `${string}:${string}` {
-  const lowerChain = chainIdString.toLowerCase();
-  
-  if (walletType === "svm") {
-    if (lowerChain.includes("devnet")) {
-      return SOLANA_DEVNET_CHAIN_ID;
-    }
-    return SOLANA_MAINNET_CHAIN_ID;
-  } else if (walletType === "evm") {
-    if (lowerChain.includes("sepolia") || chainIdString === "11155111") {
-      return "eip155:11155111" as `${string}:${string}`; // Sepolia testnet
-    }
-    return EVM_MAINNET_CHAIN_ID;
-  }
-  
-  throw new Error(`Unknown wallet type: ${walletType}`);
+  return resolveChain(walletType, chainIdString).chainId;
 }
 
 /**
@@ -125,25 +145,57 @@ export function createEvmSigner(
  * Factory function that creates appropriate signer based on wallet type
  *
  * @param config - Signer configuration
- * @returns Signer instance (SvmClientSigner | EvmClientSigner)
+ * @returns Signer instance (SvmClientSigner | EvmClientSigner | RemoteSigner | ProxySigner)
  * @throws Error if configuration is invalid
  */
-export async function createSignerFromConfig(config: SignerConfig): Promise<SvmClientSigner | EvmClientSigner> {
+export async function createSignerFromConfig(
+  config: SignerConfig
+): Promise<SvmClientSigner | EvmClientSigner | RemoteSigner | ProxySigner> {
+  if (config.walletType && config.walletType !== "svm" && config.walletType !== "evm") {
+    throw new Error(`Unknown wallet type: ${config.walletType}`);
+  }
+  
+  if (config.proxyUrl) {
+    checkSignerKey(config);
+    // Without a wallet type, the chain must be a CAIP-2 ID and the proxy's wallet type is used
+    const chainId = config.chainId
+      ? config.walletType
+        ? getChainIdForWallet(config.walletType, config.chainId)
+        : resolveCaip2Chain(config.chainId).chainId
+      : undefined;
+    logger.info(`Connecting to AiMo proxy${config.walletType ? ` for ${config.walletType.toUpperCase()} payments` : ""}`);
+    return createProxySigner({
+      url: config.proxyUrl,
+      token: config.proxyToken!,
+      walletType: config.walletType,
+      chainId,
+    });
+  }
+  
   if (!config.walletType) {
     throw new Error("Wallet type is required (svm or evm)");
   }
   
-  if (!config.privateKey) {
-    throw new Error("Private key is required");
+  if (config.remoteSignerUrl) {
+    checkSignerKey(config);
+    const chainId = getChainIdForWallet(config.walletType, config.chainId ?? getDefaultChain(config.walletType).chainId);
+    logger.info(`Connecting to remote ${config.walletType.toUpperCase()} signer for chain: ${chainId}`);
+    return createRemoteSigner({
+      url: config.remoteSignerUrl,
+      secret: config.remoteSignerSecret!,
+      walletType: config.walletType,
+      chainId,
+      approve: config.remoteSignerApprove,
+    });
   }
   
-  if (!validateWalletConfig(config.walletType, config.privateKey)) {
-    const expectedFormat = config.walletType === "svm" 
-      ? "base58 encoded (64 bytes when decoded)" 
-      : "hex string starting with 0x (64 hex characters)";
-    throw new Error(
-      `Invalid private key format for ${config.walletType} wallet. Expected: ${expectedFormat}`
-    );
+  let privateKey: string;
+  try {
+    privateKey = await resolvePrivateKey(config);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    const subject = config.mnemonic ? "mnemonic" : "private key";
+    throw new Error(`Invalid ${subject} for ${config.walletType} wallet: ${message}`);
   }
   
   const chainId = config.chainId ? getChainIdForWallet(config.walletType, config.chainId) : undefined;
@@ -151,10 +203,8 @@ export async function createSignerFromConfig(config: SignerConfig): Promise<SvmC
   logger.info(`Creating ${config.walletType.toUpperCase()} signer for chain: ${chainId || 'default'}`);
   
   if (config.walletType === "svm") {
-    return createSvmSigner(config.privateKey, chainId);
-  } else if (config.walletType === "evm") {
-    return createEvmSigner(config.privateKey, chainId);
+    return createSvmSigner(privateKey, chainId);
   }
   
-  throw new Error(`Unknown wallet type: ${config.walletType}`);
+  return createEvmSigner(privateKey, chainId);
 }
@@ -0,0 +1,176 @@
+import { AimoTimeoutError } from "./errors";
+import { addFailedCallPayments, readPaymentDetails, type PaymentDetails } from "./payments";
+
+/**
+ * Header used to match an outgoing request to the timer that guards it
+ */
+export const REQUEST_ID_HEADER = "x-aimo-request-id";
+
+/**
+ * Timeouts applied to a single AiMo call; 0 disables a timeout
+ */
+export interface TimeoutConfig {
+  /** Time allowed until the first output (or the full response when not streaming) */
+  requestTimeoutMs: number;
+  /** Time allowed between two stream chunks */
+  streamIdleTimeoutMs: number;
+}
+
+/**
+ * Guards one AiMo call with request and idle timeouts
+ */
+export interface RequestTimer {
+  /** Signal to pass to the call; aborts on timeout or when the caller's signal aborts */
+  readonly signal: AbortSignal;
+  /** Headers to send with the call so its response can be observed */
+  readonly headers: Record<string, string>;
+  /** The timeout that fired, if any */
+  readonly error: AimoTimeoutError | undefined;
+  /** x402 payments made for the call; a tool loop pays once per step */
+  readonly payments: readonly PaymentDetails[];
+  /** Record that HTTP response headers arrived, with the payment they settled */
+  markResponse(payment?: PaymentDetails): void;
+  /** Record a stream chunk; switches from the request timeout to the idle timeout */
+  markChunk(): void;
+  /**
+   * Settle with the given promise, or reject with the timeout error once the timer
+   * fires; the AI SDK leaves result promises of an aborted stream pending
+   */
+  guard<T>(promise: PromiseLike<T>): Promise<T>;
+  /** Stop all timers */
+  dispose(): void;
+}
+
+/**
+ * Timers of in-flight calls by request id, so the tracking fetch can report responses
+ */
+const activeTimers = new Map<string, RequestTimer>();
+
+/**
+ * Create a timer guarding one AiMo call
+ *
+ * @param config Request and idle timeouts
+ * @param signal Optional caller signal that cancels the call
+ * @returns The timer; dispose it when the call settles
+ */
+export function createRequestTimer(config: TimeoutConfig, signal?: AbortSignal): RequestTimer {
+  const id = crypto.randomUUID();
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let responded = false;
+  let streaming = false;
+  let disposed = false;
+  let error: AimoTimeoutError | undefined;
+  const payments: PaymentDetails[] = [];
+  const onTimeout: ((error: AimoTimeoutError) => void)[] = [];
+
+  const arm = (timeoutMs: number, phase: () => AimoTimeoutError["phase"]) => {
+    clearTimeout(timer);
+    if (disposed || timeoutMs <= 0) {
+      return;
+    }
+    timer = setTimeout(() => {
+      error = new AimoTimeoutError(phase(), timeoutMs);
+      controller.abort(error);
+      onTimeout.splice(0).forEach((reject) => reject(error!));
+    }, timeoutMs);
+  };
+
+  const requestTimer: RequestTimer = {
+    signal: signal ? AbortSignal.any([signal, controller.signal]) : controller.signal,
+    headers: { [REQUEST_ID_HEADER]: id },
+    get error() {
+      return error;
+    },
+    payments,
+    markResponse(payment?: PaymentDetails) {
+      responded = true;
+      if (payment) {
+        payments.push(payment);
+      }
+    },
+    markChunk() {
+      streaming = true;
+      arm(config.streamIdleTimeoutMs, () => "idle");
+    },
+    guard<T>(promise: PromiseLike<T>) {
+      const guarded = new Promise<T>((resolve, reject) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        onTimeout.push(reject);
+        promise.then(
+          (value) => (error ? reject(error) : resolve(value)),
+          (cause: unknown) => reject(error ?? cause),
+        );
+      });
+      // Callers may never read some of the result promises
+      guarded.catch(() => {});
+      return guarded;
+    },
+    dispose() {
+      disposed = true;
+      onTimeout.length = 0;
+      clearTimeout(timer);
+      activeTimers.delete(id);
+    },
+  };
+
+  arm(config.requestTimeoutMs, () => (streaming ? "idle" : responded ? "first-token" : "connect"));
+  activeTimers.set(id, requestTimer);
+  return requestTimer;
+}
+
+/**
+ * Wrap fetch so guarded calls learn when their HTTP response arrives, which
+ * separates connect timeouts from first-token timeouts, and which x402 payment
+ * it settled
+ *
+ * Wrap the fetch underneath the x402 payment handling, so that the paid retry
+ * of a request is observed with its payment headers.
+ *
+ * @param fetch The fetch implementation to wrap
+ * @returns fetch that reports responses to the matching request timer
+ */
+export function trackResponses(fetch: typeof globalThis.fetch): typeof globalThis.fetch {
+  const tracked = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const response = await fetch(input, init);
+    const headers = new Headers(input instanceof Request ? input.headers : undefined);
+    new Headers(init?.headers).forEach((value, name) => headers.set(name, value));
+    const id = headers.get(REQUEST_ID_HEADER);
+    if (id) {
+      activeTimers.get(id)?.markResponse(readPaymentDetails(headers, response.headers));
+    }
+    return response;
+  };
+  return tracked as typeof globalThis.fetch;
+}
+
+/**
+ * Run a non-streaming AiMo call under a request timer
+ *
+ * @param config Request timeout
+ * @param signal Optional caller signal
+ * @param call Performs the call with the timer's signal and headers
+ * @returns The call result
+ * @throws AimoTimeoutError if the call timed out; payments made before a failure
+ * are recorded on the error (see getFailedCallPayments)
+ */
+export async function withRequestTimeout<T>(
+  config: TimeoutConfig,
+  signal: AbortSignal | undefined,
+  call: (timer: RequestTimer) => Promise<T>,
+): Promise<T> {
+  const timer = createRequestTimer(config, signal);
+  try {
+    return await call(timer);
+  } catch (error: unknown) {
+    const thrown = timer.error ?? error;
+    // A call can fail after its payment settled, e.g. with a timeout or a 5xx
+    addFailedCallPayments(thrown, timer.payments);
+    throw thrown;
+  } finally {
+    timer.dispose();
+  }
+}
@@ -0,0 +1,85 @@
+import { jsonSchema, tool, type ToolChoice, type ToolSet } from "ai";
+import type {
+  AimoGenerationStep,
+  AimoToolCall,
+  AimoToolChoice,
+  AimoToolDefinition,
+  AimoToolResult,
+} from "../types";
+
+/**
+ * Minimal view of an AI SDK step used to collect tool activity
+ */
+interface StepLike {
+  text: string;
+  finishReason: string;
+  toolCalls: { toolCallId: string; toolName: string; input: unknown }[];
+  toolResults: { toolCallId: string; toolName: string; input: unknown; output: unknown }[];
+}
+
+/**
+ * Convert JSON-schema tool definitions into an AI SDK tool set
+ *
+ * @param tools Tool definitions keyed by tool name
+ * @returns AI SDK tool set
+ * @throws Error if a tool has no parameters schema
+ */
+export function buildToolSet(tools: Record<string, AimoToolDefinition>): ToolSet {
+  const toolSet: ToolSet = {};
+  for (const [name, definition] of Object.entries(tools)) {
+    if (!definition?.parameters || typeof definition.parameters !== "object") {
+      throw new Error(`Tool "${name}" must define a JSON schema in "parameters"`);
+    }
+    const { description, execute } = definition;
+    const inputSchema = jsonSchema<unknown>(definition.parameters);
+    // Tools without execute end the loop and are returned to the caller
+    toolSet[name] = execute
+      ? tool({ description, inputSchema, execute: async (input) => execute(input) })
+      : tool({ description, inputSchema });
+  }
+  return toolSet;
+}
+
+/**
+ * Convert the plugin tool choice into the AI SDK tool choice
+ */
+export function toToolChoice(choice: AimoToolChoice | undefined): ToolChoice<ToolSet> | undefined {
+  if (!choice || typeof choice === "string") {
+    return choice;
+  }
+  return { type: "tool", toolName: choice.toolName };
+}
+
+/**
+ * Collect tool calls and results from the steps of a generation
+ *
+ * @param steps AI SDK steps
+ * @returns Per-step summaries plus tool calls and results across all steps
+ */
+export function collectToolActivity(steps: StepLike[]): {
+  steps: AimoGenerationStep[];
+  toolCalls: AimoToolCall[];
+  toolResults: AimoToolResult[];
+} {
+  const summaries = steps.map((step) => ({
+    text: step.text,
+    finishReason: step.finishReason,
+    toolCalls: step.toolCalls.map(({ toolCallId, toolName, input }) => ({
+      toolCallId,
+      toolName,
+      input,
+    })),
+    toolResults: step.toolResults.map(({ toolCallId, toolName, input, output }) => ({
+      toolCallId,
+      toolName,
+      input,
+      output,
+    })),
+  }));
+
+  return {
+    steps: summaries,
+    toolCalls: summaries.flatMap((step) => step.toolCalls),
+    toolResults: summaries.flatMap((step) => step.toolResults),
+  };
+}
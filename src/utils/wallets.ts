@@ -0,0 +1,177 @@
+import { logger, type IAgentRuntime } from "@elizaos/core";
+import { getWalletConfigs, getWalletCooldownMs, getWalletStrategy } from "./config";
+import { classifyAimoError, getErrorDetails } from "./errors";
+import type { SignerConfig } from "./signer";
+
+/**
+ * One of the wallets the runtime pays from
+ */
+export interface WalletConfig extends SignerConfig {
+  /** Unique name used in logs and to pin models */
+  name: string;
+  /** Models this wallet is reserved for; unset to serve any model */
+  models?: string[];
+}
+
+/**
+ * How a wallet is chosen among the wallets that may pay for a model
+ *
+ * - `failover`: always the first available wallet, the next one only when it fails
+ * - `round-robin`: each call the next available wallet, to spread spend
+ */
+export type WalletStrategy = "failover" | "round-robin";
+
+export const WALLET_STRATEGIES: readonly WalletStrategy[] = ["failover", "round-robin"];
+
+/**
+ * Rotation position and cooldowns of a runtime's wallets
+ */
+interface WalletState {
+  cursor: number;
+  /** Wallet name to the time its cooldown ends */
+  unavailableUntil: Map<string, number>;
+}
+
+const walletStates = new WeakMap<IAgentRuntime, WalletState>();
+
+function getWalletState(runtime: IAgentRuntime): WalletState {
+  let state = walletStates.get(runtime);
+  if (!state) {
+    state = { cursor: 0, unavailableUntil: new Map() };
+    walletStates.set(runtime, state);
+  }
+  return state;
+}
+
+/**
+ * Get the wallets that may pay for a model
+ *
+ * Wallets pinned to the model come first; without any, the wallets that are not
+ * pinned to other models; without any of those, every wallet.
+ */
+function getCandidateWallets(wallets: WalletConfig[], model: string | undefined): WalletConfig[] {
+  if (model) {
+    const pinned = wallets.filter((wallet) => wallet.models?.includes(model));
+    if (pinned.length > 0) {
+      return pinned;
+    }
+  }
+  const unpinned = wallets.filter((wallet) => !wallet.models?.length);
+  return unpinned.length > 0 ? unpinned : wallets;
+}
+
+/**
+ * Choose the wallet to pay for a call
+ *
+ * @param runtime The runtime context
+ * @param model Model the call is for; unset for account routes, which take the
+ *   first available wallet without moving the round-robin rotation
+ * @param exclude Wallets already tried for this call
+ * @returns The wallet, or undefined if every candidate was tried or is cooling down after a failure
+ */
+export function selectWallet(
+  runtime: IAgentRuntime,
+  model?: string,
+  exclude: ReadonlySet<string> = new Set(),
+): WalletConfig | undefined {
+  const candidates = getCandidateWallets(getWalletConfigs(runtime), model).filter(
+    (wallet) => !exclude.has(wallet.name),
+  );
+  if (candidates.length === 0) {
+    return undefined;
+  }
+
+  const state = getWalletState(runtime);
+  const now = Date.now();
+  const available = candidates.filter((wallet) => (state.unavailableUntil.get(wallet.name) ?? 0) <= now);
+
+  if (available.length === 0) {
+    // Cooldowns only guess at recovery; a first attempt still goes to the wallet that recovers soonest
+    if (exclude.size > 0) {
+      return undefined;
+    }
+    return [...candidates].sort(
+      (a, b) => (state.unavailableUntil.get(a.name) ?? 0) - (state.unavailableUntil.get(b.name) ?? 0),
+    )[0];
+  }
+
+  if (model && getWalletStrategy(runtime) === "round-robin" && exclude.size === 0) {
+    return available[state.cursor++ % available.length];
+  }
+  return available[0];
+}
+
+/**
+ * Take a wallet out of rotation for AIMO_WALLET_COOLDOWN_MS
+ *
+ * @param runtime The runtime context
+ * @param name Wallet name
+ * @param reason Logged reason
+ */
+export function markWalletUnavailable(runtime: IAgentRuntime, name: string, reason: string): void {
+  const cooldownMs = getWalletCooldownMs(runtime);
+  getWalletState(runtime).unavailableUntil.set(name, Date.now() + cooldownMs);
+  logger.warn(`[AiMo] Wallet "${name}" unavailable for ${cooldownMs}ms: ${reason}`);
+}
+
+/**
+ * Put every wallet of a runtime back into rotation
+ *
+ * @param runtime The runtime context
+ */
+export function resetWalletState(runtime: IAgentRuntime): void {
+  walletStates.delete(runtime);
+}
+
+/**
+ * Whether a failed call points at the wallet rather than the model: a payment
+ * that was not accepted (e.g. insufficient balance) or an account that was refused
+ */
+export function isWalletError(error: unknown): boolean {
+  const { status } = getErrorDetails(error);
+  return classifyAimoError(error) === "payment" || status === 401 || status === 403;
+}
+
+/**
+ * Run a call with the selected wallet, moving on to the next wallet when it fails
+ * with a wallet error
+ *
+ * @param runtime The runtime context
+ * @param model Model the call is for
+ * @param attempt Performs the call with the named wallet
+ * @returns The result of the first successful call
+ * @throws The last wallet error when no wallet is left, or the first other error
+ */
+export async function withWalletFailover<T>(
+  runtime: IAgentRuntime,
+  model: string,
+  attempt: (wallet: string) => Promise<T>,
+): Promise<T> {
+  const tried = new Set<string>();
+  let wallet = selectWallet(runtime, model);
+  if (!wallet) {
+    throw new Error("AiMo wallet configuration is incomplete: no wallet is configured");
+  }
+  // Nothing to fail over to
+  if (getWalletConfigs(runtime).length === 1) {
+    return attempt(wallet.name);
+  }
+
+  while (true) {
+    tried.add(wallet.name);
+    try {
+      return await attempt(wallet.name);
+    } catch (error: unknown) {
+      if (!isWalletError(error)) {
+        throw error;
+      }
+      markWalletUnavailable(runtime, wallet.name, getErrorDetails(error).message);
+      const next = selectWallet(runtime, model, tried);
+      if (!next) {
+        throw error;
+      }
+      logger.warn(`[AiMo] Retrying ${model} with wallet "${next.name}"`);
+      wallet = next;
+    }
+  }
+}